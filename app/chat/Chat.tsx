@@ -2,8 +2,8 @@
 
 import { useChat } from "@ai-sdk/react";
 import { DefaultChatTransport } from "ai";
-import { useState } from "react";
-import { TriangleAlert } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { Paperclip, TriangleAlert } from "lucide-react";
 import {
   Conversation,
   ConversationContent,
@@ -17,9 +17,22 @@ import {
 import { Loader } from "@/components/ai-elements/loader";
 import {
   PromptInput,
+  PromptInputActionAddAttachments,
+  PromptInputActionMenu,
+  PromptInputActionMenuContent,
+  PromptInputActionMenuTrigger,
+  PromptInputAttachment,
+  PromptInputAttachments,
   PromptInputBody,
+  PromptInputHeader,
+  PromptInputSelect,
+  PromptInputSelectContent,
+  PromptInputSelectItem,
+  PromptInputSelectTrigger,
+  PromptInputSelectValue,
   PromptInputTextarea,
   PromptInputFooter,
+  PromptInputTools,
   PromptInputSubmit,
   type PromptInputMessage,
 } from "@/components/ai-elements/prompt-input";
@@ -32,11 +45,28 @@ import {
 } from "@/components/ai-elements/tool";
 import type { CaicUiMessage } from "~/lib/tools";
 import { isCaicToolPart } from "~/lib/tools";
+import { ROUTE_FILE_ACCEPT } from "~/lib/route/attachments";
+import type { ModelOption } from "~/lib/ai/models";
 import { Suggestion, Suggestions } from "~/components/ai-elements/suggestion";
+import { Button } from "@/components/ui/button";
 import { ModeToggle } from "@/components/mode-toggle";
+import { ChatSidebar } from "./ChatSidebar";
+import {
+  ConversationUsage,
+  MessageUsage,
+  UsageToggle,
+  useUsagePanel,
+} from "./UsagePanel";
 
 interface Props {
   welcomeMessage?: string;
+  /** Chat id of a saved conversation; a new chat gets a fresh id */
+  id?: string;
+  /** Messages of a saved conversation */
+  initialMessages?: CaicUiMessage[];
+  /** Models the user may pick, from `getModelOptions` */
+  models: ModelOption[];
+  defaultModel: string;
 }
 
 const suggestions = [
@@ -44,149 +74,438 @@ const suggestions = [
   "What's the regional discussion for Rocky Mountain NP?",
 ];
 
-export function Chat({ welcomeMessage }: Props) {
-  const { messages, sendMessage, status } = useChat<CaicUiMessage>({
+const MODEL_STORAGE_KEY = "caic-chat:model";
+
+/** Reconnect attempts after a dropped answer stream before giving up */
+const MAX_RESUME_ATTEMPTS = 3;
+
+/**
+ * Fetch and stream-read failures surface as TypeErrors, unlike errors the
+ * server reports in the stream
+ */
+const isConnectionError = (error: Error | undefined) =>
+  error instanceof TypeError;
+
+/**
+ * Seconds to wait after a 429 from /api/chat, or null for other errors. The
+ * transport puts the response body in the error message.
+ */
+function rateLimitRetryAfter(error: Error | undefined): number | null {
+  if (!error) return null;
+  try {
+    const body = JSON.parse(error.message);
+    return body?.code === "RATE_LIMITED" &&
+      typeof body.retryAfterSeconds === "number"
+      ? body.retryAfterSeconds
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+const formatWait = (seconds: number) =>
+  seconds < 60
+    ? `${seconds} second${seconds === 1 ? "" : "s"}`
+    : `${Math.ceil(seconds / 60)} minute${seconds > 60 ? "s" : ""}`;
+
+/**
+ * Countdown to when a rate-limited client may send again
+ *
+ * @returns Seconds left, 0 once allowed, or null if not rate limited
+ */
+function useRateLimitWait(error: Error | undefined): number | null {
+  const retryAfter = rateLimitRetryAfter(error);
+  const [remaining, setRemaining] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (retryAfter === null) {
+      setRemaining(null);
+      return;
+    }
+    const until = Date.now() + retryAfter * 1000;
+    const tick = () => {
+      const left = Math.max(0, Math.ceil((until - Date.now()) / 1000));
+      setRemaining(left);
+      if (left === 0) clearInterval(timer);
+    };
+    const timer = setInterval(tick, 1000);
+    tick();
+    return () => clearInterval(timer);
+  }, [error]);
+
+  return remaining;
+}
+
+/**
+ * Label for the model that answered. Responses report the model name the
+ * provider uses, which for configured endpoints differs from the alias.
+ */
+const modelLabel = (models: ModelOption[], id: string) =>
+  models.find(
+    (option) =>
+      option.id === id || ("modelName" in option && option.modelName === id),
+  )?.label ?? id;
+
+/**
+ * The selected model, remembered per browser. Stored ids that are no longer
+ * offered fall back to the default.
+ */
+function useSelectedModel(models: ModelOption[], defaultModel: string) {
+  const [model, setModel] = useState(defaultModel);
+
+  // localStorage is only available after hydration
+  useEffect(() => {
+    const stored = localStorage.getItem(MODEL_STORAGE_KEY);
+    const option = models.find((o) => o.id === stored);
+    if (option) setModel(option.id);
+  }, [models]);
+
+  const selectModel = (id: string) => {
+    const option = models.find((o) => o.id === id);
+    if (!option) return;
+    setModel(option.id);
+    localStorage.setItem(MODEL_STORAGE_KEY, option.id);
+  };
+
+  return [model, selectModel] as const;
+}
+
+export function Chat({
+  welcomeMessage,
+  id,
+  initialMessages,
+  models,
+  defaultModel,
+}: Props) {
+  const [savedCount, setSavedCount] = useState(0);
+  const lastQuestionId = useRef<string | undefined>(undefined);
+  const {
+    id: chatId,
+    messages,
+    setMessages,
+    sendMessage,
+    regenerate,
+    resumeStream,
+    status,
+    error,
+  } = useChat<CaicUiMessage>({
+    id,
+    messages: initialMessages,
     transport: new DefaultChatTransport({
       api: "/api/chat",
+      // Only replay an answer to the latest question
+      prepareReconnectToStreamRequest: ({ id }) => ({
+        api: `/api/chat/${id}/stream?${new URLSearchParams({
+          messageId: lastQuestionId.current ?? "",
+        })}`,
+      }),
     }),
+    // The server saves the conversation before the answer finishes
+    onFinish: () => setSavedCount((count) => count + 1),
   });
+  lastQuestionId.current = messages
+    .filter((message) => message.role === "user")
+    .at(-1)?.id;
   const [input, setInput] = useState("");
+  const [model, setModel] = useSelectedModel(models, defaultModel);
+  const [showUsage, toggleUsage] = useUsagePanel();
+
+  const send = (message: Parameters<typeof sendMessage>[0]) => {
+    sendMessage(message, { body: { model } });
+    // Give a new chat its own URL without remounting it mid-stream
+    if (!id) window.history.replaceState(null, "", `/c/${chatId}`);
+  };
+
+  // The replay starts the answer over, so drop the partial one first rather
+  // than appending to it
+  const resume = () => {
+    setMessages((current) =>
+      current.at(-1)?.role === "assistant" ? current.slice(0, -1) : current,
+    );
+    resumeStream();
+  };
+
+  // Reopened while the last question was still being answered
+  const resumedOnMount = useRef(false);
+  useEffect(() => {
+    if (resumedOnMount.current) return;
+    resumedOnMount.current = true;
+    if (initialMessages?.at(-1)?.role === "user") resumeStream();
+  }, []);
+
+  // Reconnect with backoff when the connection drops mid-answer
+  const streamed = useRef(false);
+  const resumeAttempts = useRef(0);
+  useEffect(() => {
+    if (status === "streaming") streamed.current = true;
+    if (status === "ready") {
+      streamed.current = false;
+      resumeAttempts.current = 0;
+    }
+    if (
+      status !== "error" ||
+      !streamed.current ||
+      !isConnectionError(error) ||
+      resumeAttempts.current >= MAX_RESUME_ATTEMPTS
+    ) {
+      return;
+    }
+
+    const delay = 1000 * 2 ** resumeAttempts.current++;
+    const timer = setTimeout(resume, delay);
+    return () => clearTimeout(timer);
+  }, [status, error]);
+
+  const rateLimitWait = useRateLimitWait(error);
 
   const handleSubmit = (message: PromptInputMessage) => {
     if (!message.text?.trim()) return;
-    sendMessage({ text: message.text });
+    send({ text: message.text, files: message.files });
     setInput("");
   };
 
   const hasMessages = messages.length > 0;
 
   return (
-    <div className="flex flex-col h-screen w-full bg-background text-foreground">
-      <header className="flex-none border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
-        <div className="container flex h-14 max-w-3xl mx-auto items-center justify-between px-4">
-          <div className="font-semibold">CAIC Chat</div>
-          <ModeToggle />
-        </div>
-      </header>
-
-      <div className="flex-1 overflow-hidden">
-        <div className="flex flex-col h-full max-w-3xl mx-auto p-4">
-          {hasMessages ? (
-            <Conversation className="flex-1">
-              <ConversationContent>
-                {messages.map((message) => (
-                  <Message key={message.id} from={message.role}>
-                    <MessageContent>
-                      {message.parts.map((part, index) => {
-                        // Handle text parts
-                        if (part.type === "text") {
-                          return (
-                            <MessageResponse key={index}>
-                              {part.text}
-                            </MessageResponse>
-                          );
-                        }
-
-                        if (isCaicToolPart(part)) {
-                          return (
-                            <Tool
-                              key={index}
-                              defaultOpen={part.state === "output-available"}
-                            >
-                              <ToolHeader
-                                type={part.type}
-                                state={part.state}
-                                title={part.type.replace("tool-", "")}
-                              />
-                              <ToolContent>
-                                <ToolInput input={part.input} />
-                                <ToolOutput
-                                  tool={part.type}
-                                  output={part.output}
-                                  errorText={part.errorText}
+    <div className="flex h-screen w-full bg-background text-foreground">
+      <ChatSidebar
+        activeId={messages.length ? chatId : undefined}
+        refreshKey={savedCount}
+      />
+      <div className="flex flex-1 min-w-0 flex-col">
+        <header className="flex-none border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+          <div className="container flex h-14 max-w-3xl mx-auto items-center justify-between px-4">
+            <div className="font-semibold">CAIC Chat</div>
+            <div className="flex items-center gap-1">
+              <UsageToggle open={showUsage} onToggle={toggleUsage} />
+              <ModeToggle />
+            </div>
+          </div>
+        </header>
+
+        <div className="flex-1 overflow-hidden">
+          <div className="flex flex-col h-full max-w-3xl mx-auto p-4">
+            {showUsage && <ConversationUsage messages={messages} />}
+            {hasMessages ? (
+              <Conversation className="flex-1">
+                <ConversationContent>
+                  {messages.map((message) => (
+                    <Message key={message.id} from={message.role}>
+                      <MessageContent>
+                        {message.parts.map((part, index) => {
+                          // Handle text parts
+                          if (part.type === "text") {
+                            return (
+                              <MessageResponse key={index}>
+                                {part.text}
+                              </MessageResponse>
+                            );
+                          }
+
+                          // Attached route files are analyzed server-side
+                          if (part.type === "file") {
+                            return (
+                              <div
+                                key={index}
+                                className="flex items-center gap-1 text-sm text-muted-foreground"
+                              >
+                                <Paperclip className="h-4 w-4" />
+                                {part.filename ?? "Attachment"}
+                              </div>
+                            );
+                          }
+
+                          if (isCaicToolPart(part)) {
+                            return (
+                              <Tool
+                                key={index}
+                                defaultOpen={part.state === "output-available"}
+                              >
+                                <ToolHeader
+                                  type={part.type}
+                                  state={part.state}
+                                  title={part.type.replace("tool-", "")}
                                 />
-                              </ToolContent>
-                            </Tool>
-                          );
-                        }
-
-                        return null;
-                      })}
-                    </MessageContent>
-                  </Message>
-                ))}
-                {status === "submitted" && <Loader />}
-              </ConversationContent>
-              <ConversationScrollButton />
-            </Conversation>
-          ) : (
-            <div className="flex-1 flex flex-col items-center justify-center space-y-8 text-center px-4">
-              <div className="max-w-lg space-y-4">
-                <h1 className="text-3xl font-bold tracking-tight">
-                  Welcome to CAIC Chat
-                </h1>
-
-                <div className="rounded-lg border border-border bg-card p-4 text-card-foreground shadow-sm">
-                  <div className="flex items-start gap-3 text-left">
-                    <TriangleAlert className="h-5 w-5 text-amber-500 shrink-0 mt-0.5" />
-                    <div className="space-y-1">
-                      <p className="font-medium">
-                        This is a side project for educational purposes
-                      </p>
-                      <p className="text-sm text-muted-foreground">
-                        Information provided here may not be accurate. Always
-                        verify avalanche forecasts and conditions with the
-                        official CAIC site.
-                      </p>
-
-                      <p className="text-sm text-muted-foreground">
-                        What is CAIC? The Colorado Avalanche Information Center
-                        provides forecasts and reports for backcountry
-                        recreators. Visit their official site at{" "}
-                        <a
-                          href="https://avalanche.state.co.us/"
-                          target="_blank"
-                          rel="noopener"
-                          className="text-primary underline-offset-4 hover:underline"
-                        >
-                          https://avalanche.state.co.us/
-                        </a>
-                      </p>
+                                <ToolContent>
+                                  <ToolInput input={part.input} />
+                                  <ToolOutput
+                                    tool={part.type}
+                                    output={part.output}
+                                    errorText={part.errorText}
+                                  />
+                                </ToolContent>
+                              </Tool>
+                            );
+                          }
+
+                          return null;
+                        })}
+                      </MessageContent>
+                      {message.role === "assistant" &&
+                        message.metadata?.model && (
+                          <div className="text-xs text-muted-foreground">
+                            {modelLabel(models, message.metadata.model)}
+                          </div>
+                        )}
+                      {showUsage && message.metadata?.usage && (
+                        <MessageUsage usage={message.metadata.usage} />
+                      )}
+                    </Message>
+                  ))}
+                  {status === "submitted" && <Loader />}
+                </ConversationContent>
+                <ConversationScrollButton />
+              </Conversation>
+            ) : (
+              <div className="flex-1 flex flex-col items-center justify-center space-y-8 text-center px-4">
+                <div className="max-w-lg space-y-4">
+                  <h1 className="text-3xl font-bold tracking-tight">
+                    Welcome to CAIC Chat
+                  </h1>
+
+                  <div className="rounded-lg border border-border bg-card p-4 text-card-foreground shadow-sm">
+                    <div className="flex items-start gap-3 text-left">
+                      <TriangleAlert className="h-5 w-5 text-amber-500 shrink-0 mt-0.5" />
+                      <div className="space-y-1">
+                        <p className="font-medium">
+                          This is a side project for educational purposes
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          Information provided here may not be accurate. Always
+                          verify avalanche forecasts and conditions with the
+                          official CAIC site.
+                        </p>
+
+                        <p className="text-sm text-muted-foreground">
+                          What is CAIC? The Colorado Avalanche Information
+                          Center provides forecasts and reports for backcountry
+                          recreators. Visit their official site at{" "}
+                          <a
+                            href="https://avalanche.state.co.us/"
+                            target="_blank"
+                            rel="noopener"
+                            className="text-primary underline-offset-4 hover:underline"
+                          >
+                            https://avalanche.state.co.us/
+                          </a>
+                        </p>
+                      </div>
                     </div>
                   </div>
                 </div>
+
+                <div className="w-full max-w-md">
+                  <Suggestions>
+                    {suggestions.map((suggestion) => (
+                      <Suggestion
+                        key={suggestion}
+                        onClick={() => {
+                          send({ text: suggestion });
+                        }}
+                        suggestion={suggestion}
+                      />
+                    ))}
+                  </Suggestions>
+                </div>
               </div>
+            )}
 
-              <div className="w-full max-w-md">
-                <Suggestions>
-                  {suggestions.map((suggestion) => (
-                    <Suggestion
-                      key={suggestion}
-                      onClick={() => {
-                        sendMessage({ text: suggestion });
-                      }}
-                      suggestion={suggestion}
-                    />
-                  ))}
-                </Suggestions>
+            {status === "error" && rateLimitWait !== null && (
+              <div className="flex flex-none items-center gap-2 pt-2 text-sm text-amber-600 dark:text-amber-500">
+                <TriangleAlert className="h-4 w-4 shrink-0" />
+                {rateLimitWait > 0 ? (
+                  `You've sent a lot of questions. You can ask again in ${formatWait(rateLimitWait)}.`
+                ) : (
+                  <>
+                    You can ask again now.
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0"
+                      onClick={() => regenerate({ body: { model } })}
+                    >
+                      Try again
+                    </Button>
+                  </>
+                )}
               </div>
+            )}
+
+            {status === "error" && rateLimitWait === null && (
+              <div className="flex flex-none items-center gap-2 pt-2 text-sm text-destructive">
+                <TriangleAlert className="h-4 w-4 shrink-0" />
+                {isConnectionError(error)
+                  ? "Connection lost."
+                  : "Something went wrong."}
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0"
+                  // Resume a cut-off answer, or ask again if none arrived
+                  onClick={() =>
+                    isConnectionError(error) && streamed.current
+                      ? resume()
+                      : regenerate({ body: { model } })
+                  }
+                >
+                  Try again
+                </Button>
+              </div>
+            )}
+
+            {/* Input Area */}
+            <div className="flex-none pt-4">
+              <PromptInput
+                onSubmit={handleSubmit}
+                accept={ROUTE_FILE_ACCEPT}
+                maxFiles={3}
+                maxFileSize={5 * 1024 * 1024}
+              >
+                <PromptInputHeader>
+                  <PromptInputAttachments>
+                    {(attachment) => (
+                      <PromptInputAttachment data={attachment} />
+                    )}
+                  </PromptInputAttachments>
+                </PromptInputHeader>
+                <PromptInputBody>
+                  <PromptInputTextarea
+                    value={input}
+                    onChange={(e) => setInput(e.target.value)}
+                    placeholder="Ask about avalanche conditions..."
+                  />
+                </PromptInputBody>
+                <PromptInputFooter>
+                  <PromptInputTools>
+                    <PromptInputActionMenu>
+                      <PromptInputActionMenuTrigger />
+                      <PromptInputActionMenuContent>
+                        <PromptInputActionAddAttachments label="Add GPX or KML route" />
+                      </PromptInputActionMenuContent>
+                    </PromptInputActionMenu>
+                    <PromptInputSelect value={model} onValueChange={setModel}>
+                      <PromptInputSelectTrigger aria-label="Model">
+                        <PromptInputSelectValue />
+                      </PromptInputSelectTrigger>
+                      <PromptInputSelectContent>
+                        {models.map((option) => (
+                          <PromptInputSelectItem
+                            key={option.id}
+                            value={option.id}
+                          >
+                            {option.label}
+                          </PromptInputSelectItem>
+                        ))}
+                      </PromptInputSelectContent>
+                    </PromptInputSelect>
+                  </PromptInputTools>
+                  <PromptInputSubmit
+                    status={status}
+                    disabled={!input.trim() || !!rateLimitWait}
+                  />
+                </PromptInputFooter>
+              </PromptInput>
             </div>
-          )}
-
-          {/* Input Area */}
-          <div className="flex-none pt-4">
-            <PromptInput onSubmit={handleSubmit}>
-              <PromptInputBody>
-                <PromptInputTextarea
-                  value={input}
-                  onChange={(e) => setInput(e.target.value)}
-                  placeholder="Ask about avalanche conditions..."
-                />
-              </PromptInputBody>
-              <PromptInputFooter>
-                <PromptInputSubmit status={status} disabled={!input.trim()} />
-              </PromptInputFooter>
-            </PromptInput>
           </div>
         </div>
       </div>
@@ -0,0 +1,237 @@
+import { useEffect, useState } from "react";
+import { Link, useFetcher, useNavigate } from "react-router";
+import { MoreHorizontal, Pencil, Plus, Search, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import { MAX_TITLE_LENGTH, type ConversationSummary } from "~/lib/chat/store";
+
+interface Props {
+  /** Chat id of the open conversation, highlighted in the list */
+  activeId?: string;
+  /** Changes whenever the open conversation has been saved */
+  refreshKey?: number;
+}
+
+/** A conversation as it arrives from `/api/conversations` */
+type ConversationListItem = Omit<ConversationSummary, "updatedAt"> & {
+  updatedAt: string;
+};
+
+type PendingAction = {
+  kind: "rename" | "delete";
+  conversation: ConversationListItem;
+};
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+const dateFormatter = new Intl.DateTimeFormat(undefined, {
+  month: "short",
+  day: "numeric",
+});
+
+/**
+ * Past conversations, with search and per-conversation rename and delete
+ */
+export function ChatSidebar({ activeId, refreshKey }: Props) {
+  const list = useFetcher<{ conversations: ConversationListItem[] }>();
+  const mutation = useFetcher();
+  const navigate = useNavigate();
+  const [search, setSearch] = useState("");
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [title, setTitle] = useState("");
+
+  useEffect(() => {
+    const query = search.trim();
+    const timer = setTimeout(
+      () =>
+        list.load(
+          query
+            ? `/api/conversations?${new URLSearchParams({ q: query })}`
+            : "/api/conversations",
+        ),
+      query ? SEARCH_DEBOUNCE_MS : 0,
+    );
+    return () => clearTimeout(timer);
+  }, [search, refreshKey]);
+
+  const openAction = (action: PendingAction) => {
+    setTitle(action.conversation.title);
+    setPending(action);
+  };
+
+  // Fetchers loaded with `load` are revalidated after the submission, so the
+  // list picks up the change without reloading it here
+  const confirm = () => {
+    if (!pending) return;
+    const { kind, conversation } = pending;
+    const action = `/api/conversations/${conversation.id}`;
+
+    if (kind === "rename") {
+      if (!title.trim()) return;
+      mutation.submit(
+        { title: title.trim() },
+        { method: "PATCH", action, encType: "application/json" },
+      );
+    } else {
+      mutation.submit(null, { method: "DELETE", action });
+      if (conversation.id === activeId) navigate("/");
+    }
+    setPending(null);
+  };
+
+  const conversations = list.data?.conversations ?? [];
+
+  return (
+    <aside className="hidden md:flex w-64 flex-none flex-col border-r border-border bg-muted/30">
+      <div className="flex flex-col gap-2 p-3">
+        <Button asChild variant="outline" className="justify-start">
+          <Link to="/">
+            <Plus />
+            New chat
+          </Link>
+        </Button>
+        <div className="relative">
+          <Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            type="search"
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+            placeholder="Search conversations"
+            aria-label="Search conversations"
+            className="pl-8"
+          />
+        </div>
+      </div>
+
+      <nav className="flex-1 overflow-y-auto px-2 pb-3">
+        {conversations.length === 0 && list.state === "idle" && list.data && (
+          <p className="px-2 py-4 text-sm text-muted-foreground">
+            {search.trim()
+              ? "No matching conversations"
+              : "No conversations yet"}
+          </p>
+        )}
+        <ul className="space-y-0.5">
+          {conversations.map((conversation) => (
+            <li
+              key={conversation.id}
+              className={cn(
+                "group flex items-start gap-1 rounded-md hover:bg-accent",
+                conversation.id === activeId && "bg-accent",
+              )}
+            >
+              <Link
+                to={`/c/${conversation.id}`}
+                className="min-w-0 flex-1 px-2 py-1.5"
+              >
+                <div className="truncate text-sm">{conversation.title}</div>
+                <div className="truncate text-xs text-muted-foreground">
+                  {conversation.snippet ??
+                    dateFormatter.format(new Date(conversation.updatedAt))}
+                </div>
+              </Link>
+              <DropdownMenu modal={false}>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    className="mt-1 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100"
+                  >
+                    <MoreHorizontal />
+                    <span className="sr-only">Conversation actions</span>
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem
+                    onSelect={() =>
+                      openAction({ kind: "rename", conversation })
+                    }
+                  >
+                    <Pencil />
+                    Rename
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    variant="destructive"
+                    onSelect={() =>
+                      openAction({ kind: "delete", conversation })
+                    }
+                  >
+                    <Trash2 />
+                    Delete
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </li>
+          ))}
+        </ul>
+      </nav>
+
+      <Dialog
+        open={pending !== null}
+        onOpenChange={(open) => !open && setPending(null)}
+      >
+        <DialogContent>
+          <form
+            onSubmit={(event) => {
+              event.preventDefault();
+              confirm();
+            }}
+            className="grid gap-4"
+          >
+            <DialogHeader>
+              <DialogTitle>
+                {pending?.kind === "delete"
+                  ? "Delete conversation?"
+                  : "Rename conversation"}
+              </DialogTitle>
+              <DialogDescription>
+                {pending?.kind === "delete"
+                  ? `"${pending.conversation.title}" will be deleted permanently.`
+                  : "Choose a title to find this conversation by."}
+              </DialogDescription>
+            </DialogHeader>
+            {pending?.kind === "rename" && (
+              <Input
+                value={title}
+                onChange={(event) => setTitle(event.target.value)}
+                maxLength={MAX_TITLE_LENGTH}
+                aria-label="Title"
+                autoFocus
+              />
+            )}
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline">
+                  Cancel
+                </Button>
+              </DialogClose>
+              <Button
+                type="submit"
+                variant={pending?.kind === "delete" ? "destructive" : "default"}
+                disabled={pending?.kind === "rename" && !title.trim()}
+              >
+                {pending?.kind === "delete" ? "Delete" : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </aside>
+  );
+}
@@ -0,0 +1,99 @@
+import { useEffect, useState } from "react";
+import { Gauge } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type { CaicUiMessage } from "~/lib/tools";
+import { conversationUsage, type UsageSummary } from "~/lib/chat/usage";
+
+const DEBUG_STORAGE_KEY = "caic-chat:debug";
+
+const numberFormatter = new Intl.NumberFormat();
+
+const formatDuration = (ms: number) =>
+  ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+
+/**
+ * Whether usage details are shown, remembered per browser
+ */
+export function useUsagePanel() {
+  const [open, setOpen] = useState(false);
+
+  // localStorage is only available after hydration
+  useEffect(() => {
+    setOpen(localStorage.getItem(DEBUG_STORAGE_KEY) === "true");
+  }, []);
+
+  const toggle = () => {
+    setOpen(!open);
+    localStorage.setItem(DEBUG_STORAGE_KEY, String(!open));
+  };
+
+  return [open, toggle] as const;
+}
+
+/**
+ * Header button that shows or hides usage details
+ */
+export function UsageToggle({
+  open,
+  onToggle,
+}: {
+  open: boolean;
+  onToggle: () => void;
+}) {
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      aria-pressed={open}
+      onClick={onToggle}
+      className={cn(open && "bg-accent")}
+    >
+      <Gauge className="h-[1.2rem] w-[1.2rem]" />
+      <span className="sr-only">Show token usage</span>
+    </Button>
+  );
+}
+
+/**
+ * Tokens, steps and tool timings of one answer
+ */
+export function MessageUsage({ usage }: { usage: UsageSummary }) {
+  return (
+    <div className="space-y-0.5 font-mono text-xs text-muted-foreground">
+      <div>
+        {numberFormatter.format(usage.inputTokens)} in ·{" "}
+        {numberFormatter.format(usage.outputTokens)} out
+        {usage.reasoningTokens > 0 &&
+          ` (${numberFormatter.format(usage.reasoningTokens)} reasoning)`}{" "}
+        · {usage.steps} {usage.steps === 1 ? "step" : "steps"} ·{" "}
+        {formatDuration(usage.durationMs)}
+      </div>
+      {usage.tools.length > 0 && (
+        <div>
+          {usage.tools
+            .map((t) => `${t.toolName} ${formatDuration(t.durationMs)}`)
+            .join(" · ")}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Token totals for the whole conversation
+ */
+export function ConversationUsage({ messages }: { messages: CaicUiMessage[] }) {
+  const total = conversationUsage(messages);
+  if (!total.answers) return null;
+
+  return (
+    <div className="flex-none pb-2 font-mono text-xs text-muted-foreground">
+      Conversation: {numberFormatter.format(total.totalTokens)} tokens (
+      {numberFormatter.format(total.inputTokens)} in,{" "}
+      {numberFormatter.format(total.outputTokens)} out) over {total.answers}{" "}
+      {total.answers === 1 ? "answer" : "answers"}, {total.steps}{" "}
+      {total.steps === 1 ? "step" : "steps"}
+    </div>
+  );
+}
@@ -128,6 +128,14 @@ export type ToolOutputProps = ComponentProps<"div"> & {
   errorText: CaicUIToolPart["errorText"];
 };
 
+// Render markdown `content` outputs as prose, anything else as JSON
+const renderContent = (output: CaicUIToolPart["output"]) => {
+  if (output && typeof output === "object" && "content" in output) {
+    return <MessageResponse>{output.content}</MessageResponse>;
+  }
+  return <CodeBlock language="json" code={JSON.stringify(output, null, 2)} />;
+};
+
 const toolRenderers: Record<
   CaicUIToolPart["type"],
   (output: CaicUIToolPart["output"]) => ReactNode
@@ -135,12 +143,16 @@ const toolRenderers: Record<
   "tool-geocode": (output) => (
     <CodeBlock language="json" code={JSON.stringify(output, null, 2)} />
   ),
-  "tool-getAvalancheInfo": (output) => {
-    if (output && typeof output === "object" && "content" in output) {
-      return <MessageResponse>{output.content}</MessageResponse>;
-    }
-    return <CodeBlock language="json" code={JSON.stringify(output, null, 2)} />;
-  },
+  "tool-getAvalancheInfo": renderContent,
+  "tool-whatChanged": renderContent,
+  "tool-getStatewideOverview": renderContent,
+  "tool-compareLocations": renderContent,
+  "tool-analyzeRoute": renderContent,
+  "tool-checkSlope": renderContent,
+  "tool-listZones": (output) => (
+    <CodeBlock language="json" code={JSON.stringify(output, null, 2)} />
+  ),
+  "tool-getForecastByZone": renderContent,
 };
 
 export const ToolOutput = ({
@@ -1,11 +1,15 @@
 import { createWorkersAI } from "workers-ai-provider";
 import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
 import type { LanguageModel } from "ai";
-import type { OllamaModelName, CFModelName } from "./models";
+import type { OllamaModelName, CFModelName, ModelOption } from "./models";
+import { createFallbackModel, type FallbackOptions } from "./fallback";
+import { getEndpointApiKey, getOpenAICompatibleEndpoints } from "./providers";
 
 type OllamaConfig = {
   provider: "ollama";
   modelName: OllamaModelName;
+  /** @default "http://localhost:11434/v1" */
+  baseURL?: string;
 };
 
 type CloudflareConfig = {
@@ -14,19 +18,38 @@ type CloudflareConfig = {
   env: Env;
 };
 
-export function getModel(config: OllamaConfig): LanguageModel;
-export function getModel(config: CloudflareConfig): LanguageModel;
-export function getModel(
-  config: OllamaConfig | CloudflareConfig,
-): LanguageModel {
+type OpenAICompatibleConfig = {
+  provider: "openai-compatible";
+  /** Provider name reported in telemetry, e.g. "vllm" */
+  name: string;
+  baseURL: string;
+  apiKey?: string;
+  modelName: string;
+};
+
+export type ModelConfig =
+  | OllamaConfig
+  | CloudflareConfig
+  | OpenAICompatibleConfig;
+
+function createModel(config: ModelConfig) {
   if (config.provider === "ollama") {
     const ollama = createOpenAICompatible({
       name: "ollama",
-      baseURL: "http://localhost:11434/v1",
+      baseURL: config.baseURL ?? "http://localhost:11434/v1",
     });
     return ollama(config.modelName);
   }
 
+  if (config.provider === "openai-compatible") {
+    const provider = createOpenAICompatible({
+      name: config.name,
+      baseURL: config.baseURL,
+      apiKey: config.apiKey,
+    });
+    return provider(config.modelName);
+  }
+
   const workersai = createWorkersAI({
     binding: config.env.AI,
     gateway: { id: "caic-gateway" },
@@ -34,3 +57,52 @@ export function getModel(
   // Cast needed as workers-ai-provider has a strict internal type for model names
   return workersai(config.modelName as any);
 }
+
+/**
+ * Create a language model. Given a list of configs, returns a model that
+ * tries each in order and fails over on provider errors before the first
+ * token streams; see {@link createFallbackModel}.
+ */
+export function getModel(
+  config: ModelConfig | ModelConfig[],
+  options?: FallbackOptions,
+): LanguageModel {
+  if (!Array.isArray(config)) {
+    return createModel(config);
+  }
+
+  return createFallbackModel(config.map(createModel), options);
+}
+
+/**
+ * Model config for a model picked from {@link getModelOptions}
+ */
+export function getModelConfig(option: ModelOption, env: Env): ModelConfig {
+  switch (option.provider) {
+    case "ollama":
+      return {
+        provider: "ollama",
+        modelName: option.id,
+        baseURL: env.OLLAMA_BASE_URL || undefined,
+      };
+    case "cloudflare":
+      return { provider: "cloudflare", modelName: option.id, env };
+    case "openai-compatible": {
+      const endpoint = getOpenAICompatibleEndpoints(env).find(
+        (e) => e.name === option.endpoint,
+      );
+      if (!endpoint) {
+        throw new Error(
+          `Unknown OpenAI-compatible endpoint: ${option.endpoint}`,
+        );
+      }
+      return {
+        provider: "openai-compatible",
+        name: endpoint.name,
+        baseURL: endpoint.baseURL,
+        apiKey: getEndpointApiKey(endpoint, env),
+        modelName: option.modelName,
+      };
+    }
+  }
+}
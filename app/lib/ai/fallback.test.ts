@@ -0,0 +1,142 @@
+import type { LanguageModel } from "ai";
+import { describe, expect, it, vi } from "vitest";
+import { createFallbackModel } from "./fallback";
+
+type LanguageModelV2 = Exclude<LanguageModel, string>;
+type StreamResult = Awaited<ReturnType<LanguageModelV2["doStream"]>>;
+type StreamPart =
+  StreamResult["stream"] extends ReadableStream<infer T> ? T : never;
+
+const usage = { inputTokens: 1, outputTokens: 1, totalTokens: 2 };
+
+/** A reply that streams one text delta */
+const answer = (text: string): StreamPart[] => [
+  { type: "stream-start", warnings: [] },
+  { type: "text-start", id: "t1" },
+  { type: "text-delta", id: "t1", delta: text },
+  { type: "text-end", id: "t1" },
+  { type: "finish", finishReason: "stop", usage },
+];
+
+/**
+ * A model whose streams yield the parts `stream` returns; `stream` throws to
+ * fail the call
+ */
+function mockModel(
+  modelId: string,
+  stream: () => Promise<StreamPart[]> | StreamPart[],
+): LanguageModelV2 {
+  return {
+    specificationVersion: "v2",
+    provider: "mock",
+    modelId,
+    supportedUrls: {},
+    doGenerate: async () => ({
+      content: [{ type: "text", text: modelId }],
+      finishReason: "stop",
+      usage,
+      warnings: [],
+    }),
+    doStream: async () => {
+      const parts = await stream();
+      return {
+        stream: new ReadableStream({
+          start(controller) {
+            for (const part of parts) controller.enqueue(part);
+            controller.close();
+          },
+        }),
+      };
+    },
+  };
+}
+
+async function readAll(model: LanguageModelV2): Promise<StreamPart[]> {
+  const { stream } = await model.doStream({ prompt: [] });
+  const reader = stream.getReader();
+  const parts: StreamPart[] = [];
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return parts;
+    parts.push(value);
+  }
+}
+
+const failing = (modelId: string) =>
+  mockModel(modelId, () => {
+    throw new Error(`${modelId} is down`);
+  });
+
+describe("createFallbackModel", () => {
+  it("streams from the first model and names it", async () => {
+    const model = createFallbackModel([
+      mockModel("primary", () => answer("hi")),
+      failing("backup"),
+    ]);
+
+    const parts = await readAll(model);
+
+    expect(parts[0]).toEqual({ type: "response-metadata", modelId: "primary" });
+    expect(parts.slice(1)).toEqual(answer("hi"));
+  });
+
+  it("fails over on errors before the first token", async () => {
+    const onFallback = vi.fn();
+    const model = createFallbackModel(
+      [
+        failing("primary"),
+        mockModel("reports-error", () => [
+          { type: "stream-start", warnings: [] },
+          { type: "error", error: new Error("overloaded") },
+        ]),
+        mockModel("backup", () => answer("hi")),
+      ],
+      { onFallback },
+    );
+
+    const parts = await readAll(model);
+
+    expect(parts[0]).toEqual({ type: "response-metadata", modelId: "backup" });
+    expect(
+      onFallback.mock.calls.map(([m, e]) => [m.modelId, e.message]),
+    ).toEqual([
+      ["primary", "primary is down"],
+      ["reports-error", "overloaded"],
+    ]);
+  });
+
+  it("gives up on a model that stays silent", async () => {
+    const model = createFallbackModel(
+      [
+        mockModel("silent", () => new Promise<never>(() => {})),
+        mockModel("backup", () => answer("hi")),
+      ],
+      { firstChunkTimeoutMs: 10 },
+    );
+
+    expect((await readAll(model))[0]).toMatchObject({ modelId: "backup" });
+  });
+
+  it("passes errors through once a model has started answering", async () => {
+    const model = createFallbackModel([
+      mockModel("primary", () => [
+        ...answer("partial").slice(0, 3),
+        { type: "error", error: "connection reset" },
+      ]),
+      mockModel("backup", () => answer("hi")),
+    ]);
+
+    const parts = await readAll(model);
+
+    expect(parts[0]).toMatchObject({ modelId: "primary" });
+    expect(parts.at(-1)).toEqual({ type: "error", error: "connection reset" });
+  });
+
+  it("throws the last error when every model fails", async () => {
+    const model = createFallbackModel([failing("primary"), failing("backup")]);
+
+    await expect(model.doStream({ prompt: [] })).rejects.toThrow(
+      "backup is down",
+    );
+  });
+});
@@ -0,0 +1,178 @@
+import type { LanguageModel } from "ai";
+
+type LanguageModelV2 = Exclude<LanguageModel, string>;
+type CallOptions = Parameters<LanguageModelV2["doStream"]>[0];
+type StreamResult = Awaited<ReturnType<LanguageModelV2["doStream"]>>;
+type StreamPart =
+  StreamResult["stream"] extends ReadableStream<infer T> ? T : never;
+
+export type FallbackOptions = {
+  /**
+   * Give up on a model that has not produced any output within this many
+   * milliseconds and move on to the next one
+   * @default 20000
+   */
+  firstChunkTimeoutMs?: number;
+  /** Called each time a model fails and the next one is tried */
+  onFallback?: (failed: LanguageModelV2, error: unknown) => void;
+};
+
+/** Stream parts that mean the model has started answering */
+const CONTENT_PARTS = new Set<StreamPart["type"]>([
+  "text-start",
+  "text-delta",
+  "reasoning-start",
+  "reasoning-delta",
+  "tool-input-start",
+  "tool-call",
+  "file",
+  "source",
+  "finish",
+]);
+
+class FirstChunkTimeoutError extends Error {
+  constructor(model: LanguageModelV2, timeoutMs: number) {
+    super(`${model.modelId} produced no output within ${timeoutMs}ms`);
+    this.name = "FirstChunkTimeoutError";
+  }
+}
+
+/**
+ * Read a stream up to its first content part, so failures that providers
+ * report as `error` parts (or by throwing) are caught before anything has
+ * been sent to the client
+ *
+ * @returns The parts read so far and the reader to continue from
+ */
+async function readUntilContent(
+  stream: ReadableStream<StreamPart>,
+  deadline: Promise<never>,
+) {
+  const reader = stream.getReader();
+  const buffered: StreamPart[] = [];
+
+  try {
+    while (true) {
+      const { done, value } = await Promise.race([reader.read(), deadline]);
+      if (done) break;
+      if (value.type === "error") throw value.error;
+
+      buffered.push(value);
+      if (CONTENT_PARTS.has(value.type)) break;
+    }
+  } catch (error) {
+    reader.cancel(error).catch(() => {});
+    throw error;
+  }
+
+  return { buffered, reader };
+}
+
+/**
+ * Wrap an ordered list of models into one that tries each in turn.
+ *
+ * A model is skipped when it throws, reports an error, or stays silent past
+ * `firstChunkTimeoutMs` before producing any output. Once a model has started
+ * streaming, later errors are passed through, since the client has already
+ * seen part of its answer. Stream responses start with a `response-metadata`
+ * part naming the model that answered.
+ *
+ * @param models - Models in order of preference
+ */
+export function createFallbackModel(
+  models: LanguageModelV2[],
+  { firstChunkTimeoutMs = 20_000, onFallback }: FallbackOptions = {},
+): LanguageModelV2 {
+  if (!models.length) {
+    throw new Error("createFallbackModel needs at least one model");
+  }
+  if (models.length === 1) return models[0];
+
+  const [primary] = models;
+
+  async function attempt<T>(
+    options: CallOptions,
+    run: (model: LanguageModelV2) => PromiseLike<T>,
+  ): Promise<T> {
+    let lastError: unknown;
+
+    for (const model of models) {
+      try {
+        return await run(model);
+      } catch (error) {
+        // The caller gave up; don't spend the other providers on it
+        if (options.abortSignal?.aborted) throw error;
+
+        lastError = error;
+        if (model !== models.at(-1)) onFallback?.(model, error);
+      }
+    }
+
+    throw lastError;
+  }
+
+  return {
+    specificationVersion: "v2",
+    provider: primary.provider,
+    modelId: primary.modelId,
+    supportedUrls: primary.supportedUrls,
+
+    doGenerate(options) {
+      return attempt(options, (model) => model.doGenerate(options));
+    },
+
+    doStream(options) {
+      return attempt(options, async (model) => {
+        const timeout = new AbortController();
+        const signal = options.abortSignal
+          ? AbortSignal.any([options.abortSignal, timeout.signal])
+          : timeout.signal;
+
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const deadline = new Promise<never>((_, reject) => {
+          timer = setTimeout(() => {
+            const error = new FirstChunkTimeoutError(
+              model,
+              firstChunkTimeoutMs,
+            );
+            timeout.abort(error);
+            reject(error);
+          }, firstChunkTimeoutMs);
+        });
+
+        try {
+          const result = await Promise.race([
+            model.doStream({ ...options, abortSignal: signal }),
+            deadline,
+          ]);
+          const { buffered, reader } = await readUntilContent(
+            result.stream,
+            deadline,
+          );
+
+          const stream = new ReadableStream<StreamPart>({
+            start(controller) {
+              controller.enqueue({
+                type: "response-metadata",
+                modelId: model.modelId,
+              });
+              for (const part of buffered) controller.enqueue(part);
+            },
+            async pull(controller) {
+              const { done, value } = await reader.read();
+              if (done) controller.close();
+              else controller.enqueue(value);
+            },
+            cancel(reason) {
+              return reader.cancel(reason);
+            },
+          });
+
+          return { ...result, stream };
+        } finally {
+          clearTimeout(timer);
+        }
+      });
+    },
+  };
+}
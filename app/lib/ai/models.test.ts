@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import {
+  CF_MODELS,
+  findModelOption,
+  getDefaultModelId,
+  getModelOptions,
+  OLLAMA_MODELS,
+} from "./models";
+
+const vllm = [
+  {
+    name: "vllm",
+    baseURL: "https://vllm.example.com/v1",
+    models: [{ alias: "qwen3-8b", model: "Qwen/Qwen3-8B", reasoning: true }],
+  },
+];
+const env = { OPENAI_COMPATIBLE_ENDPOINTS: JSON.stringify(vllm) } as Env;
+
+describe("getModelOptions", () => {
+  it("offers every model of the environment's provider", () => {
+    expect(getModelOptions({} as Env, false).map((o) => o.id)).toEqual(
+      Object.values(CF_MODELS),
+    );
+    expect(getModelOptions({} as Env, true).map((o) => o.provider)).toEqual([
+      "ollama",
+      "ollama",
+      "ollama",
+    ]);
+  });
+
+  it("adds the configured endpoint models", () => {
+    expect(getModelOptions(env, false).at(-1)).toEqual({
+      provider: "openai-compatible",
+      id: "qwen3-8b",
+      endpoint: "vllm",
+      modelName: "Qwen/Qwen3-8B",
+      label: "qwen3-8b",
+      capabilities: { toolCalling: true, reasoning: true },
+    });
+  });
+
+  it("offers the default model", () => {
+    for (const dev of [true, false]) {
+      const options = getModelOptions({} as Env, dev);
+      expect(findModelOption(getDefaultModelId(dev), options)).toBeDefined();
+    }
+  });
+});
+
+describe("findModelOption", () => {
+  const options = getModelOptions(env, false);
+
+  it("finds allowed models by id", () => {
+    expect(findModelOption(CF_MODELS.QWEN, options)).toMatchObject({
+      provider: "cloudflare",
+      label: "Qwen3 30B",
+    });
+    expect(findModelOption("qwen3-8b", options)).toMatchObject({
+      endpoint: "vllm",
+    });
+  });
+
+  it("rejects unknown ids and models from the other environment", () => {
+    expect(findModelOption("@cf/openai/gpt-oss-120b", options)).toBeUndefined();
+    expect(findModelOption(OLLAMA_MODELS.QWEN, options)).toBeUndefined();
+    expect(findModelOption(42, options)).toBeUndefined();
+  });
+});
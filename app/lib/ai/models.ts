@@ -1,3 +1,5 @@
+import { getOpenAICompatibleEndpoints } from "./providers";
+
 export const OLLAMA_MODELS = {
   LLAMA: "llama3.2:3b-instruct-fp16-num_ctx-32k",
   GEMMA: "gemma3:4b-it-fp16-num_ctx-32k",
@@ -9,9 +11,114 @@ export const CF_MODELS = {
   LLAMA: "@cf/meta/llama-4-scout-17b-16e-instruct",
 } as const;
 
-export const Models = { ...CF_MODELS, ...OLLAMA_MODELS } as const;
+// Keyed by provider: both maps use QWEN and LLAMA, so spreading them into one
+// object would silently drop the Cloudflare models
+export const Models = { cloudflare: CF_MODELS, ollama: OLLAMA_MODELS } as const;
 
 export type OllamaModelName =
   (typeof OLLAMA_MODELS)[keyof typeof OLLAMA_MODELS];
 export type CFModelName = (typeof CF_MODELS)[keyof typeof CF_MODELS];
 export type ModelName = OllamaModelName | CFModelName;
+export type ModelProvider = keyof typeof Models;
+
+const MODEL_LABELS: Record<ModelName, string> = {
+  [CF_MODELS.QWEN]: "Qwen3 30B",
+  [CF_MODELS.LLAMA]: "Llama 4 Scout",
+  [OLLAMA_MODELS.LLAMA]: "Llama 3.2 3B (local)",
+  [OLLAMA_MODELS.GEMMA]: "Gemma 3 4B (local)",
+  [OLLAMA_MODELS.QWEN]: "Qwen3 4B (local)",
+};
+
+export type ModelCapabilities = {
+  /** Whether the model can call tools */
+  toolCalling: boolean;
+  /** Whether the model streams reasoning before its answer */
+  reasoning: boolean;
+};
+
+const MODEL_CAPABILITIES: Record<ModelName, ModelCapabilities> = {
+  [CF_MODELS.QWEN]: { toolCalling: true, reasoning: true },
+  [CF_MODELS.LLAMA]: { toolCalling: true, reasoning: false },
+  [OLLAMA_MODELS.LLAMA]: { toolCalling: true, reasoning: false },
+  [OLLAMA_MODELS.GEMMA]: { toolCalling: true, reasoning: false },
+  [OLLAMA_MODELS.QWEN]: { toolCalling: true, reasoning: false },
+};
+
+type ModelOptionBase = {
+  label: string;
+  capabilities: ModelCapabilities;
+};
+
+export type ModelOption = ModelOptionBase &
+  (
+    | { provider: "ollama"; id: OllamaModelName }
+    | { provider: "cloudflare"; id: CFModelName }
+    | {
+        provider: "openai-compatible";
+        /** Alias from the endpoint config */
+        id: string;
+        /** Name of the endpoint serving the model */
+        endpoint: string;
+        /** Model name the endpoint expects */
+        modelName: string;
+      }
+  );
+
+/**
+ * Models a user may pick: the built-in {@link Models} for this environment
+ * plus any OpenAI-compatible endpoints configured in `env`. Local development
+ * talks to Ollama; deployed Workers use Workers AI.
+ *
+ * @param env - Worker environment bindings
+ * @param dev - Whether this is a development build (`import.meta.env.DEV`)
+ */
+export function getModelOptions(env: Env, dev: boolean): ModelOption[] {
+  const builtIn: ModelOption[] = dev
+    ? Object.values(Models.ollama).map((id) => ({
+        provider: "ollama",
+        id,
+        label: MODEL_LABELS[id],
+        capabilities: MODEL_CAPABILITIES[id],
+      }))
+    : Object.values(Models.cloudflare).map((id) => ({
+        provider: "cloudflare",
+        id,
+        label: MODEL_LABELS[id],
+        capabilities: MODEL_CAPABILITIES[id],
+      }));
+
+  const configured = getOpenAICompatibleEndpoints(env).flatMap((endpoint) =>
+    endpoint.models.map((model): ModelOption => ({
+      provider: "openai-compatible",
+      id: model.alias,
+      endpoint: endpoint.name,
+      modelName: model.model,
+      label: model.label ?? model.alias,
+      capabilities: {
+        toolCalling: model.toolCalling,
+        reasoning: model.reasoning,
+      },
+    })),
+  );
+
+  return [...builtIn, ...configured];
+}
+
+/**
+ * Model used when the request does not name one
+ */
+export function getDefaultModelId(dev: boolean): ModelName {
+  return dev ? OLLAMA_MODELS.QWEN : CF_MODELS.LLAMA;
+}
+
+/**
+ * Look up an allowed model by id
+ * @returns The model, or undefined if it is unknown or not offered in this
+ * environment
+ */
+export function findModelOption(
+  id: unknown,
+  options: ModelOption[],
+): ModelOption | undefined {
+  return options.find((option) => option.id === id);
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildSystemPrompt,
+  DEFAULT_PROMPT_ID,
+  DISCLAIMER,
+  selectPromptId,
+} from "./prompts";
+
+const both = "caic-v1, caic-v1-concise";
+
+describe("selectPromptId", () => {
+  it("prefers a known requested id", () => {
+    expect(
+      selectPromptId({ requested: "caic-v1-concise", configured: "caic-v1" }),
+    ).toBe("caic-v1-concise");
+  });
+
+  it("falls back to the default for unknown ids", () => {
+    expect(selectPromptId({ requested: "caic-v9" })).toBe(DEFAULT_PROMPT_ID);
+    expect(selectPromptId({ configured: "caic-v9, " })).toBe(DEFAULT_PROMPT_ID);
+  });
+
+  it("keeps a conversation on the same prompt every turn", () => {
+    const chatIds = Array.from({ length: 20 }, (_, i) => `chat-${i}`);
+    const first = chatIds.map((chatId) =>
+      selectPromptId({ configured: both, chatId }),
+    );
+    const again = chatIds.map((chatId) =>
+      selectPromptId({ configured: both, chatId }),
+    );
+
+    expect(again).toEqual(first);
+    expect(new Set(first)).toEqual(new Set(["caic-v1", "caic-v1-concise"]));
+  });
+});
+
+describe("buildSystemPrompt", () => {
+  it("renders the date in Mountain Time and ends with the disclaimer", () => {
+    const prompt = buildSystemPrompt("caic-v1", {
+      now: new Date("2026-01-13T02:00:00Z"),
+    });
+
+    expect(prompt).toMatchObject({ id: "caic-v1", version: 1 });
+    expect(prompt.text).toContain("Monday, January 12, 2026 at 7:00 PM MST");
+    expect(prompt.text.endsWith(`"${DISCLAIMER}"`)).toBe(true);
+  });
+});
@@ -0,0 +1,146 @@
+import { MOUNTAIN_TIME_ZONE } from "../caic/time";
+
+/**
+ * Per-request facts interpolated into the system prompt
+ */
+export type PromptContext = {
+  /** Current time; rendered in Mountain Time */
+  now: Date;
+};
+
+type SystemPromptDefinition = {
+  /** Bumped whenever the wording changes, so logs show which text was used */
+  version: number;
+  description: string;
+  build: (context: PromptContext) => string;
+};
+
+/** Shown verbatim at the end of every answer that discusses conditions */
+export const DISCLAIMER =
+  "This is not an official CAIC product. Always check the current forecast at https://avalanche.state.co.us/ and make your own decisions in the field.";
+
+const mountainDateFormatter = new Intl.DateTimeFormat("en-US", {
+  timeZone: MOUNTAIN_TIME_ZONE,
+  weekday: "long",
+  year: "numeric",
+  month: "long",
+  day: "numeric",
+  hour: "numeric",
+  minute: "2-digit",
+  timeZoneName: "short",
+});
+
+const dateSection = ({ now }: PromptContext) =>
+  `## Date and time
+It is currently ${mountainDateFormatter.format(now)}. CAIC issues forecasts in Mountain Time (${MOUNTAIN_TIME_ZONE}); treat "today", "tomorrow" and "this weekend" relative to this date. Forecast times from tools are in UTC unless marked otherwise; convert them to Mountain Time when you mention them.`;
+
+const toolRules = `## Tool use
+- Never state a danger rating, avalanche problem or forecast detail that did not come from a tool result in this conversation. If the tools return an error or nothing, say so; do not fill the gap from memory.
+- For a named place, call \`geocode\` first, then \`getAvalancheInfo\` with the returned coordinates. Never guess coordinates.
+- For a named forecast zone (e.g. "Front Range"), use \`getForecastByZone\`; call \`listZones\` if you are unsure of the name.
+- To compare places, use \`compareLocations\` once rather than calling \`getAvalancheInfo\` repeatedly.
+- For statewide questions, use \`getStatewideOverview\`. For "what changed", use \`whatChanged\`.
+- For a specific slope or face, use \`checkSlope\`. For an attached GPX or KML file, use \`analyzeRoute\`.
+- If a tool result says the location is approximate or outside coverage, tell the user.`;
+
+const refusalPolicy = `## Go/no-go decisions
+You must not decide for the user whether a slope, route or trip is safe, or whether they should go. If asked "is it safe?", "should I ski X?" or similar, decline to make the call, then give the relevant forecast facts (danger at the elevation and aspect in question, the avalanche problems that apply) and remind them that the decision depends on observations in the field, their group and their training. Suggest formal avalanche education when appropriate.`;
+
+const disclaimerRule = `## Disclaimer
+End every answer that discusses avalanche conditions with this line, verbatim:
+"${DISCLAIMER}"`;
+
+/**
+ * Registered system prompts by id. Add a new id rather than editing an
+ * existing prompt in place when running an experiment.
+ */
+export const SYSTEM_PROMPTS = {
+  "caic-v1": {
+    version: 1,
+    description: "Detailed answers with full forecast context",
+    build: (context) =>
+      [
+        "You are CAIC Chat, an assistant that explains Colorado Avalanche Information Center (CAIC) forecasts to backcountry travelers.",
+        dateSection(context),
+        toolRules,
+        refusalPolicy,
+        disclaimerRule,
+      ].join("\n\n"),
+  },
+  "caic-v1-concise": {
+    version: 1,
+    description: "Same rules, answer-first and at most a few short paragraphs",
+    build: (context) =>
+      [
+        "You are CAIC Chat, an assistant that explains Colorado Avalanche Information Center (CAIC) forecasts to backcountry travelers. Lead with the danger rating and avalanche problems that answer the question, then stop; keep answers to a few short paragraphs or a short list.",
+        dateSection(context),
+        toolRules,
+        refusalPolicy,
+        disclaimerRule,
+      ].join("\n\n"),
+  },
+} satisfies Record<string, SystemPromptDefinition>;
+
+export type PromptId = keyof typeof SYSTEM_PROMPTS;
+
+export const DEFAULT_PROMPT_ID: PromptId = "caic-v1";
+
+export function isPromptId(id: unknown): id is PromptId {
+  return typeof id === "string" && Object.hasOwn(SYSTEM_PROMPTS, id);
+}
+
+/**
+ * Stable 32-bit FNV-1a hash, used to bucket conversations between prompts
+ */
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Choose the system prompt for a request.
+ *
+ * - An explicitly requested, known id wins.
+ * - Otherwise `configured` (e.g. the `SYSTEM_PROMPT_ID` var) is used. A
+ *   comma-separated list splits conversations between prompts, keyed on the
+ *   chat id so a conversation keeps the same prompt on every turn.
+ * - Unknown ids are ignored and fall back to {@link DEFAULT_PROMPT_ID}.
+ */
+export function selectPromptId({
+  requested,
+  configured,
+  chatId,
+}: {
+  requested?: unknown;
+  configured?: string;
+  chatId?: string;
+}): PromptId {
+  if (isPromptId(requested)) return requested;
+
+  const candidates = (configured ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(isPromptId);
+  if (!candidates.length) return DEFAULT_PROMPT_ID;
+
+  return candidates[hash(chatId ?? "") % candidates.length];
+}
+
+/**
+ * Build the system prompt for a request
+ *
+ * @param id - Prompt to build
+ * @param context - Per-request facts such as the current time
+ * @returns The prompt text with its id and version
+ */
+export function buildSystemPrompt(
+  id: PromptId,
+  context: PromptContext = { now: new Date() },
+) {
+  const prompt: SystemPromptDefinition = SYSTEM_PROMPTS[id];
+  return { id, version: prompt.version, text: prompt.build(context) };
+}
@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getEndpointApiKey, getOpenAICompatibleEndpoints } from "./providers";
+
+const endpoint = {
+  name: "llama-cpp",
+  baseURL: "http://localhost:8080/v1",
+  apiKeyBinding: "LLAMA_API_KEY",
+  models: [{ alias: "gemma", model: "gemma-3-4b", label: "Gemma 3" }],
+};
+
+const envWith = (endpoints: unknown) =>
+  ({ OPENAI_COMPATIBLE_ENDPOINTS: endpoints }) as Env;
+
+describe("getOpenAICompatibleEndpoints", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("parses the endpoints and fills in model defaults", () => {
+    expect(
+      getOpenAICompatibleEndpoints(envWith(JSON.stringify([endpoint]))),
+    ).toEqual([
+      {
+        ...endpoint,
+        models: [
+          { ...endpoint.models[0], toolCalling: true, reasoning: false },
+        ],
+      },
+    ]);
+  });
+
+  it("has no endpoints when none are configured", () => {
+    expect(getOpenAICompatibleEndpoints({} as Env)).toEqual([]);
+  });
+
+  it("logs and ignores an invalid config", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(getOpenAICompatibleEndpoints(envWith("[{"))).toEqual([]);
+    expect(
+      getOpenAICompatibleEndpoints(
+        envWith(JSON.stringify([{ ...endpoint, baseURL: "localhost" }])),
+      ),
+    ).toEqual([]);
+    expect(
+      error.mock.calls.map(([line]) => JSON.parse(line as string).event),
+    ).toEqual([
+      "invalid_openai_compatible_endpoints",
+      "invalid_openai_compatible_endpoints",
+    ]);
+  });
+});
+
+describe("getEndpointApiKey", () => {
+  const [parsed] = getOpenAICompatibleEndpoints(
+    envWith(JSON.stringify([endpoint])),
+  );
+
+  it("reads the key from the named binding", () => {
+    expect(
+      getEndpointApiKey(parsed, { LLAMA_API_KEY: "secret" } as unknown as Env),
+    ).toBe("secret");
+  });
+
+  it("has no key without a binding or value", () => {
+    expect(getEndpointApiKey(parsed, {} as Env)).toBeUndefined();
+    expect(
+      getEndpointApiKey({ ...parsed, apiKeyBinding: undefined }, {} as Env),
+    ).toBeUndefined();
+  });
+});
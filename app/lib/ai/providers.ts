@@ -0,0 +1,98 @@
+import { z } from "zod";
+
+const EndpointModelSchema = z.object({
+  /** Id users and the chat request refer to the model by */
+  alias: z.string().min(1),
+  /** Model name the server expects, e.g. "Qwen/Qwen3-8B" */
+  model: z.string().min(1),
+  /** Name shown in the model picker (default: the alias) */
+  label: z.string().optional(),
+  /** Whether the model can call tools; the assistant is much weaker without */
+  toolCalling: z.boolean().default(true),
+  /** Whether the model streams reasoning before its answer */
+  reasoning: z.boolean().default(false),
+});
+
+const EndpointSchema = z.object({
+  /** Provider name used in logs, e.g. "vllm" */
+  name: z.string().min(1),
+  /** OpenAI-compatible API root, e.g. "http://localhost:8000/v1" */
+  baseURL: z.url(),
+  /**
+   * Name of the env binding holding the API key. The key itself is a secret,
+   * so it is never written into this config.
+   */
+  apiKeyBinding: z.string().optional(),
+  models: z.array(EndpointModelSchema).min(1),
+});
+
+const EndpointsSchema = z.array(EndpointSchema);
+
+export type OpenAICompatibleEndpoint = z.infer<typeof EndpointSchema>;
+
+/**
+ * Read the self-hosted OpenAI-compatible endpoints (llama.cpp, vLLM,
+ * LM Studio, ...) configured in the `OPENAI_COMPATIBLE_ENDPOINTS` var, a JSON
+ * array such as:
+ *
+ * ```json
+ * [{
+ *   "name": "vllm",
+ *   "baseURL": "https://vllm.example.com/v1",
+ *   "apiKeyBinding": "VLLM_API_KEY",
+ *   "models": [{ "alias": "qwen3-8b", "model": "Qwen/Qwen3-8B", "reasoning": true }]
+ * }]
+ * ```
+ *
+ * An invalid config is logged and ignored, so a typo disables the extra
+ * endpoints rather than the whole chat.
+ *
+ * @param env - Worker environment bindings
+ */
+export function getOpenAICompatibleEndpoints(
+  env: Env,
+): OpenAICompatibleEndpoint[] {
+  const raw = env.OPENAI_COMPATIBLE_ENDPOINTS;
+  if (!raw) return [];
+
+  let json: unknown;
+  try {
+    json = typeof raw === "string" ? JSON.parse(raw) : raw;
+  } catch (error) {
+    console.error(
+      JSON.stringify({
+        event: "invalid_openai_compatible_endpoints",
+        error: error instanceof Error ? error.message : String(error),
+      }),
+    );
+    return [];
+  }
+
+  const parsed = EndpointsSchema.safeParse(json);
+  if (!parsed.success) {
+    console.error(
+      JSON.stringify({
+        event: "invalid_openai_compatible_endpoints",
+        issues: z.treeifyError(parsed.error),
+      }),
+    );
+    return [];
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Resolve an endpoint's API key from the binding its config names
+ */
+export function getEndpointApiKey(
+  endpoint: OpenAICompatibleEndpoint,
+  env: Env,
+): string | undefined {
+  if (!endpoint.apiKeyBinding) return undefined;
+
+  const value = (env as unknown as Record<string, unknown>)[
+    endpoint.apiKeyBinding
+  ];
+  return typeof value === "string" ? value : undefined;
+}
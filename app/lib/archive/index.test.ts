@@ -0,0 +1,136 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { type ApiResponse, createCAICClient } from "../caic";
+import { createFixtureFetch } from "../caic/fixtures";
+import { createTestBindings, type TestBindings } from "../testing/miniflare";
+import { createD1Archive, type ForecastArchive, snapshotForecasts } from ".";
+
+const client = createCAICClient({ fetch: createFixtureFetch() });
+const capturedAt = new Date("2026-01-13T00:00:00Z");
+
+let bindings: TestBindings;
+let archive: ForecastArchive;
+let products: ApiResponse;
+
+beforeAll(async () => {
+  bindings = await createTestBindings("/migrations");
+  products = await client.getProducts();
+});
+
+afterAll(async () => {
+  await bindings.dispose();
+});
+
+beforeEach(async () => {
+  await bindings.db.batch([
+    bindings.db.prepare("DELETE FROM products"),
+    bindings.db.prepare("DELETE FROM area_snapshots"),
+  ]);
+  archive = createD1Archive(bindings.db, bindings.bucket);
+});
+
+const ids = (found: ApiResponse) => found.map((p) => p.id.slice(-3));
+
+describe("saveProducts", () => {
+  it("archives each product id once", async () => {
+    expect(await archive.saveProducts(products, capturedAt)).toBe(7);
+    expect(await archive.saveProducts(products, capturedAt)).toBe(0);
+  });
+});
+
+describe("queryProducts", () => {
+  beforeEach(async () => {
+    await archive.saveProducts(products, capturedAt);
+  });
+
+  it("returns the newest issuance first", async () => {
+    const found = await archive.queryProducts({
+      productType: "avalancheforecast",
+    });
+
+    expect(found.at(-1)?.issueDateTime).toBe("2026-01-11T23:30:00Z");
+    expect(found[0]).toEqual(products.find((p) => p.id === found[0].id));
+  });
+
+  it("matches a zone by area id or by name in any case", async () => {
+    const byId = await archive.queryProducts({
+      zone: "6f1ac1f2-0a3e-4c1b-9d5e-1b2f3c4d5e01",
+    });
+    const byName = await archive.queryProducts({ zone: "front range" });
+
+    expect(ids(byId)).toEqual(["001", "000"]);
+    expect(ids(byName)).toEqual(["001", "000"]);
+  });
+
+  it("filters by the window a product was in effect", async () => {
+    const found = await archive.queryProducts({
+      zone: "Front Range",
+      from: new Date("2026-01-12T00:00:00Z"),
+      to: new Date("2026-01-12T12:00:00Z"),
+    });
+
+    expect(ids(found)).toEqual(["000"]);
+  });
+
+  it("includes products issued exactly at the end of the range", async () => {
+    const found = await archive.queryProducts({
+      zone: "Front Range",
+      to: new Date("2026-01-11T23:30:00Z"),
+    });
+
+    expect(ids(found)).toEqual(["000"]);
+  });
+
+  it("compares times sent with an offset in UTC", async () => {
+    // 23:30 the previous evening in Mountain Time is 06:30 UTC
+    const offset = {
+      ...products[0],
+      id: "offset",
+      issueDateTime: "2026-01-12T23:30:00-07:00",
+      expiryDateTime: "2026-01-13T23:30:00-07:00",
+    };
+    await archive.saveProducts([offset], capturedAt);
+
+    const found = await archive.queryProducts({
+      productType: "avalancheforecast",
+      from: new Date("2026-01-14T06:00:00Z"),
+    });
+
+    expect(found.map((p) => p.id)).toEqual(["offset"]);
+    expect(found[0].issueDateTime).toBe("2026-01-12T23:30:00-07:00");
+  });
+
+  it("limits the number of results", async () => {
+    expect(await archive.queryProducts({ limit: 2 })).toHaveLength(2);
+  });
+});
+
+describe("saveAreas", () => {
+  it("stores each distinct snapshot once in R2", async () => {
+    const areas = await client.getAreas("avalancheforecast");
+
+    expect(
+      await archive.saveAreas("avalancheforecast", areas, capturedAt),
+    ).toBe(true);
+    expect(
+      await archive.saveAreas("avalancheforecast", areas, capturedAt),
+    ).toBe(false);
+
+    const { objects } = await bindings.bucket.list({ prefix: "areas/" });
+    expect(objects).toHaveLength(1);
+    const stored = await bindings.bucket.get(objects[0].key);
+    expect(await stored?.json()).toEqual(areas);
+  });
+});
+
+describe("snapshotForecasts", () => {
+  it("archives products and every zone type, then nothing new", async () => {
+    expect(await snapshotForecasts(client, archive, capturedAt)).toEqual({
+      productsArchived: 7,
+      areaSnapshotsStored: 3,
+    });
+    expect(await snapshotForecasts(client, archive, capturedAt)).toEqual({
+      productsArchived: 0,
+      areaSnapshotsStored: 0,
+    });
+  });
+});
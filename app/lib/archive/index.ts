@@ -0,0 +1,229 @@
+import type {
+  ApiResponse,
+  CAICClient,
+  FeatureCollection,
+  ProductType,
+} from "../caic";
+
+type Product = ApiResponse[number];
+
+/**
+ * Filters for {@link ForecastArchive.queryProducts}. All fields are optional
+ * and combined with AND.
+ */
+interface ArchiveQuery {
+  /** Zone to match, by `areaId` or case-insensitive `publicName` */
+  zone?: string;
+  /** Only products of this type */
+  productType?: ProductType;
+  /** Only products still in effect at or after this instant */
+  from?: Date;
+  /** Only products issued at or before this instant */
+  to?: Date;
+  /** Maximum number of products to return (default: 100) */
+  limit?: number;
+}
+
+/**
+ * Durable store of CAIC products and area GeoJSON snapshots
+ */
+interface ForecastArchive {
+  /**
+   * Store products, skipping ids that are already archived
+   * @returns How many products were newly archived
+   */
+  saveProducts(products: ApiResponse, capturedAt: Date): Promise<number>;
+  /**
+   * Store an area GeoJSON snapshot, skipping identical snapshots
+   * @returns Whether a new snapshot was stored
+   */
+  saveAreas(
+    productType: ProductType,
+    areas: FeatureCollection,
+    capturedAt: Date,
+  ): Promise<boolean>;
+  /**
+   * Query archived products, newest issuance first
+   */
+  queryProducts(query: ArchiveQuery): Promise<ApiResponse>;
+}
+
+const DEFAULT_QUERY_LIMIT = 100;
+const MAX_QUERY_LIMIT = 500;
+
+/** D1 caps bound parameters per statement, so inserts are batched */
+const INSERT_BATCH_SIZE = 50;
+
+/**
+ * Upstream timestamp as a UTC ISO string with milliseconds, the form
+ * `toISOString()` produces, so archived times compare correctly as text
+ * whatever offset or precision CAIC sent. Unparseable values are kept as is.
+ */
+function normalizeInstant(value: string): string {
+  const instant = Date.parse(value);
+  return Number.isNaN(instant) ? value : new Date(instant).toISOString();
+}
+
+/**
+ * SHA-256 hex digest of a string
+ */
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text),
+  );
+  return [...new Uint8Array(digest)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Archive backed by D1 for products and R2 for area GeoJSON.
+ * Under `wrangler dev` / `vite dev` both bindings are simulated locally with
+ * SQLite and the filesystem, so the same implementation runs everywhere.
+ *
+ * @param db - D1 database with the `migrations/` schema applied
+ * @param bucket - R2 bucket for area GeoJSON snapshots
+ */
+function createD1Archive(db: D1Database, bucket: R2Bucket): ForecastArchive {
+  return {
+    async saveProducts(products, capturedAt) {
+      const statement = db.prepare(
+        `INSERT OR IGNORE INTO products
+           (id, type, area_id, public_name, issue_date_time, expiry_date_time, payload, captured_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      );
+
+      let inserted = 0;
+      for (let i = 0; i < products.length; i += INSERT_BATCH_SIZE) {
+        const batch = products
+          .slice(i, i + INSERT_BATCH_SIZE)
+          .map((p) =>
+            statement.bind(
+              p.id,
+              p.type,
+              p.areaId,
+              p.publicName,
+              normalizeInstant(p.issueDateTime),
+              normalizeInstant(p.expiryDateTime),
+              JSON.stringify(p),
+              capturedAt.toISOString(),
+            ),
+          );
+        const results = await db.batch(batch);
+        inserted += results.reduce((sum, r) => sum + (r.meta.changes ?? 0), 0);
+      }
+
+      return inserted;
+    },
+
+    async saveAreas(productType, areas, capturedAt) {
+      const body = JSON.stringify(areas);
+      const hash = await sha256(body);
+      const key = `areas/${productType}/${hash}.json`;
+
+      const existing = await db
+        .prepare(
+          "SELECT 1 FROM area_snapshots WHERE product_type = ? AND hash = ?",
+        )
+        .bind(productType, hash)
+        .first();
+      if (existing) return false;
+
+      await bucket.put(key, body, {
+        httpMetadata: { contentType: "application/geo+json" },
+      });
+      await db
+        .prepare(
+          "INSERT OR IGNORE INTO area_snapshots (product_type, hash, r2_key, captured_at) VALUES (?, ?, ?, ?)",
+        )
+        .bind(productType, hash, key, capturedAt.toISOString())
+        .run();
+
+      return true;
+    },
+
+    async queryProducts(query) {
+      const clauses: string[] = [];
+      const params: (string | number)[] = [];
+
+      if (query.zone) {
+        clauses.push("(area_id = ? OR public_name = ? COLLATE NOCASE)");
+        params.push(query.zone, query.zone);
+      }
+      if (query.productType) {
+        clauses.push("type = ?");
+        params.push(query.productType);
+      }
+      // Times are stored normalized to UTC ISO strings, which sort lexically
+      // in time order
+      if (query.from) {
+        clauses.push("expiry_date_time > ?");
+        params.push(query.from.toISOString());
+      }
+      if (query.to) {
+        clauses.push("issue_date_time <= ?");
+        params.push(query.to.toISOString());
+      }
+
+      const limit = Math.min(
+        query.limit ?? DEFAULT_QUERY_LIMIT,
+        MAX_QUERY_LIMIT,
+      );
+      const where = clauses.length ? `WHERE ${clauses.join(" AND ")}` : "";
+      const { results } = await db
+        .prepare(
+          `SELECT payload FROM products ${where} ORDER BY issue_date_time DESC LIMIT ?`,
+        )
+        .bind(...params, limit)
+        .all<{ payload: string }>();
+
+      return results.map((row) => JSON.parse(row.payload) as Product);
+    },
+  };
+}
+
+/**
+ * Create the archive for the current Worker environment
+ *
+ * @param env - Worker environment bindings
+ */
+function createArchiveForEnv(env: Env): ForecastArchive {
+  return createD1Archive(env.ARCHIVE_DB, env.ARCHIVE_BUCKET);
+}
+
+const ARCHIVED_PRODUCT_TYPES: ProductType[] = [
+  "avalancheforecast",
+  "regionaldiscussion",
+  "specialproduct",
+];
+
+/**
+ * Snapshot everything CAIC currently publishes into the archive.
+ * Run on a schedule, since products drop off `/products/all` over time.
+ *
+ * @param client - CAIC client to fetch from
+ * @param archive - Archive to write to
+ * @param capturedAt - Snapshot time (default: now)
+ */
+async function snapshotForecasts(
+  client: CAICClient,
+  archive: ForecastArchive,
+  capturedAt = new Date(),
+) {
+  const products = await client.getProducts(true);
+  const productsArchived = await archive.saveProducts(products, capturedAt);
+
+  let areaSnapshotsStored = 0;
+  for (const productType of ARCHIVED_PRODUCT_TYPES) {
+    const areas = await client.getAreas(productType, true);
+    if (await archive.saveAreas(productType, areas, capturedAt)) {
+      areaSnapshotsStored++;
+    }
+  }
+
+  return { productsArchived, areaSnapshotsStored };
+}
+
+export { createArchiveForEnv, createD1Archive, snapshotForecasts };
+export type { ArchiveQuery, ForecastArchive };
@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createMemoryCache, productsTtlSeconds } from "./cache";
+
+const now = Date.parse("2026-01-12T12:00:00Z");
+const expiring = (iso: string) => ({ expiryDateTime: iso });
+
+describe("productsTtlSeconds", () => {
+  it("lasts until the earliest expiry still in the future", () => {
+    const products = [
+      expiring("2026-01-12T23:30:00Z"),
+      expiring("2026-01-12T13:00:00Z"),
+      expiring("2026-01-11T23:30:00Z"),
+    ];
+
+    expect(productsTtlSeconds(products, now)).toBe(60 * 60);
+  });
+
+  it("uses the default when nothing is left to expire", () => {
+    expect(productsTtlSeconds([], now)).toBe(5 * 60);
+    expect(
+      productsTtlSeconds(
+        [expiring("2026-01-11T23:30:00Z"), expiring("not a date")],
+        now,
+      ),
+    ).toBe(5 * 60);
+  });
+
+  it("caps far-off expiries and never returns zero", () => {
+    expect(productsTtlSeconds([expiring("2026-02-01T00:00:00Z")], now)).toBe(
+      6 * 60 * 60,
+    );
+    expect(productsTtlSeconds([expiring("2026-01-12T12:00:00.5Z")], now)).toBe(
+      1,
+    );
+  });
+});
+
+describe("createMemoryCache", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("returns values until their TTL passes", async () => {
+    vi.useFakeTimers({ now });
+    const cache = createMemoryCache();
+    await cache.put("products", [1, 2], 60);
+
+    vi.advanceTimersByTime(59_999);
+    expect(await cache.get("products")).toEqual([1, 2]);
+
+    vi.advanceTimersByTime(1);
+    expect(await cache.get("products")).toBeUndefined();
+  });
+
+  it("reads time from an injected clock", async () => {
+    let time = now;
+    const cache = createMemoryCache(() => time);
+    await cache.put("areas", "zones", 1);
+
+    expect(await cache.get("areas")).toBe("zones");
+    time += 1_000;
+    expect(await cache.get("areas")).toBeUndefined();
+  });
+
+  it("misses on unknown keys", async () => {
+    expect(await createMemoryCache().get("areas")).toBeUndefined();
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Pluggable response cache for the CAIC client.
+ *
+ * Implementations only need to store JSON-serializable values with a TTL.
+ * Production uses the Workers Cache API; local development uses an in-memory
+ * map that lives for the lifetime of the isolate.
+ */
+interface CAICCache {
+  /** Return the cached value for `key`, or undefined on a miss */
+  get<T>(key: string): Promise<T | undefined>;
+  /** Store `value` under `key` for `ttlSeconds` */
+  put<T>(key: string, value: T, ttlSeconds: number): Promise<void>;
+}
+
+/** Area GeoJSON rarely changes; keep it for a day */
+const AREAS_TTL_SECONDS = 24 * 60 * 60;
+
+/** TTL used for products when the payload has no unexpired product */
+const DEFAULT_PRODUCTS_TTL_SECONDS = 5 * 60;
+
+/** Upper bound for product TTLs, in case an expiry is far in the future */
+const MAX_PRODUCTS_TTL_SECONDS = 6 * 60 * 60;
+
+/**
+ * Compute how long a products payload may be cached: until the earliest
+ * `expiryDateTime` that is still in the future, so a stale forecast is never
+ * served after its replacement is issued.
+ *
+ * @param products - Products payload from `/products/all`
+ * @param now - Current time in milliseconds since the epoch
+ */
+function productsTtlSeconds(
+  products: { expiryDateTime: string }[],
+  now: number,
+): number {
+  let earliest = Infinity;
+
+  for (const product of products) {
+    const expiry = Date.parse(product.expiryDateTime);
+    if (Number.isNaN(expiry) || expiry <= now) continue;
+    earliest = Math.min(earliest, expiry);
+  }
+
+  if (earliest === Infinity) {
+    return DEFAULT_PRODUCTS_TTL_SECONDS;
+  }
+
+  const seconds = Math.floor((earliest - now) / 1000);
+  return Math.max(1, Math.min(seconds, MAX_PRODUCTS_TTL_SECONDS));
+}
+
+/**
+ * In-memory cache backed by a Map. Entries are evicted lazily on read.
+ *
+ * @param clock - Returns the current time in ms since the epoch (default: Date.now)
+ */
+function createMemoryCache(clock: () => number = Date.now): CAICCache {
+  const entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  return {
+    async get<T>(key: string) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+
+      if (entry.expiresAt <= clock()) {
+        entries.delete(key);
+        return undefined;
+      }
+
+      return entry.value as T;
+    },
+    async put<T>(key: string, value: T, ttlSeconds: number) {
+      entries.set(key, { value, expiresAt: clock() + ttlSeconds * 1000 });
+    },
+  };
+}
+
+/**
+ * Cache backed by the Workers Cache API (e.g. `await caches.open("caic-api")`).
+ * Keys are mapped onto synthetic URLs since the Cache API is keyed by request.
+ *
+ * @param cache - Cache instance to store responses in
+ */
+function createCloudflareCache(cache: Cache): CAICCache {
+  const toUrl = (key: string) =>
+    `https://caic-cache.internal/${encodeURIComponent(key)}`;
+
+  return {
+    async get<T>(key: string) {
+      const response = await cache.match(toUrl(key));
+      if (!response) return undefined;
+      return (await response.json()) as T;
+    },
+    async put<T>(key: string, value: T, ttlSeconds: number) {
+      const response = new Response(JSON.stringify(value), {
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": `max-age=${ttlSeconds}`,
+        },
+      });
+      await cache.put(toUrl(key), response);
+    },
+  };
+}
+
+export {
+  AREAS_TTL_SECONDS,
+  createCloudflareCache,
+  createMemoryCache,
+  productsTtlSeconds,
+};
+export type { CAICCache };
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import { diffForecasts, formatForecastDiff } from "./diff";
+import products from "./fixtures/products.json";
+import { type AvalancheForecast, parseProducts } from "./schema";
+
+const forecasts = parseProducts(products).data.filter(
+  (p): p is AvalancheForecast => p.type === "avalancheforecast",
+);
+const byId = (suffix: string) =>
+  forecasts.find((p) => p.id.endsWith(suffix)) as AvalancheForecast;
+
+// Consecutive Front Range issuances
+const previous = byId("000000000000");
+const current = byId("000000000001");
+
+describe("diffForecasts", () => {
+  it("aligns days by date across issuances", () => {
+    const changes = diffForecasts(previous, current);
+
+    expect(changes.hasChanges).toBe(true);
+    expect(changes.dangerRatings).toEqual([
+      {
+        date: "2026-01-12T00:00:00Z",
+        band: "alp",
+        from: "moderate",
+        to: "considerable",
+        direction: "increased",
+      },
+      {
+        date: "2026-01-12T00:00:00Z",
+        band: "tln",
+        from: "moderate",
+        to: "considerable",
+        direction: "increased",
+      },
+      {
+        date: "2026-01-12T00:00:00Z",
+        band: "btl",
+        from: "low",
+        to: "moderate",
+        direction: "increased",
+      },
+    ]);
+  });
+
+  it("reports added and modified problems", () => {
+    const { problems } = diffForecasts(previous, current);
+
+    expect(problems.map(({ type, change }) => ({ type, change }))).toEqual([
+      { type: "windSlab", change: "added" },
+      { type: "persistentSlab", change: "modified" },
+    ]);
+    expect(problems[1]).toMatchObject({
+      likelihood: { from: "unlikely", to: "possible" },
+      expectedSize: {
+        from: { min: "1", max: "2" },
+        to: { min: "1.5", max: "2.5" },
+      },
+    });
+    expect(problems[1].aspectElevations).toBeUndefined();
+  });
+
+  it("reports removed problems and lower danger", () => {
+    const changes = diffForecasts(current, previous);
+
+    expect(changes.problems).toContainEqual({
+      date: "2026-01-12T00:00:00Z",
+      type: "windSlab",
+      change: "removed",
+    });
+    expect(
+      changes.dangerRatings.every((c) => c.direction === "decreased"),
+    ).toBe(true);
+  });
+
+  it("compares narratives as plain text", () => {
+    const { summaries } = diffForecasts(previous, current);
+
+    expect(summaries).toEqual([
+      {
+        section: "avalancheSummary",
+        date: "2026-01-12",
+        from: "Avalanches are possible on isolated steep, shady slopes.",
+        to: "Wind-drifted snow will be easy to trigger on leeward slopes near and above treeline.",
+      },
+    ]);
+  });
+
+  it("compares no days when no dates overlap", () => {
+    const shifted = structuredClone(current);
+    shifted.dangerRatings.days.forEach((day, index) => {
+      day.date = `2026-02-0${index + 1}T00:00:00Z`;
+    });
+
+    const changes = diffForecasts(previous, shifted);
+
+    expect(changes).toMatchObject({
+      dangerRatings: [],
+      problems: [],
+      overlappingDays: false,
+    });
+    expect(formatForecastDiff(changes)).toContain("No overlapping days");
+  });
+
+  it("finds no changes between identical issuances", () => {
+    const changes = diffForecasts(current, structuredClone(current));
+
+    expect(changes).toMatchObject({
+      dangerRatings: [],
+      problems: [],
+      summaries: [],
+      overlappingDays: true,
+      hasChanges: false,
+    });
+  });
+});
+
+describe("formatForecastDiff", () => {
+  it("renders each kind of change", () => {
+    const markdown = formatForecastDiff(diffForecasts(previous, current));
+
+    expect(markdown).toContain("# What Changed: Front Range");
+    expect(markdown).toContain(
+      "- 2026-01-12T00:00:00Z Alpine: Moderate → Considerable (increased)",
+    );
+    expect(markdown).toContain(
+      "- Persistent Slab: likelihood unlikely → possible; size D1–D2 → D1.5–D2.5",
+    );
+    expect(markdown).toContain("## Avalanche Summary (rewritten)");
+  });
+
+  it("says when nothing changed", () => {
+    const markdown = formatForecastDiff(
+      diffForecasts(current, structuredClone(current)),
+    );
+
+    expect(markdown).toContain(
+      "No changes to danger ratings, problems or summaries.",
+    );
+  });
+});
@@ -0,0 +1,340 @@
+import {
+  dangerLabels,
+  dangerRank,
+  type ElevationBand,
+  elevationLabels,
+  formatAspectElevations,
+  problemTypeLabels,
+} from "./labels";
+import type { AvalancheForecast, AvalancheProblem } from "./schema";
+
+const elevationBands: ElevationBand[] = ["alp", "tln", "btl"];
+
+/**
+ * A danger rating that differs between issuances for one day and band
+ */
+interface DangerRatingChange {
+  /** Forecast day the rating applies to */
+  date: string;
+  band: ElevationBand;
+  from: string;
+  to: string;
+  /** Whether danger went up or down */
+  direction: "increased" | "decreased" | "changed";
+}
+
+/**
+ * An avalanche problem added, removed or modified on one day
+ */
+interface AvalancheProblemChange {
+  /** Forecast day the problem applies to */
+  date: string;
+  /** Problem type key, e.g. `windSlab` */
+  type: string;
+  change: "added" | "removed" | "modified";
+  /** The problem in the new issuance (absent when removed) */
+  problem?: AvalancheProblem;
+  likelihood?: { from: string; to: string };
+  expectedSize?: {
+    from: AvalancheProblem["expectedSize"];
+    to: AvalancheProblem["expectedSize"];
+  };
+  aspectElevations?: { added: string[]; removed: string[] };
+}
+
+/**
+ * A narrative section whose text was rewritten
+ */
+interface SummaryChange {
+  section: "avalancheSummary" | "snowpackSummary" | "weatherSummary";
+  date: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * Structured difference between two issuances of a zone forecast
+ */
+interface ForecastChangeSet {
+  publicName: string;
+  previous: { id: string; issueDateTime: string };
+  next: { id: string; issueDateTime: string };
+  dangerRatings: DangerRatingChange[];
+  problems: AvalancheProblemChange[];
+  summaries: SummaryChange[];
+  /**
+   * False when the issuances forecast no days in common, so danger ratings
+   * and problems could not be compared
+   */
+  overlappingDays: boolean;
+  /** False when the two issuances are equivalent */
+  hasChanges: boolean;
+}
+
+const summarySectionLabels: Record<SummaryChange["section"], string> = {
+  avalancheSummary: "Avalanche Summary",
+  snowpackSummary: "Snowpack Summary",
+  weatherSummary: "Weather Summary",
+};
+
+/**
+ * Pair up forecast days by date. Consecutive issuances shift by a day, so
+ * yesterday's day 2 lines up with today's day 1. Days whose date is missing
+ * from the other issuance are left out, so no dates in common means no pairs.
+ */
+function alignDays(
+  prev: AvalancheForecast,
+  next: AvalancheForecast,
+): { date: string; prevIndex: number; nextIndex: number }[] {
+  const prevDays = prev.dangerRatings.days;
+  const nextDays = next.dangerRatings.days;
+
+  return nextDays.flatMap((day, nextIndex) => {
+    const prevIndex = prevDays.findIndex((d) => d.date === day.date);
+    return prevIndex === -1 ? [] : [{ date: day.date, prevIndex, nextIndex }];
+  });
+}
+
+/**
+ * Normalize narrative HTML for comparison: drop tags and collapse whitespace
+ */
+function normalizeText(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function diffProblems(
+  date: string,
+  prev: AvalancheProblem[],
+  next: AvalancheProblem[],
+): AvalancheProblemChange[] {
+  const changes: AvalancheProblemChange[] = [];
+
+  for (const problem of next) {
+    const before = prev.find((p) => p.type === problem.type);
+    if (!before) {
+      changes.push({ date, type: problem.type, change: "added", problem });
+      continue;
+    }
+
+    const change: AvalancheProblemChange = {
+      date,
+      type: problem.type,
+      change: "modified",
+      problem,
+    };
+
+    if (before.likelihood !== problem.likelihood) {
+      change.likelihood = { from: before.likelihood, to: problem.likelihood };
+    }
+    if (
+      before.expectedSize.min !== problem.expectedSize.min ||
+      before.expectedSize.max !== problem.expectedSize.max
+    ) {
+      change.expectedSize = {
+        from: before.expectedSize,
+        to: problem.expectedSize,
+      };
+    }
+
+    const added = problem.aspectElevations.filter(
+      (ae) => !before.aspectElevations.includes(ae),
+    );
+    const removed = before.aspectElevations.filter(
+      (ae) => !problem.aspectElevations.includes(ae),
+    );
+    if (added.length || removed.length) {
+      change.aspectElevations = { added, removed };
+    }
+
+    if (change.likelihood || change.expectedSize || change.aspectElevations) {
+      changes.push(change);
+    }
+  }
+
+  for (const problem of prev) {
+    if (!next.some((p) => p.type === problem.type)) {
+      changes.push({ date, type: problem.type, change: "removed" });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Compare two issuances of the same zone forecast
+ *
+ * @param prev - The earlier issuance
+ * @param next - The later issuance
+ * @returns Structured change set covering danger ratings, problems and summaries
+ */
+export function diffForecasts(
+  prev: AvalancheForecast,
+  next: AvalancheForecast,
+): ForecastChangeSet {
+  const days = alignDays(prev, next);
+  const dangerRatings: DangerRatingChange[] = [];
+  const problems: AvalancheProblemChange[] = [];
+
+  for (const { date, prevIndex, nextIndex } of days) {
+    const before = prev.dangerRatings.days[prevIndex];
+    const after = next.dangerRatings.days[nextIndex];
+
+    for (const band of elevationBands) {
+      if (before[band] === after[band]) continue;
+
+      const delta = dangerRank(after[band]) - dangerRank(before[band]);
+      dangerRatings.push({
+        date,
+        band,
+        from: before[band],
+        to: after[band],
+        direction:
+          delta > 0 ? "increased" : delta < 0 ? "decreased" : "changed",
+      });
+    }
+
+    problems.push(
+      ...diffProblems(
+        date,
+        prev.avalancheProblems.days[prevIndex] ?? [],
+        next.avalancheProblems.days[nextIndex] ?? [],
+      ),
+    );
+  }
+
+  const summaries: SummaryChange[] = [];
+  for (const section of Object.keys(
+    summarySectionLabels,
+  ) as SummaryChange["section"][]) {
+    // Narratives cover the issuance as a whole, so compare the lead day
+    const before = prev[section].days[0];
+    const after = next[section].days[0];
+    if (!after) continue;
+
+    const from = before ? normalizeText(before.content) : "";
+    const to = normalizeText(after.content);
+    if (from !== to) {
+      summaries.push({ section, date: after.date, from, to });
+    }
+  }
+
+  return {
+    publicName: next.publicName,
+    previous: { id: prev.id, issueDateTime: prev.issueDateTime },
+    next: { id: next.id, issueDateTime: next.issueDateTime },
+    dangerRatings,
+    problems,
+    summaries,
+    overlappingDays: days.length > 0,
+    hasChanges:
+      dangerRatings.length > 0 || problems.length > 0 || summaries.length > 0,
+  };
+}
+
+const formatDanger = (rating: string) => dangerLabels[rating] ?? rating;
+const formatSize = ({ min, max }: AvalancheProblem["expectedSize"]) =>
+  `D${min}–D${max}`;
+
+function formatProblemChange(change: AvalancheProblemChange): string {
+  const label = problemTypeLabels[change.type] ?? change.type;
+
+  if (change.change === "removed") {
+    return `- ${label}: removed`;
+  }
+
+  if (change.change === "added" && change.problem) {
+    const { likelihood, expectedSize, aspectElevations } = change.problem;
+    return `- ${label}: added (${likelihood}, ${formatSize(expectedSize)}, ${formatAspectElevations(aspectElevations)})`;
+  }
+
+  const details: string[] = [];
+  if (change.likelihood) {
+    details.push(
+      `likelihood ${change.likelihood.from} → ${change.likelihood.to}`,
+    );
+  }
+  if (change.expectedSize) {
+    details.push(
+      `size ${formatSize(change.expectedSize.from)} → ${formatSize(change.expectedSize.to)}`,
+    );
+  }
+  if (change.aspectElevations?.added.length) {
+    details.push(
+      `now also ${formatAspectElevations(change.aspectElevations.added)}`,
+    );
+  }
+  if (change.aspectElevations?.removed.length) {
+    details.push(
+      `no longer ${formatAspectElevations(change.aspectElevations.removed)}`,
+    );
+  }
+
+  return `- ${label}: ${details.join("; ")}`;
+}
+
+/**
+ * Render a change set as markdown for tool responses
+ *
+ * @param changes - Output of {@link diffForecasts}
+ * @returns Formatted markdown string
+ */
+export function formatForecastDiff(changes: ForecastChangeSet): string {
+  const sections: string[] = [];
+
+  sections.push(`# What Changed: ${changes.publicName}`);
+  sections.push(
+    `Previous issued: ${changes.previous.issueDateTime}\nCurrent issued: ${changes.next.issueDateTime}`,
+  );
+
+  if (!changes.overlappingDays) {
+    sections.push(
+      "No overlapping days: the two issuances forecast different dates, so danger ratings and problems were not compared.",
+    );
+  }
+
+  if (!changes.hasChanges) {
+    if (changes.overlappingDays) {
+      sections.push("No changes to danger ratings, problems or summaries.");
+    }
+    return sections.join("\n\n");
+  }
+
+  if (changes.dangerRatings.length) {
+    const lines = changes.dangerRatings.map(
+      (c) =>
+        `- ${c.date} ${elevationLabels[c.band]}: ${formatDanger(c.from)} → ${formatDanger(c.to)} (${c.direction})`,
+    );
+    sections.push(`## Danger Ratings\n${lines.join("\n")}`);
+  }
+
+  if (changes.problems.length) {
+    const byDate = new Map<string, AvalancheProblemChange[]>();
+    for (const change of changes.problems) {
+      byDate.set(change.date, [...(byDate.get(change.date) ?? []), change]);
+    }
+    const days = [...byDate].map(
+      ([date, dayChanges]) =>
+        `### ${date}\n${dayChanges.map(formatProblemChange).join("\n")}`,
+    );
+    sections.push(`## Avalanche Problems\n${days.join("\n\n")}`);
+  }
+
+  for (const summary of changes.summaries) {
+    sections.push(
+      `## ${summarySectionLabels[summary.section]} (rewritten)\n${summary.to}`,
+    );
+  }
+
+  return sections.join("\n\n");
+}
+
+export type {
+  AvalancheProblemChange,
+  DangerRatingChange,
+  ForecastChangeSet,
+  SummaryChange,
+};
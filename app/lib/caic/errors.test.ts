@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { parseRetryAfter } from "./errors";
+
+describe("parseRetryAfter", () => {
+  const now = Date.parse("2026-01-12T12:00:00Z");
+
+  it("reads delays in seconds", () => {
+    expect(parseRetryAfter("120", now)).toBe(120);
+    expect(parseRetryAfter("-5", now)).toBe(0);
+  });
+
+  it("reads HTTP dates relative to now", () => {
+    expect(parseRetryAfter("Mon, 12 Jan 2026 12:01:30 GMT", now)).toBe(90);
+    expect(parseRetryAfter("Mon, 12 Jan 2026 11:00:00 GMT", now)).toBe(0);
+  });
+
+  it("ignores missing or unreadable headers", () => {
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+    expect(parseRetryAfter("soon", now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Machine-readable error codes surfaced to tools and the model
+ */
+type CAICErrorCode =
+  | "UPSTREAM_UNAVAILABLE"
+  | "RATE_LIMITED"
+  | "MALFORMED_PAYLOAD"
+  | "TIMEOUT";
+
+/**
+ * Base class for all failures talking to the CAIC Avid API
+ */
+class CAICError extends Error {
+  readonly code: CAICErrorCode;
+  /** Whether trying again later may succeed */
+  readonly retryable: boolean;
+
+  constructor(
+    code: CAICErrorCode,
+    message: string,
+    retryable: boolean,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = new.target.name;
+    this.code = code;
+    this.retryable = retryable;
+  }
+}
+
+/**
+ * The upstream responded with a 5xx or could not be reached at all
+ */
+class CAICUnavailableError extends CAICError {
+  /** HTTP status, or undefined for network failures */
+  readonly status: number | undefined;
+
+  constructor(message: string, status?: number, options?: ErrorOptions) {
+    super("UPSTREAM_UNAVAILABLE", message, true, options);
+    this.status = status;
+  }
+}
+
+/**
+ * The upstream responded with 429 Too Many Requests
+ */
+class CAICRateLimitError extends CAICError {
+  /** Seconds to wait before retrying, from the Retry-After header */
+  readonly retryAfterSeconds: number | undefined;
+
+  constructor(message: string, retryAfterSeconds?: number) {
+    super("RATE_LIMITED", message, true);
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/**
+ * The upstream responded, but the body was not the payload we expected
+ */
+class CAICMalformedPayloadError extends CAICError {
+  constructor(message: string, options?: ErrorOptions) {
+    super("MALFORMED_PAYLOAD", message, false, options);
+  }
+}
+
+/**
+ * A single request exceeded the configured timeout
+ */
+class CAICTimeoutError extends CAICError {
+  constructor(message: string, options?: ErrorOptions) {
+    super("TIMEOUT", message, true, options);
+  }
+}
+
+/**
+ * Parse a Retry-After header given in seconds or as an HTTP date
+ */
+function parseRetryAfter(
+  header: string | null,
+  now: number,
+): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+
+  const date = Date.parse(header);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, Math.ceil((date - now) / 1000));
+}
+
+export {
+  CAICError,
+  CAICMalformedPayloadError,
+  CAICRateLimitError,
+  CAICTimeoutError,
+  CAICUnavailableError,
+  parseRetryAfter,
+};
+export type { CAICErrorCode };
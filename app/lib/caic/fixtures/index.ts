@@ -0,0 +1,61 @@
+import products from "./products.json";
+import avalancheForecastAreas from "./areas.avalancheforecast.json";
+import regionalDiscussionAreas from "./areas.regionaldiscussion.json";
+import specialProductAreas from "./areas.specialproduct.json";
+
+/**
+ * Synthetic `/products/all/area` responses by `productType`, shaped like the
+ * Avid API's but not captured from it
+ */
+const areasByProductType: Record<string, unknown> = {
+  avalancheforecast: avalancheForecastAreas,
+  regionaldiscussion: regionalDiscussionAreas,
+  specialproduct: specialProductAreas,
+};
+
+/**
+ * Resolve a proxied Avid API path to its synthetic response body
+ * @param path - Decoded `_api_proxy_uri` value, e.g. `/products/all?includeExpired=true`
+ */
+function resolveFixture(path: string): unknown | undefined {
+  const url = new URL(path, "https://avid.invalid");
+
+  switch (url.pathname) {
+    case "/products/all":
+      return products;
+    case "/products/all/area":
+      return areasByProductType[url.searchParams.get("productType") ?? ""];
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Create a `fetch` stand-in for the Avid proxy that serves synthetic
+ * responses, routed by the `_api_proxy_uri` query parameter just like the
+ * real proxy. Lets the app run fully offline.
+ *
+ * @example
+ * ```ts
+ * const client = createCAICClient({ fetch: createFixtureFetch() });
+ * ```
+ */
+export function createFixtureFetch(): typeof fetch {
+  return async (input) => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    const proxiedPath = url.searchParams.get("_api_proxy_uri");
+
+    const body = proxiedPath ? resolveFixture(proxiedPath) : undefined;
+    if (body === undefined) {
+      return new Response(JSON.stringify({ error: "No fixture for request" }), {
+        status: 404,
+        statusText: "Not Found",
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(JSON.stringify(body), {
+      headers: { "Content-Type": "application/json" },
+    });
+  };
+}
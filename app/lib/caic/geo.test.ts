@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import {
+  distanceToMultiPolygonKm,
+  distanceToSegmentKm,
+  haversineKm,
+} from "./geo";
+
+/** A 0.1° square around the origin of the search */
+const square = [
+  [
+    [
+      [-106, 39],
+      [-105.9, 39],
+      [-105.9, 39.1],
+      [-106, 39.1],
+      [-106, 39],
+    ],
+  ],
+];
+
+describe("haversineKm", () => {
+  it("measures great-circle distances", () => {
+    expect(haversineKm([-105, 39], [-105, 40])).toBeCloseTo(111.19, 2);
+    expect(haversineKm([-105, 39], [-105, 39])).toBe(0);
+  });
+});
+
+describe("distanceToSegmentKm", () => {
+  it("measures to the closest point along the segment", () => {
+    expect(
+      distanceToSegmentKm(39.05, -105.8, [-105.9, 39], [-105.9, 39.1]),
+    ).toBeCloseTo(8.64, 1);
+  });
+
+  it("measures to the nearer end beyond the segment", () => {
+    expect(
+      distanceToSegmentKm(39.2, -105.9, [-105.9, 39], [-105.9, 39.1]),
+    ).toBeCloseTo(11.12, 1);
+  });
+
+  it("handles a degenerate segment", () => {
+    expect(
+      distanceToSegmentKm(39.1, -105.9, [-105.9, 39], [-105.9, 39]),
+    ).toBeCloseTo(11.12, 1);
+  });
+});
+
+describe("distanceToMultiPolygonKm", () => {
+  it("measures to the nearest edge of any ring", () => {
+    expect(distanceToMultiPolygonKm(39.05, -105.85, square)).toBeCloseTo(
+      4.32,
+      1,
+    );
+    expect(distanceToMultiPolygonKm(38.95, -105.95, square)).toBeCloseTo(
+      5.56,
+      1,
+    );
+  });
+});
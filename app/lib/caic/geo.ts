@@ -0,0 +1,171 @@
+/** Mean Earth radius in kilometres */
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points in kilometres
+ * @param a - First point [longitude, latitude]
+ * @param b - Second point [longitude, latitude]
+ */
+function haversineKm(a: number[], b: number[]): number {
+  const [lng1, lat1] = a;
+  const [lng2, lat2] = b;
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) *
+      Math.cos(toRadians(lat2)) *
+      Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Distance in kilometres from a point to a line segment.
+ * Uses an equirectangular projection centred on the point, which is accurate
+ * to well under 1% at the scale of forecast zones.
+ * @param lat - Latitude of the point
+ * @param lng - Longitude of the point
+ * @param start - Segment start [longitude, latitude]
+ * @param end - Segment end [longitude, latitude]
+ */
+function distanceToSegmentKm(
+  lat: number,
+  lng: number,
+  start: number[],
+  end: number[],
+): number {
+  const kx = Math.cos(toRadians(lat)) * toRadians(1) * EARTH_RADIUS_KM;
+  const ky = toRadians(1) * EARTH_RADIUS_KM;
+
+  const ax = (start[0] - lng) * kx;
+  const ay = (start[1] - lat) * ky;
+  const bx = (end[0] - lng) * kx;
+  const by = (end[1] - lat) * ky;
+
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+
+  // Project the origin (our point) onto the segment, clamped to its ends
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+
+  return Math.hypot(ax + t * dx, ay + t * dy);
+}
+
+/**
+ * Distance in kilometres from a point to the nearest edge of a MultiPolygon
+ * @param lat - Latitude of the point
+ * @param lng - Longitude of the point
+ * @param coordinates - MultiPolygon coordinates [polygons][rings][points][coords]
+ */
+function distanceToMultiPolygonKm(
+  lat: number,
+  lng: number,
+  coordinates: number[][][][],
+): number {
+  let min = Infinity;
+
+  for (const polygon of coordinates) {
+    for (const ring of polygon) {
+      for (let i = 1; i < ring.length; i++) {
+        min = Math.min(
+          min,
+          distanceToSegmentKm(lat, lng, ring[i - 1], ring[i]),
+        );
+      }
+    }
+  }
+
+  return min;
+}
+
+/**
+ * Quick bounding box check for early rejection
+ * @param lat - Latitude of the point
+ * @param lng - Longitude of the point
+ * @param bbox - Bounding box [minLng, minLat, maxLng, maxLat]
+ */
+function isPointInBbox(
+  lat: number,
+  lng: number,
+  bbox: [number, number, number, number],
+): boolean {
+  const [minLng, minLat, maxLng, maxLat] = bbox;
+  return lng >= minLng && lng <= maxLng && lat >= minLat && lat <= maxLat;
+}
+
+/**
+ * Ray-casting algorithm to check if a point is inside a polygon ring
+ * @param lat - Latitude of the point
+ * @param lng - Longitude of the point
+ * @param ring - Array of [lng, lat] coordinates forming a closed ring
+ */
+function isPointInRing(lat: number, lng: number, ring: number[][]): boolean {
+  let inside = false;
+  const n = ring.length;
+
+  for (let i = 0, j = n - 1; i < n; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+
+    // Check if the ray from (lng, lat) going right crosses this edge
+    if (
+      yi > lat !== yj > lat &&
+      lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi
+    ) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * Check if a point is inside a MultiPolygon geometry
+ * Handles holes: point must be inside outer ring and outside all hole rings
+ * @param lat - Latitude of the point
+ * @param lng - Longitude of the point
+ * @param coordinates - MultiPolygon coordinates [polygons][rings][points][coords]
+ */
+function isPointInMultiPolygon(
+  lat: number,
+  lng: number,
+  coordinates: number[][][][],
+): boolean {
+  for (const polygon of coordinates) {
+    // First ring is the outer boundary
+    const outerRing = polygon[0];
+    if (!isPointInRing(lat, lng, outerRing)) {
+      continue; // Not in this polygon's outer ring, try next polygon
+    }
+
+    // Check if point is inside any hole (rings 1+)
+    let inHole = false;
+    for (let i = 1; i < polygon.length; i++) {
+      if (isPointInRing(lat, lng, polygon[i])) {
+        inHole = true;
+        break;
+      }
+    }
+
+    if (!inHole) {
+      return true; // Inside outer ring and not in any hole
+    }
+  }
+
+  return false;
+}
+
+export {
+  distanceToMultiPolygonKm,
+  distanceToSegmentKm,
+  haversineKm,
+  isPointInBbox,
+  isPointInMultiPolygon,
+  isPointInRing,
+};
@@ -0,0 +1,437 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  CAICError,
+  CAICMalformedPayloadError,
+  CAICRateLimitError,
+  CAICTimeoutError,
+  CAICUnavailableError,
+} from "./errors";
+import { createFixtureFetch } from "./fixtures";
+import {
+  type CAICCache,
+  createCAICClient,
+  createMemoryCache,
+  parseForecastInstant,
+} from "./index";
+
+const areas = { type: "FeatureCollection", features: [] };
+
+/**
+ * Replace the global fetch with one answering every Avid request with
+ * `respond`, recording the proxied paths it was asked for
+ */
+function stubFetch(
+  respond: (path: string, init?: RequestInit) => Response | Promise<Response>,
+) {
+  const paths: string[] = [];
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = new URL(input instanceof Request ? input.url : String(input));
+      const path = url.searchParams.get("_api_proxy_uri") ?? url.pathname;
+      paths.push(path);
+      return respond(path, init);
+    }),
+  );
+  return paths;
+}
+
+const respondJson = (path: string) =>
+  Response.json(path.startsWith("/products/all/area") ? areas : []);
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("CAICClient caching", () => {
+  it("shares one request between concurrent callers", async () => {
+    const paths = stubFetch(respondJson);
+    const client = createCAICClient();
+
+    const [first, second] = await Promise.all([
+      client.getProducts(),
+      client.getProducts(),
+    ]);
+
+    expect(first).toBe(second);
+    expect(paths).toEqual(["/products/all?includeExpired=true"]);
+  });
+
+  it("serves repeat calls from the cache", async () => {
+    const paths = stubFetch(respondJson);
+    const client = createCAICClient({ cache: createMemoryCache() });
+
+    await client.getAreas("avalancheforecast");
+    await client.getAreas("avalancheforecast");
+    await client.getProducts();
+    await client.getProducts();
+
+    expect(paths).toEqual([
+      "/products/all/area?productType=avalancheforecast&includeExpired=true",
+      "/products/all?includeExpired=true",
+    ]);
+  });
+
+  it("refetches without a cache once a request has settled", async () => {
+    const paths = stubFetch(respondJson);
+    const client = createCAICClient();
+
+    await client.getProducts();
+    await client.getProducts();
+
+    expect(paths).toHaveLength(2);
+  });
+
+  it("caches each query separately", async () => {
+    const paths = stubFetch(respondJson);
+    const client = createCAICClient({ cache: createMemoryCache() });
+
+    await client.getProducts(true);
+    await client.getProducts(false);
+
+    expect(paths).toEqual([
+      "/products/all?includeExpired=true",
+      "/products/all?includeExpired=false",
+    ]);
+  });
+
+  it("keeps clients with different base URLs apart in a shared cache", async () => {
+    const paths = stubFetch(respondJson);
+    const cache = createMemoryCache();
+
+    await createCAICClient({ cache }).getProducts();
+    await createCAICClient({
+      baseUrl: "https://avid.test/proxy",
+      cache,
+    }).getProducts();
+
+    expect(paths).toHaveLength(2);
+  });
+
+  it("does not cache failures", async () => {
+    let fail = true;
+    stubFetch((path) =>
+      fail ? new Response("Not Found", { status: 404 }) : respondJson(path),
+    );
+    const client = createCAICClient({ cache: createMemoryCache() });
+
+    await expect(client.getProducts()).rejects.toThrow();
+    fail = false;
+    await expect(client.getProducts()).resolves.toEqual([]);
+  });
+});
+
+describe("CAICClient requests", () => {
+  const noDelay = { retryBaseDelayMs: 0 };
+
+  it("retries 5xx responses and network errors", async () => {
+    const failures = [
+      () => new Response("Bad Gateway", { status: 502 }),
+      () => Promise.reject(new TypeError("fetch failed")),
+    ];
+    const paths = stubFetch(
+      (path) => failures.shift()?.() ?? respondJson(path),
+    );
+
+    await expect(createCAICClient(noDelay).getProducts()).resolves.toEqual([]);
+    expect(paths).toHaveLength(3);
+  });
+
+  it("gives up after maxRetries", async () => {
+    const paths = stubFetch(() => new Response("Unavailable", { status: 503 }));
+    const client = createCAICClient({ ...noDelay, maxRetries: 1 });
+
+    const error = await client.getProducts().catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(CAICUnavailableError);
+    expect(error).toMatchObject({
+      code: "UPSTREAM_UNAVAILABLE",
+      status: 503,
+      retryable: true,
+    });
+    expect(paths).toHaveLength(2);
+  });
+
+  it("does not retry other client errors", async () => {
+    const paths = stubFetch(() => new Response("Not Found", { status: 404 }));
+
+    const error = await createCAICClient(noDelay)
+      .getProducts()
+      .catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(CAICError);
+    expect(error).toMatchObject({
+      code: "UPSTREAM_UNAVAILABLE",
+      retryable: false,
+    });
+    expect(paths).toHaveLength(1);
+  });
+
+  it("reports rate limiting with the upstream Retry-After", async () => {
+    const paths = stubFetch(
+      () =>
+        new Response("Slow down", {
+          status: 429,
+          headers: { "Retry-After": "30" },
+        }),
+    );
+
+    const error = await createCAICClient(noDelay)
+      .getProducts()
+      .catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(CAICRateLimitError);
+    expect(error).toMatchObject({ retryAfterSeconds: 30 });
+    expect(paths).toHaveLength(1);
+  });
+
+  it("reports a body that is not JSON as malformed", async () => {
+    stubFetch(() => new Response("<html>", { status: 200 }));
+
+    await expect(
+      createCAICClient(noDelay).getProducts(),
+    ).rejects.toBeInstanceOf(CAICMalformedPayloadError);
+  });
+
+  it("times out requests that do not answer", async () => {
+    const paths = stubFetch(
+      (_path, init) =>
+        new Promise((_resolve, reject) => {
+          init?.signal?.addEventListener("abort", () =>
+            reject(init.signal?.reason),
+          );
+        }),
+    );
+    const client = createCAICClient({
+      ...noDelay,
+      timeoutMs: 10,
+      maxRetries: 1,
+    });
+
+    await expect(client.getProducts()).rejects.toBeInstanceOf(CAICTimeoutError);
+    expect(paths).toHaveLength(2);
+  });
+
+  it("backs off exponentially between attempts", async () => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    const paths = stubFetch(() => new Response("Unavailable", { status: 503 }));
+
+    const result = createCAICClient({ retryBaseDelayMs: 100 })
+      .getProducts()
+      .catch((e: unknown) => e);
+
+    await vi.advanceTimersByTimeAsync(49);
+    expect(paths).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(paths).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(99);
+    expect(paths).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(paths).toHaveLength(3);
+    expect(await result).toBeInstanceOf(CAICUnavailableError);
+  });
+});
+
+describe("CAICClient validation", () => {
+  it("drops drifted items and reports them", async () => {
+    stubFetch(() => Response.json([{ id: "x", type: "avalancheforecast" }]));
+    const warnings: unknown[] = [];
+    const client = createCAICClient({
+      onSchemaWarning: (warning) => warnings.push(warning),
+    });
+
+    await expect(client.getProducts()).resolves.toEqual([]);
+    expect(warnings).toMatchObject([
+      { kind: "schema-drift", resource: "products", id: "x" },
+    ]);
+  });
+
+  it("rejects a payload of the wrong shape", async () => {
+    stubFetch(() => Response.json({ error: "maintenance" }));
+
+    await expect(createCAICClient().getProducts()).rejects.toBeInstanceOf(
+      CAICMalformedPayloadError,
+    );
+  });
+});
+
+describe("CAICClient.locateZones", () => {
+  const square = {
+    id: "front-range",
+    type: "Feature",
+    bbox: [-106, 39, -105.5, 39.5],
+    geometry: {
+      type: "MultiPolygon",
+      coordinates: [
+        [
+          [
+            [-106, 39],
+            [-105.5, 39],
+            [-105.5, 39.5],
+            [-106, 39.5],
+            [-106, 39],
+          ],
+        ],
+      ],
+    },
+    properties: { centroid: [-105.75, 39.25], id: "area-1" },
+  };
+
+  it("matches every point against one areas fetch", async () => {
+    const paths = stubFetch(() =>
+      Response.json({ type: "FeatureCollection", features: [square] }),
+    );
+    const client = createCAICClient({ maxNearestZoneDistanceKm: 10 });
+
+    const matches = await client.locateZones([
+      { lat: 39.25, lng: -105.75 },
+      { lat: 39.25, lng: -105.45 },
+      { lat: 39.25, lng: -105 },
+    ]);
+
+    expect(paths).toHaveLength(1);
+    expect(matches[0]).toMatchObject({ approximate: false, distanceKm: 0 });
+    expect(matches[0]?.area.id).toBe("front-range");
+    expect(matches[1]).toMatchObject({ approximate: true });
+    expect(matches[1]?.distanceKm).toBeCloseTo(4.3, 1);
+    expect(matches[2]).toBeNull();
+  });
+});
+
+describe("CAICClient with injected fetch and clock", () => {
+  const clock = () => Date.parse("2026-01-12T23:00:00Z");
+
+  it("serves the offline fixtures", async () => {
+    const warnings: unknown[] = [];
+    const client = createCAICClient({
+      fetch: createFixtureFetch(),
+      clock,
+      onSchemaWarning: (warning) => warnings.push(warning),
+    });
+
+    const [products, match] = await Promise.all([
+      client.getProducts(),
+      client.locateZones([{ lat: 39.8, lng: -105.7 }]),
+    ]);
+
+    expect(warnings).toEqual([]);
+    expect(products).toHaveLength(7);
+    expect(match[0]?.area.properties.id).toBe(
+      "6f1ac1f2-0a3e-4c1b-9d5e-1b2f3c4d5e01",
+    );
+  });
+
+  it("sends requests to the configured base URL", async () => {
+    const urls: string[] = [];
+    const fixtures = createFixtureFetch();
+    const client = createCAICClient({
+      baseUrl: "https://avid.test/proxy",
+      fetch: async (input, init) => {
+        urls.push(String(input));
+        return fixtures(input, init);
+      },
+    });
+
+    await client.getProducts();
+
+    expect(urls).toEqual([
+      "https://avid.test/proxy?_api_proxy_uri=%2Fproducts%2Fall%3FincludeExpired%3Dtrue",
+    ]);
+  });
+
+  it("caches products until the earliest expiry on its clock", async () => {
+    const ttls: number[] = [];
+    const cache: CAICCache = {
+      get: async () => undefined,
+      put: async (_key, _value, ttlSeconds) => {
+        ttls.push(ttlSeconds);
+      },
+    };
+    const client = createCAICClient({
+      fetch: createFixtureFetch(),
+      clock,
+      cache,
+    });
+
+    await client.getProducts();
+
+    // The earliest fixture expiry is 2026-01-12T23:30:00Z
+    expect(ttls).toEqual([30 * 60]);
+  });
+
+  it("answers paths without a fixture with a 404", async () => {
+    const response = await createFixtureFetch()(
+      "https://avid.test/proxy?_api_proxy_uri=%2Fobservations",
+    );
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe("CAICClient.getProductsForDate", () => {
+  const client = createCAICClient({ fetch: createFixtureFetch() });
+  const on = (date: string) => parseForecastInstant(date) as Date;
+
+  it("returns the products in effect at that instant", async () => {
+    const earlier = await client.getProductsForDate(on("2026-01-12"));
+    const later = await client.getProductsForDate(on("2026-01-13"));
+
+    expect(earlier.map((p) => p.id)).toEqual([
+      "c1b0d2a4-1111-4a5b-8c9d-000000000000",
+    ]);
+    expect(later.map((p) => p.type)).toEqual([
+      "avalancheforecast",
+      "avalancheforecast",
+      "avalancheforecast",
+      "avalancheforecast",
+      "regionaldiscussion",
+      "specialproduct",
+    ]);
+  });
+
+  it("treats expiry as exclusive", async () => {
+    const products = await client.getProductsForDate(
+      new Date("2026-01-12T23:30:00Z"),
+    );
+
+    expect(products.map((p) => p.id)).not.toContain(
+      "c1b0d2a4-1111-4a5b-8c9d-000000000000",
+    );
+  });
+
+  it("looks up a location's forecast on a past date", async () => {
+    const lookup = await client.fetchForecastForLocation(
+      "avalancheforecast",
+      { lat: 39.8, lng: -105.7 },
+      { date: on("2026-01-12") },
+    );
+
+    expect(lookup).toMatchObject({
+      status: "found",
+      product: { id: "c1b0d2a4-1111-4a5b-8c9d-000000000000" },
+    });
+  });
+});
+
+describe("CAICClient.findPreviousProduct", () => {
+  const client = createCAICClient({ fetch: createFixtureFetch() });
+  const byId = async (suffix: string) =>
+    (await client.getProducts()).find((p) => p.id.endsWith(suffix))!;
+
+  it("finds the issuance before a product in the same zone", async () => {
+    const previous = await client.findPreviousProduct(
+      await byId("000000000001"),
+    );
+
+    expect(previous?.id).toBe("c1b0d2a4-1111-4a5b-8c9d-000000000000");
+  });
+
+  it("returns null for a zone's first issuance", async () => {
+    expect(
+      await client.findPreviousProduct(await byId("000000000000")),
+    ).toBeNull();
+    expect(
+      await client.findPreviousProduct(await byId("000000000002")),
+    ).toBeNull();
+  });
+});
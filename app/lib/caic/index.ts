@@ -1,132 +1,36 @@
-/**
- * GeoJSON Feature representing a geographic forecast area
- */
-interface Feature {
-  /** Unique identifier for the geographic feature */
-  id: string;
-  /** GeoJSON type specification, always "Feature" */
-  type: "Feature";
-  /** Bounding box in format [minLongitude, minLatitude, maxLongitude, maxLatitude] */
-  bbox: [number, number, number, number];
-  /** Geometry specification for the area */
-  geometry: {
-    /** Type of geometry, always MultiPolygon for forecast areas */
-    type: "MultiPolygon";
-    /** Nested array structure: [polygons][rings][points][coordinates] */
-    coordinates: number[][][][];
-  };
-  /** Additional properties of the feature */
-  properties: {
-    /** Center point coordinates [longitude, latitude] */
-    centroid: number[];
-    /** Area identifier matching areaId in forecasts */
-    id: string;
-  };
-}
-
-/**
- * GeoJSON FeatureCollection containing multiple forecast areas
- */
-interface FeatureCollection {
-  /** Array of individual geographic features */
-  features: Feature[];
-  /** GeoJSON type specification, always "FeatureCollection" */
-  type: "FeatureCollection";
-}
-
-interface Image {
-  id: string;
-  url: string;
-  width: number;
-  height: number;
-  credit?: string;
-  caption: string;
-  tag: string;
-  altText?: string;
-  dateTaken?: string | null;
-  isArchived: boolean;
-}
-
-interface Media {
-  Images: Image[];
-}
-
-interface Communications {
-  headline: string;
-  sms: string;
-}
-
-interface RegionalDiscussion {
-  id: string;
-  title: string;
-  publicName: string;
-  type: "regionaldiscussion";
-  polygons: string;
-  areaId: string;
-  forecaster: string;
-  issueDateTime: string;
-  expiryDateTime: string;
-  isTranslated: boolean;
-  message: string;
-  communications: Communications;
-  media: Media;
-}
-
-interface AvalancheProblem {
-  type: string;
-  aspectElevations: string[];
-  likelihood: string;
-  expectedSize: { min: string; max: string };
-  comment?: string;
-}
-
-interface DangerRating {
-  position: number;
-  alp: string;
-  tln: string;
-  btl: string;
-  date: string;
-}
-
-interface AvalancheForecast {
-  id: string;
-  publicName: string;
-  type: "avalancheforecast";
-  polygons: string;
-  areaId: string;
-  forecaster: string;
-  issueDateTime: string;
-  expiryDateTime: string;
-  isTranslated: boolean;
-  weatherSummary: { days: { date: string; content: string }[] };
-  snowpackSummary: { days: { date: string; content: string }[] };
-  avalancheSummary: { days: { date: string; content: string }[] };
-  terrainAndTravelAdvice: { days: { date: string; content: string }[][] };
-  communication: Communications;
-  media: Media;
-  dangerRatings: { days: DangerRating[] };
-  avalancheProblems: { days: AvalancheProblem[][] };
-}
-
-interface SpecialProduct {
-  id: string;
-  title: string;
-  publicName: string;
-  type: "specialproduct";
-  polygons: string;
-  areaId: string;
-  forecaster: string;
-  issueDateTime: string;
-  expiryDateTime: string;
-  isTranslated: boolean;
-  specialProductType: "warning" | "specialAdvisory";
-  startDate?: string;
-  message?: string;
-  communications: Communications;
-  media: Media;
-}
-
-type ApiResponse = (RegionalDiscussion | AvalancheForecast | SpecialProduct)[];
+import { AREAS_TTL_SECONDS, type CAICCache, productsTtlSeconds } from "./cache";
+import {
+  CAICError,
+  CAICMalformedPayloadError,
+  CAICRateLimitError,
+  CAICTimeoutError,
+  CAICUnavailableError,
+  parseRetryAfter,
+} from "./errors";
+import {
+  type ApiResponse,
+  type AvalancheForecast,
+  type AvalancheProblem,
+  type Communications,
+  type DangerRating,
+  type Feature,
+  type FeatureCollection,
+  type Image,
+  type Media,
+  type RegionalDiscussion,
+  type SchemaDriftWarning,
+  type SpecialProduct,
+  parseFeatureCollection,
+  parseProducts,
+} from "./schema";
+import { ZoneIndex } from "./spatial-index";
+import { buildZoneCatalog, type ZoneCatalog } from "./zones";
+import {
+  dangerLabels,
+  formatAspectElevations,
+  problemTypeLabels,
+  specialProductTypeLabels,
+} from "./labels";
 
 /**
  * Product types available from the CAIC API
@@ -150,6 +54,62 @@ interface ProductWithArea<T> {
   area: Feature | undefined;
 }
 
+/** Public CAIC proxy for the Avid API */
+const DEFAULT_BASE_URL = "https://avalanche.state.co.us/api-proxy/avid";
+
+/**
+ * A forecast zone matched to a point
+ */
+interface ZoneMatch {
+  /** The matched forecast zone */
+  area: Feature;
+  /** True when the point lies outside every zone and the nearest one was used */
+  approximate: boolean;
+  /** Distance from the point to the zone boundary in km (0 when inside) */
+  distanceKm: number;
+}
+
+/**
+ * Result of looking up a product for a location
+ */
+type ForecastLookup<T> =
+  /** A zone was matched and it has a product */
+  | { status: "found"; product: T; zone: ZoneMatch }
+  /** A zone was matched but no product was issued for it */
+  | { status: "no-product"; zone: ZoneMatch }
+  /** The point is too far from every zone to be covered by CAIC */
+  | { status: "outside-coverage" };
+
+/**
+ * Options accepted by {@link createCAICClient}
+ */
+interface CAICClientOptions {
+  /** Avid proxy endpoint (default: the public CAIC proxy) */
+  baseUrl?: string;
+  /** Fetch implementation, e.g. a fixture replayer for offline development */
+  fetch?: typeof fetch;
+  /** Clock returning the current time in ms since the epoch (default: Date.now) */
+  clock?: () => number;
+  /** Cache for upstream responses. When omitted every call hits the API. */
+  cache?: CAICCache;
+  /** Per-request timeout in milliseconds (default: 10000) */
+  timeoutMs?: number;
+  /** Retries after the first attempt for 5xx and network failures (default: 2) */
+  maxRetries?: number;
+  /** Base delay for exponential backoff in milliseconds (default: 250) */
+  retryBaseDelayMs?: number;
+  /**
+   * Called for every upstream item dropped by schema validation.
+   * Defaults to logging a structured warning.
+   */
+  onSchemaWarning?: (warning: SchemaDriftWarning) => void;
+  /**
+   * Furthest a point may lie outside every zone and still be matched to the
+   * nearest one, in km (default: 20)
+   */
+  maxNearestZoneDistanceKm?: number;
+}
+
 /**
  * CAIC (Colorado Avalanche Information Center) API Client
  *
@@ -166,13 +126,40 @@ interface ProductWithArea<T> {
  * ```
  */
 class CAICClient {
-  private readonly baseUrl = "https://avalanche.state.co.us/api-proxy/avid";
+  private readonly baseUrl: string;
+  private readonly fetch: typeof fetch;
+  private readonly clock: () => number;
+  private readonly cache: CAICCache | undefined;
+  private readonly timeoutMs: number;
+  private readonly maxRetries: number;
+  private readonly retryBaseDelayMs: number;
+  private readonly onSchemaWarning: (warning: SchemaDriftWarning) => void;
+  private readonly maxNearestZoneDistanceKm: number;
+  /** Spatial indexes, built once per FeatureCollection */
+  private readonly indexes = new WeakMap<FeatureCollection, ZoneIndex>();
+  /** Requests currently in flight, so concurrent callers share one fetch */
+  private readonly inflight = new Map<string, Promise<unknown>>();
+
+  constructor(options: CAICClientOptions = {}) {
+    this.baseUrl = options.baseUrl ?? DEFAULT_BASE_URL;
+    // Bind the global so it is not invoked with the client as `this`
+    this.fetch = options.fetch ?? fetch.bind(globalThis);
+    this.clock = options.clock ?? Date.now;
+    this.cache = options.cache;
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+    this.maxRetries = options.maxRetries ?? 2;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 250;
+    this.onSchemaWarning = options.onSchemaWarning ?? logSchemaWarning;
+    this.maxNearestZoneDistanceKm = options.maxNearestZoneDistanceKm ?? 20;
+  }
+
   /**
    * Fetch GeoJSON feature data for forecast areas
    *
    * @param productType - The type of product to fetch areas for
    * @param includeExpired - Whether to include expired products (default: true)
    * @returns GeoJSON FeatureCollection containing geographic forecast regions
+   * @throws {CAICError} When the upstream fails after retries
    */
   async getAreas(
     productType: ProductType,
@@ -183,16 +170,19 @@ class CAICClient {
       includeExpired: String(includeExpired),
     });
 
-    const url = this.buildUrl(`/products/all/area?${params}`);
-    const response = await fetch(url);
-
-    if (!response.ok) {
-      throw new Error(
-        `Failed to fetch areas: ${response.status} ${response.statusText}`,
-      );
-    }
-
-    return response.json() as Promise<FeatureCollection>;
+    return this.cached(
+      `areas:${params}`,
+      async () => {
+        const raw = await this.fetchJson(
+          `/products/all/area?${params}`,
+          "areas",
+        );
+        const { data, warnings } = parseFeatureCollection(raw);
+        warnings.forEach(this.onSchemaWarning);
+        return data;
+      },
+      () => AREAS_TTL_SECONDS,
+    );
   }
 
   /**
@@ -200,22 +190,73 @@ class CAICClient {
    *
    * @param includeExpired - Whether to include expired products (default: true)
    * @returns Array of forecast products (regional discussions, forecasts, special products)
+   * @throws {CAICError} When the upstream fails after retries
    */
   async getProducts(includeExpired = true): Promise<ApiResponse> {
     const params = new URLSearchParams({
       includeExpired: String(includeExpired),
     });
 
-    const url = this.buildUrl(`/products/all?${params}`);
-    const response = await fetch(url);
+    return this.cached(
+      `products:${params}`,
+      async () => {
+        const raw = await this.fetchJson(`/products/all?${params}`, "products");
+        const { data, warnings } = parseProducts(raw);
+        warnings.forEach(this.onSchemaWarning);
+        return data;
+      },
+      (products) => productsTtlSeconds(products, this.clock()),
+    );
+  }
 
-    if (!response.ok) {
-      throw new Error(
-        `Failed to fetch products: ${response.status} ${response.statusText}`,
-      );
-    }
+  /**
+   * Fetch the products that were in effect at a given instant, i.e. whose
+   * `issueDateTime`–`expiryDateTime` window covers it
+   *
+   * @param date - The instant to look up
+   * @returns Products in effect at `date`; empty when CAIC no longer
+   * publishes them, in which case only the forecast archive has them
+   *
+   * @example
+   * ```ts
+   * const products = await client.getProductsForDate(
+   *   parseForecastInstant("2026-01-12")!,
+   * );
+   * ```
+   */
+  async getProductsForDate(date: Date): Promise<ApiResponse> {
+    const products = await this.getProducts(true);
+    const instant = date.getTime();
+
+    return products.filter(
+      (p) =>
+        Date.parse(p.issueDateTime) <= instant &&
+        instant < Date.parse(p.expiryDateTime),
+    );
+  }
 
-    return response.json() as Promise<ApiResponse>;
+  /**
+   * Find the issuance that preceded a product in the same zone
+   *
+   * @param product - The current product
+   * @returns The most recent earlier product of the same type for the same
+   * zone (matched by `areaId` or `publicName`), or null if none is published
+   */
+  async findPreviousProduct<P extends ApiResponse[number]>(
+    product: P,
+  ): Promise<P | null> {
+    const products = await this.getProducts(true);
+    const issued = Date.parse(product.issueDateTime);
+
+    const earlier = products.filter(
+      (p): p is P =>
+        p.type === product.type &&
+        p.id !== product.id &&
+        (p.areaId === product.areaId || p.publicName === product.publicName) &&
+        Date.parse(p.issueDateTime) < issued,
+    );
+
+    return latestIssued(earlier);
   }
 
   filterByProductType<T extends ProductType>(products: ApiResponse, type: T) {
@@ -232,43 +273,156 @@ class CAICClient {
     return filtered;
   }
 
+  /**
+   * Fetch the most recently issued product of a type for every zone
+   *
+   * @param productType - The type of product to fetch
+   * @returns Products keyed by `areaId`
+   */
+  async fetchLatestByArea<T extends ProductType>(
+    productType: T,
+  ): Promise<Map<string, ProductTypeMap[T]>> {
+    const products = await this.fetchForecastForProduct(productType);
+
+    const byArea = new Map<string, ProductTypeMap[T][]>();
+    for (const product of products) {
+      byArea.set(product.areaId, [
+        ...(byArea.get(product.areaId) ?? []),
+        product,
+      ]);
+    }
+
+    const latest = new Map<string, ProductTypeMap[T]>();
+    for (const [areaId, issuances] of byArea) {
+      const product = latestIssued(issuances);
+      if (product) latest.set(areaId, product);
+    }
+    return latest;
+  }
+
+  /**
+   * Build the catalog of avalanche forecast zones: area geometry joined with
+   * each zone's public name, searchable by id or fuzzy name
+   *
+   * @example
+   * ```ts
+   * const catalog = await client.getZoneCatalog();
+   * const zone = catalog.resolve("front range"); // → "Front Range"
+   * ```
+   */
+  async getZoneCatalog(): Promise<ZoneCatalog> {
+    const [areas, forecasts] = await Promise.all([
+      this.getAreas("avalancheforecast"),
+      this.fetchLatestByArea("avalancheforecast"),
+    ]);
+    return buildZoneCatalog(areas, forecasts);
+  }
+
   /**
    * Fetch the forecast/product for a given location
    *
    * @param productType - The type of product to fetch
    * @param coords - The coordinates to find the forecast for
-   * @returns The matching product or null if the location is not within any area
+   * @param options.date - Look up the product in effect at this instant
+   * instead of the latest one
+   * @returns The matching product and zone. Points just outside every zone are
+   * matched to the nearest one and flagged as approximate.
    *
    * @example
    * ```ts
    * const client = createCAICClient();
-   * const forecast = await client.fetchForecastForLocation(
+   * const lookup = await client.fetchForecastForLocation(
    *   "avalancheforecast",
    *   { lat: 39.6433, lng: -106.3781 } // Vail area
    * );
+   * if (lookup.status === "found") {
+   *   console.log(lookup.product.publicName);
+   * }
    * ```
    */
   async fetchForecastForLocation<T extends ProductType>(
     productType: T,
     coords: { lat: number; lng: number },
-  ): Promise<ProductTypeMap[T] | null> {
-    const { lat, lng } = coords;
+    options: { date?: Date } = {},
+  ): Promise<ForecastLookup<ProductTypeMap[T]>> {
+    const [lookup] = await this.fetchForecastsForLocations(
+      productType,
+      [coords],
+      options,
+    );
+    return lookup;
+  }
+
+  /**
+   * Fetch the forecast/product for several locations at once, sharing one
+   * areas and products fetch and one spatial index
+   *
+   * @param productType - The type of product to fetch
+   * @param points - The coordinates to find forecasts for
+   * @param options.date - Look up the products in effect at this instant
+   * instead of the latest ones
+   * @returns One lookup per point, in order
+   */
+  async fetchForecastsForLocations<T extends ProductType>(
+    productType: T,
+    points: { lat: number; lng: number }[],
+    options: { date?: Date } = {},
+  ): Promise<ForecastLookup<ProductTypeMap[T]>[]> {
+    const { date } = options;
 
     // Fetch areas and products in parallel
     const [areas, products] = await Promise.all([
       this.getAreas(productType),
-      this.fetchForecastForProduct(productType),
+      date
+        ? this.getProductsForDate(date).then((p) =>
+            this.filterByProductType(p, productType),
+          )
+        : this.fetchForecastForProduct(productType),
     ]);
 
-    // Find the area containing the point
-    const area = this.findAreaContainingPoint(lat, lng, areas);
-    if (!area) {
-      return null;
-    }
+    return points.map(({ lat, lng }) => {
+      // Find the area containing the point, or the nearest one
+      const zone = this.locateZone(lat, lng, areas);
+      if (!zone) {
+        return { status: "outside-coverage" };
+      }
 
-    // Find the product for this area
-    const product = products.find((p) => p.areaId === area.properties.id);
-    return product ?? null;
+      // Find the product for this area. Expired issuances may share the
+      // areaId, so prefer the most recently issued one.
+      const product = latestIssued(
+        products.filter((p) => p.areaId === zone.area.properties.id),
+      );
+      if (!product) {
+        return { status: "no-product", zone };
+      }
+
+      return { status: "found", product, zone };
+    });
+  }
+
+  /**
+   * Match many points to forecast zones in one pass, reusing a single areas
+   * fetch and spatial index
+   *
+   * @param points - Coordinates to locate
+   * @param productType - Product type whose zones to search (default: avalancheforecast)
+   * @returns One entry per point, in order: the matched zone, or null when the
+   * point is outside CAIC coverage
+   *
+   * @example
+   * ```ts
+   * const [berthoud, loveland] = await client.locateZones([
+   *   { lat: 39.798, lng: -105.777 },
+   *   { lat: 39.663, lng: -105.879 },
+   * ]);
+   * ```
+   */
+  async locateZones(
+    points: { lat: number; lng: number }[],
+    productType: ProductType = "avalancheforecast",
+  ): Promise<(ZoneMatch | null)[]> {
+    const areas = await this.getAreas(productType);
+    return points.map(({ lat, lng }) => this.locateZone(lat, lng, areas));
   }
 
   // ============================================================
@@ -276,106 +430,180 @@ class CAICClient {
   // ============================================================
 
   /**
-   * Quick bounding box check for early rejection
+   * Match a point to a forecast zone: the zone containing it, otherwise the
+   * nearest zone within `maxNearestZoneDistanceKm`
    * @param lat - Latitude of the point
    * @param lng - Longitude of the point
-   * @param bbox - Bounding box [minLng, minLat, maxLng, maxLat]
+   * @param featureCollection - GeoJSON FeatureCollection to search
+   * @returns The matched zone, or null when the point is outside CAIC coverage
    */
-  private isPointInBbox(
+  private locateZone(
     lat: number,
     lng: number,
-    bbox: [number, number, number, number],
-  ): boolean {
-    const [minLng, minLat, maxLng, maxLat] = bbox;
-    return lng >= minLng && lng <= maxLng && lat >= minLat && lat <= maxLat;
+    featureCollection: FeatureCollection,
+  ): ZoneMatch | null {
+    const index = this.indexFor(featureCollection);
+
+    const area = index.locate(lat, lng);
+    if (area) {
+      return { area, approximate: false, distanceKm: 0 };
+    }
+
+    const nearest = index.nearest(lat, lng, this.maxNearestZoneDistanceKm);
+    if (!nearest) {
+      return null;
+    }
+
+    return { ...nearest, approximate: true };
   }
 
   /**
-   * Ray-casting algorithm to check if a point is inside a polygon ring
-   * @param lat - Latitude of the point
-   * @param lng - Longitude of the point
-   * @param ring - Array of [lng, lat] coordinates forming a closed ring
+   * Get the spatial index for a FeatureCollection, building it on first use
    */
-  private isPointInRing(lat: number, lng: number, ring: number[][]): boolean {
-    let inside = false;
-    const n = ring.length;
-
-    for (let i = 0, j = n - 1; i < n; j = i++) {
-      const [xi, yi] = ring[i];
-      const [xj, yj] = ring[j];
-
-      // Check if the ray from (lng, lat) going right crosses this edge
-      if (
-        yi > lat !== yj > lat &&
-        lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi
-      ) {
-        inside = !inside;
-      }
+  private indexFor(featureCollection: FeatureCollection): ZoneIndex {
+    let index = this.indexes.get(featureCollection);
+    if (!index) {
+      index = new ZoneIndex(featureCollection);
+      this.indexes.set(featureCollection, index);
     }
-
-    return inside;
+    return index;
   }
 
+  // ============================================================
+  // Request helpers
+  // ============================================================
+
   /**
-   * Check if a point is inside a MultiPolygon geometry
-   * Handles holes: point must be inside outer ring and outside all hole rings
-   * @param lat - Latitude of the point
-   * @param lng - Longitude of the point
-   * @param coordinates - MultiPolygon coordinates [polygons][rings][points][coords]
+   * GET a proxied path and parse the JSON body, retrying 5xx responses,
+   * network failures and timeouts with jittered exponential backoff.
+   * @param path - Avid API path including query string
+   * @param label - Resource name used in error messages
    */
-  private isPointInMultiPolygon(
-    lat: number,
-    lng: number,
-    coordinates: number[][][][],
-  ): boolean {
-    for (const polygon of coordinates) {
-      // First ring is the outer boundary
-      const outerRing = polygon[0];
-      if (!this.isPointInRing(lat, lng, outerRing)) {
-        continue; // Not in this polygon's outer ring, try next polygon
+  private async fetchJson(path: string, label: string): Promise<unknown> {
+    const url = this.buildUrl(path);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.fetchJsonOnce(url, label);
+      } catch (error) {
+        const canRetry =
+          error instanceof CAICUnavailableError ||
+          error instanceof CAICTimeoutError;
+        if (!canRetry || attempt >= this.maxRetries) {
+          throw error;
+        }
+        await sleep(this.backoffDelay(attempt));
       }
+    }
+  }
 
-      // Check if point is inside any hole (rings 1+)
-      let inHole = false;
-      for (let i = 1; i < polygon.length; i++) {
-        if (this.isPointInRing(lat, lng, polygon[i])) {
-          inHole = true;
-          break;
-        }
+  /**
+   * Single request attempt, translating every failure into a CAICError
+   */
+  private async fetchJsonOnce(url: string, label: string): Promise<unknown> {
+    let response: Response;
+    try {
+      response = await this.fetch(url, {
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "TimeoutError") {
+        throw new CAICTimeoutError(
+          `Timed out fetching ${label} after ${this.timeoutMs}ms`,
+          { cause: error },
+        );
       }
+      throw new CAICUnavailableError(
+        `Network error fetching ${label}`,
+        undefined,
+        { cause: error },
+      );
+    }
+
+    if (response.status === 429) {
+      throw new CAICRateLimitError(
+        `Rate limited fetching ${label}`,
+        parseRetryAfter(response.headers.get("Retry-After"), this.clock()),
+      );
+    }
 
-      if (!inHole) {
-        return true; // Inside outer ring and not in any hole
+    if (response.status >= 500) {
+      throw new CAICUnavailableError(
+        `Failed to fetch ${label}: ${response.status} ${response.statusText}`,
+        response.status,
+      );
+    }
+
+    if (!response.ok) {
+      throw new CAICError(
+        "UPSTREAM_UNAVAILABLE",
+        `Failed to fetch ${label}: ${response.status} ${response.statusText}`,
+        false,
+      );
+    }
+
+    try {
+      return await response.json();
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "TimeoutError") {
+        throw new CAICTimeoutError(
+          `Timed out reading ${label} after ${this.timeoutMs}ms`,
+          { cause: error },
+        );
       }
+      throw new CAICMalformedPayloadError(`Invalid JSON in ${label} response`, {
+        cause: error,
+      });
     }
+  }
 
-    return false;
+  /**
+   * Full-jitter exponential backoff: random delay in [0, base * 2^attempt)
+   */
+  private backoffDelay(attempt: number): number {
+    return Math.random() * this.retryBaseDelayMs * 2 ** attempt;
   }
 
+  // ============================================================
+  // Caching helpers
+  // ============================================================
+
   /**
-   * Find the area containing the given coordinates
-   * @param lat - Latitude of the point
-   * @param lng - Longitude of the point
-   * @param featureCollection - GeoJSON FeatureCollection to search
+   * Read `key` from the cache, falling back to `load` on a miss.
+   * Concurrent misses for the same key share a single upstream request.
+   * @param key - Cache key, scoped to the base URL so clients pointed at
+   * different proxies can share a cache without mixing up responses
+   * @param load - Fetches the value from the upstream API
+   * @param ttl - Computes the TTL in seconds for a freshly loaded value
    */
-  private findAreaContainingPoint(
-    lat: number,
-    lng: number,
-    featureCollection: FeatureCollection,
-  ): Feature | null {
-    for (const feature of featureCollection.features) {
-      // Quick bbox rejection
-      if (!this.isPointInBbox(lat, lng, feature.bbox)) {
-        continue;
-      }
+  private async cached<T>(
+    key: string,
+    load: () => Promise<T>,
+    ttl: (value: T) => number,
+  ): Promise<T> {
+    const scopedKey = `${this.baseUrl}|${key}`;
+    const pending = this.inflight.get(scopedKey);
+    if (pending) {
+      return pending as Promise<T>;
+    }
 
-      // Full polygon check
-      if (this.isPointInMultiPolygon(lat, lng, feature.geometry.coordinates)) {
-        return feature;
+    const request = (async () => {
+      const hit = await this.cache?.get<T>(scopedKey);
+      if (hit !== undefined) {
+        return hit;
       }
-    }
 
-    return null;
+      const value = await load();
+      await this.cache?.put(scopedKey, value, ttl(value));
+      return value;
+    })();
+
+    this.inflight.set(scopedKey, request);
+    try {
+      return await request;
+    } finally {
+      this.inflight.delete(scopedKey);
+    }
   }
 
   /**
@@ -388,83 +616,54 @@ class CAICClient {
 }
 
 /**
- * Create a new CAIC API client instance
+ * Pick the most recently issued product, or null for an empty list
  */
-export function createCAICClient(): CAICClient {
-  return new CAICClient();
+function latestIssued<P extends { issueDateTime: string }>(
+  products: P[],
+): P | null {
+  let latest: P | null = null;
+  for (const product of products) {
+    if (
+      !latest ||
+      Date.parse(product.issueDateTime) > Date.parse(latest.issueDateTime)
+    ) {
+      latest = product;
+    }
+  }
+  return latest;
 }
 
-// ============================================================
-// Formatter constants and helpers
-// ============================================================
-
-const elevationLabels: Record<string, string> = {
-  alp: "Alpine",
-  tln: "Treeline",
-  btl: "Below Treeline",
-};
-
-const aspectLabels: Record<string, string> = {
-  n: "N",
-  ne: "NE",
-  e: "E",
-  se: "SE",
-  s: "S",
-  sw: "SW",
-  w: "W",
-  nw: "NW",
-};
-
-const problemTypeLabels: Record<string, string> = {
-  persistentSlab: "Persistent Slab",
-  windSlab: "Wind Slab",
-  looseWet: "Loose Wet",
-  looseDry: "Loose Dry",
-  stormSlab: "Storm Slab",
-  wetSlab: "Wet Slab",
-  cornice: "Cornice",
-  glide: "Glide",
-  deepPersistentSlab: "Deep Persistent Slab",
-};
-
-const dangerLabels: Record<string, string> = {
-  low: "Low",
-  moderate: "Moderate",
-  considerable: "Considerable",
-  high: "High",
-  extreme: "Extreme",
-};
-
-const specialProductTypeLabels: Record<string, string> = {
-  warning: "Warning",
-  specialAdvisory: "Special Advisory",
-};
-
 /**
- * Parse aspect/elevation strings like "n_alp" into readable format
- * Groups by elevation and lists aspects
+ * Default schema warning sink: one structured log line per dropped item,
+ * without the quarantined payload to keep logs small
  */
-function formatAspectElevations(aspectElevations: string[]): string {
-  const byElevation: Record<string, string[]> = {};
-
-  for (const ae of aspectElevations) {
-    const [aspect, elevation] = ae.split("_");
-    if (!aspect || !elevation) continue;
-
-    const elevLabel = elevationLabels[elevation] ?? elevation;
-    const aspectLabel = aspectLabels[aspect] ?? aspect.toUpperCase();
+function logSchemaWarning({ quarantined, ...warning }: SchemaDriftWarning) {
+  console.warn(JSON.stringify(warning));
+}
 
-    if (!byElevation[elevLabel]) {
-      byElevation[elevLabel] = [];
-    }
-    byElevation[elevLabel].push(aspectLabel);
-  }
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
 
-  return Object.entries(byElevation)
-    .map(([elev, aspects]) => `${aspects.join(", ")} @ ${elev}`)
-    .join("; ");
+/**
+ * Create a new CAIC API client instance
+ *
+ * @param options - Optional client configuration: endpoint, fetch, clock, cache
+ *
+ * @example
+ * ```ts
+ * // Offline client serving synthetic fixture responses
+ * const client = createCAICClient({ fetch: createFixtureFetch() });
+ * ```
+ */
+export function createCAICClient(options?: CAICClientOptions): CAICClient {
+  return new CAICClient(options);
 }
 
+// ============================================================
+// Formatter constants and helpers
+// ============================================================
+
 /**
  * Format day summaries (avalanche, snowpack, weather)
  */
@@ -654,6 +853,61 @@ export type {
   ApiResponse,
   ProductType,
   ProductWithArea,
+  ZoneMatch,
+  ForecastLookup,
+  CAICClientOptions,
+  SchemaDriftWarning,
 };
 
+export type { CAICCache } from "./cache";
+export { ZoneIndex } from "./spatial-index";
+export { MOUNTAIN_TIME_ZONE, parseForecastInstant } from "./time";
+export type { Aspect, ElevationBand } from "./labels";
+export {
+  aspectFromBearing,
+  aspectLabels,
+  aspects,
+  dangerLabels,
+  dangerRank,
+  elevationLabels,
+  formatAspectElevations,
+  problemTypeLabels,
+} from "./labels";
+export type { SlopeDay } from "./slope";
+export { matchSlopeProblems } from "./slope";
+export type {
+  AvalancheProblemChange,
+  DangerRatingChange,
+  ForecastChangeSet,
+  SummaryChange,
+} from "./diff";
+export { diffForecasts, formatForecastDiff } from "./diff";
+export type { ForecastDaySummary, ForecastSummary } from "./summary";
+export { highestDanger, summarizeForecast } from "./summary";
+export type { ZoneEntry, ZoneSearchResult } from "./zones";
+export { buildZoneCatalog, normalizeName, ZoneCatalog } from "./zones";
+export {
+  distanceToMultiPolygonKm,
+  haversineKm,
+  isPointInBbox,
+  isPointInMultiPolygon,
+  isPointInRing,
+} from "./geo";
+export type { CAICErrorCode } from "./errors";
+export {
+  AvalancheForecastSchema,
+  FeatureCollectionSchema,
+  ProductSchema,
+  RegionalDiscussionSchema,
+  SpecialProductSchema,
+} from "./schema";
+export {
+  CAICError,
+  CAICMalformedPayloadError,
+  CAICRateLimitError,
+  CAICTimeoutError,
+  CAICUnavailableError,
+} from "./errors";
+export { createCloudflareCache, createMemoryCache } from "./cache";
+
 export { CAICClient };
@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { aspectFromBearing } from "./labels";
+
+describe("aspectFromBearing", () => {
+  it("rounds to the nearest of the eight aspects", () => {
+    expect([0, 22, 23, 180, 337, 338].map(aspectFromBearing)).toEqual([
+      "n",
+      "n",
+      "ne",
+      "s",
+      "nw",
+      "n",
+    ]);
+  });
+
+  it("wraps bearings outside 0–360", () => {
+    expect(aspectFromBearing(-90)).toBe("w");
+    expect(aspectFromBearing(450)).toBe("e");
+  });
+});
@@ -0,0 +1,109 @@
+/** Elevation band keys used in danger ratings and aspect/elevation strings */
+type ElevationBand = "alp" | "tln" | "btl";
+
+/** Compass aspect keys used in aspect/elevation strings */
+type Aspect = "n" | "ne" | "e" | "se" | "s" | "sw" | "w" | "nw";
+
+/** Aspects clockwise from north, 45° apart */
+const aspects: Aspect[] = ["n", "ne", "e", "se", "s", "sw", "w", "nw"];
+
+const elevationLabels: Record<string, string> = {
+  alp: "Alpine",
+  tln: "Treeline",
+  btl: "Below Treeline",
+};
+
+const aspectLabels: Record<string, string> = {
+  n: "N",
+  ne: "NE",
+  e: "E",
+  se: "SE",
+  s: "S",
+  sw: "SW",
+  w: "W",
+  nw: "NW",
+};
+
+const problemTypeLabels: Record<string, string> = {
+  persistentSlab: "Persistent Slab",
+  windSlab: "Wind Slab",
+  looseWet: "Loose Wet",
+  looseDry: "Loose Dry",
+  stormSlab: "Storm Slab",
+  wetSlab: "Wet Slab",
+  cornice: "Cornice",
+  glide: "Glide",
+  deepPersistentSlab: "Deep Persistent Slab",
+};
+
+const dangerLabels: Record<string, string> = {
+  low: "Low",
+  moderate: "Moderate",
+  considerable: "Considerable",
+  high: "High",
+  extreme: "Extreme",
+};
+
+const specialProductTypeLabels: Record<string, string> = {
+  warning: "Warning",
+  specialAdvisory: "Special Advisory",
+};
+
+/**
+ * Parse aspect/elevation strings like "n_alp" into readable format
+ * Groups by elevation and lists aspects
+ */
+function formatAspectElevations(aspectElevations: string[]): string {
+  const byElevation: Record<string, string[]> = {};
+
+  for (const ae of aspectElevations) {
+    const [aspect, elevation] = ae.split("_");
+    if (!aspect || !elevation) continue;
+
+    const elevLabel = elevationLabels[elevation] ?? elevation;
+    const aspectLabel = aspectLabels[aspect] ?? aspect.toUpperCase();
+
+    if (!byElevation[elevLabel]) {
+      byElevation[elevLabel] = [];
+    }
+    byElevation[elevLabel].push(aspectLabel);
+  }
+
+  return Object.entries(byElevation)
+    .map(([elev, aspects]) => `${aspects.join(", ")} @ ${elev}`)
+    .join("; ");
+}
+
+/**
+ * The aspect a compass bearing falls in
+ * @param bearing - Degrees clockwise from north
+ */
+function aspectFromBearing(bearing: number): Aspect {
+  const normalized = ((bearing % 360) + 360) % 360;
+  return aspects[Math.round(normalized / 45) % aspects.length];
+}
+
+/** Danger levels from least to most severe; `noRating` ranks below all */
+const dangerLevels = ["low", "moderate", "considerable", "high", "extreme"];
+
+/**
+ * Rank a danger rating for comparisons: 0 for `noRating`/unknown, 1 (Low)
+ * through 5 (Extreme)
+ */
+function dangerRank(rating: string): number {
+  return dangerLevels.indexOf(rating) + 1;
+}
+
+export {
+  aspectFromBearing,
+  aspectLabels,
+  aspects,
+  dangerLabels,
+  dangerLevels,
+  dangerRank,
+  elevationLabels,
+  formatAspectElevations,
+  problemTypeLabels,
+  specialProductTypeLabels,
+};
+export type { Aspect, ElevationBand };
@@ -0,0 +1,36 @@
+import {
+  type CAICClient,
+  createCAICClient,
+  createCloudflareCache,
+  createMemoryCache,
+} from "./index";
+
+// Module scope so the dev caches survive across requests in the same isolate.
+// Fixture responses share the live base URL, so they get a cache of their own.
+const devCache = createMemoryCache();
+const fixtureCache = createMemoryCache();
+
+/**
+ * Create a CAIC client configured for the current Worker environment.
+ *
+ * - `CAIC_API_BASE_URL` overrides the Avid proxy endpoint.
+ * - `CAIC_USE_FIXTURES=true` (dev only) serves synthetic fixture responses instead of
+ *   calling the network.
+ *
+ * @param env - Worker environment bindings
+ */
+export async function createCAICClientForEnv(env: Env): Promise<CAICClient> {
+  const useFixtures = import.meta.env.DEV && env.CAIC_USE_FIXTURES === "true";
+
+  return createCAICClient({
+    baseUrl: env.CAIC_API_BASE_URL || undefined,
+    fetch: useFixtures
+      ? (await import("./fixtures")).createFixtureFetch()
+      : undefined,
+    cache: useFixtures
+      ? fixtureCache
+      : import.meta.env.DEV
+        ? devCache
+        : createCloudflareCache(await caches.open("caic-api")),
+  });
+}
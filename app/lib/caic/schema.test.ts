@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import { CAICMalformedPayloadError } from "./errors";
+import areas from "./fixtures/areas.avalancheforecast.json";
+import products from "./fixtures/products.json";
+import { parseFeatureCollection, parseProducts } from "./schema";
+
+const base = {
+  publicName: "Statewide",
+  polygons: "area-1",
+  areaId: "area-1",
+  forecaster: "Forecaster",
+  issueDateTime: "2026-01-12T22:00:00Z",
+  expiryDateTime: "2026-01-13T22:00:00Z",
+  isTranslated: false,
+};
+
+const discussion = {
+  ...base,
+  id: "discussion-1",
+  type: "regionaldiscussion",
+  title: "Wind loading through the weekend",
+  message: "<p>Strong northwest winds.</p>",
+  communications: { headline: "", sms: "" },
+  media: { Images: [] },
+};
+
+const forecast = {
+  ...base,
+  id: "forecast-1",
+  type: "avalancheforecast",
+  publicName: "Front Range",
+  weatherSummary: { days: [] },
+  snowpackSummary: { days: [] },
+  avalancheSummary: { days: [] },
+  terrainAndTravelAdvice: { days: [] },
+  communication: { headline: "", sms: "" },
+  media: { Images: [] },
+  dangerRatings: {
+    days: [
+      {
+        position: 1,
+        alp: "considerable",
+        tln: "moderate",
+        btl: "low",
+        date: "2026-01-12T00:00:00Z",
+      },
+    ],
+  },
+  avalancheProblems: { days: [[]] },
+};
+
+const feature = {
+  id: "f1",
+  type: "Feature",
+  bbox: [0, 0, 1, 1],
+  geometry: {
+    type: "MultiPolygon",
+    coordinates: [
+      [
+        [
+          [0, 0],
+          [1, 0],
+          [1, 1],
+          [0, 0],
+        ],
+      ],
+    ],
+  },
+  properties: { centroid: [0.5, 0.5], id: "area-1" },
+};
+
+describe("parseProducts", () => {
+  it("accepts every known product type", () => {
+    const { data, warnings } = parseProducts([discussion, forecast]);
+
+    expect(warnings).toEqual([]);
+    expect(data).toEqual([discussion, forecast]);
+  });
+
+  it("accepts every fixture product", () => {
+    const { data, warnings } = parseProducts(products);
+
+    expect(warnings).toEqual([]);
+    expect(data).toHaveLength(products.length);
+  });
+
+  it("falls back to defaults for fields answers never use", () => {
+    const { data, warnings } = parseProducts([
+      { ...discussion, media: null, communications: 3, isTranslated: "no" },
+    ]);
+
+    expect(warnings).toEqual([]);
+    expect(data[0]).toMatchObject({
+      media: { Images: [] },
+      communications: { headline: "", sms: "" },
+      isTranslated: false,
+    });
+  });
+
+  it("quarantines items that drifted from the schema", () => {
+    const drifted = { ...forecast, dangerRatings: "considerable" };
+    const unknownType = { id: "x", type: "snowpackobservation" };
+
+    const { data, warnings } = parseProducts([
+      drifted,
+      discussion,
+      unknownType,
+    ]);
+
+    expect(data.map((p) => p.id)).toEqual([discussion.id]);
+    expect(warnings).toHaveLength(2);
+    expect(warnings[0]).toMatchObject({
+      kind: "schema-drift",
+      resource: "products",
+      id: forecast.id,
+      itemType: "avalancheforecast",
+      quarantined: drifted,
+    });
+    expect(warnings[0].issues.map((issue) => issue.path)).toContain(
+      "dangerRatings",
+    );
+    expect(warnings[1]).toMatchObject({
+      id: "x",
+      itemType: "snowpackobservation",
+    });
+  });
+
+  it("reports items that are not objects without an id", () => {
+    const { warnings } = parseProducts([null, "product"]);
+
+    expect(warnings.map(({ id, itemType }) => ({ id, itemType }))).toEqual([
+      { id: undefined, itemType: undefined },
+      { id: undefined, itemType: undefined },
+    ]);
+  });
+
+  it("throws when the payload is not an array", () => {
+    expect(() => parseProducts({ products: [] })).toThrow(
+      CAICMalformedPayloadError,
+    );
+  });
+});
+
+describe("parseFeatureCollection", () => {
+  it("drops invalid features and keeps the rest", () => {
+    const { data, warnings } = parseFeatureCollection({
+      type: "FeatureCollection",
+      features: [{ ...feature, id: "broken", geometry: null }, feature],
+    });
+
+    expect(data.features).toEqual([feature]);
+    expect(warnings).toMatchObject([{ resource: "areas", id: "broken" }]);
+  });
+
+  it("accepts every fixture zone", () => {
+    const { data, warnings } = parseFeatureCollection(areas);
+
+    expect(warnings).toEqual([]);
+    expect(data.features).toHaveLength(areas.features.length);
+  });
+
+  it("throws when the payload is not a FeatureCollection", () => {
+    expect(() => parseFeatureCollection([])).toThrow(CAICMalformedPayloadError);
+  });
+});
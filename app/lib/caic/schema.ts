@@ -0,0 +1,299 @@
+import { z } from "zod";
+import { CAICMalformedPayloadError } from "./errors";
+
+// ============================================================
+// Area GeoJSON
+// ============================================================
+
+/**
+ * GeoJSON Feature representing a geographic forecast area
+ */
+const FeatureSchema = z.object({
+  /** Unique identifier for the geographic feature */
+  id: z.string(),
+  /** GeoJSON type specification, always "Feature" */
+  type: z.literal("Feature"),
+  /** Bounding box in format [minLongitude, minLatitude, maxLongitude, maxLatitude] */
+  bbox: z.tuple([z.number(), z.number(), z.number(), z.number()]),
+  /** Geometry specification for the area */
+  geometry: z.object({
+    /** Type of geometry, always MultiPolygon for forecast areas */
+    type: z.literal("MultiPolygon"),
+    /** Nested array structure: [polygons][rings][points][coordinates] */
+    coordinates: z.array(z.array(z.array(z.array(z.number())))),
+  }),
+  /** Additional properties of the feature */
+  properties: z.object({
+    /** Center point coordinates [longitude, latitude] */
+    centroid: z.array(z.number()),
+    /** Area identifier matching areaId in forecasts */
+    id: z.string(),
+  }),
+});
+
+/**
+ * GeoJSON FeatureCollection containing multiple forecast areas
+ */
+const FeatureCollectionSchema = z.object({
+  /** Array of individual geographic features */
+  features: z.array(FeatureSchema),
+  /** GeoJSON type specification, always "FeatureCollection" */
+  type: z.literal("FeatureCollection"),
+});
+
+// ============================================================
+// Products
+// ============================================================
+
+const ImageSchema = z.object({
+  id: z.string(),
+  url: z.string(),
+  width: z.number(),
+  height: z.number(),
+  credit: z.string().optional(),
+  caption: z.string(),
+  tag: z.string(),
+  altText: z.string().optional(),
+  dateTaken: z.string().nullable().optional(),
+  isArchived: z.boolean(),
+});
+
+// Media and communications are never used for answers, so malformed values
+// fall back to empty ones instead of discarding the whole product.
+const MediaSchema = z
+  .object({ Images: z.array(ImageSchema) })
+  .catch({ Images: [] });
+
+const CommunicationsSchema = z
+  .object({ headline: z.string(), sms: z.string() })
+  .catch({ headline: "", sms: "" });
+
+const DaySummarySchema = z.object({ date: z.string(), content: z.string() });
+
+/** Fields shared by every product type */
+const productBase = {
+  id: z.string(),
+  publicName: z.string(),
+  polygons: z.string(),
+  areaId: z.string(),
+  forecaster: z.string(),
+  issueDateTime: z.string(),
+  expiryDateTime: z.string(),
+  isTranslated: z.boolean().catch(false),
+};
+
+const RegionalDiscussionSchema = z.object({
+  ...productBase,
+  title: z.string(),
+  type: z.literal("regionaldiscussion"),
+  message: z.string(),
+  communications: CommunicationsSchema,
+  media: MediaSchema,
+});
+
+const AvalancheProblemSchema = z.object({
+  type: z.string(),
+  aspectElevations: z.array(z.string()),
+  likelihood: z.string(),
+  expectedSize: z.object({ min: z.string(), max: z.string() }),
+  comment: z.string().optional(),
+});
+
+const DangerRatingSchema = z.object({
+  position: z.number(),
+  alp: z.string(),
+  tln: z.string(),
+  btl: z.string(),
+  date: z.string(),
+});
+
+const AvalancheForecastSchema = z.object({
+  ...productBase,
+  type: z.literal("avalancheforecast"),
+  weatherSummary: z.object({ days: z.array(DaySummarySchema) }),
+  snowpackSummary: z.object({ days: z.array(DaySummarySchema) }),
+  avalancheSummary: z.object({ days: z.array(DaySummarySchema) }),
+  terrainAndTravelAdvice: z.object({
+    days: z.array(z.array(DaySummarySchema)),
+  }),
+  communication: CommunicationsSchema,
+  media: MediaSchema,
+  dangerRatings: z.object({ days: z.array(DangerRatingSchema) }),
+  avalancheProblems: z.object({
+    days: z.array(z.array(AvalancheProblemSchema)),
+  }),
+});
+
+const SpecialProductSchema = z.object({
+  ...productBase,
+  title: z.string(),
+  type: z.literal("specialproduct"),
+  specialProductType: z.enum(["warning", "specialAdvisory"]),
+  startDate: z.string().optional(),
+  message: z.string().optional(),
+  communications: CommunicationsSchema,
+  media: MediaSchema,
+});
+
+const ProductSchema = z.discriminatedUnion("type", [
+  RegionalDiscussionSchema,
+  AvalancheForecastSchema,
+  SpecialProductSchema,
+]);
+
+type Feature = z.infer<typeof FeatureSchema>;
+type FeatureCollection = z.infer<typeof FeatureCollectionSchema>;
+type Image = z.infer<typeof ImageSchema>;
+type Media = z.infer<typeof MediaSchema>;
+type Communications = z.infer<typeof CommunicationsSchema>;
+type RegionalDiscussion = z.infer<typeof RegionalDiscussionSchema>;
+type AvalancheProblem = z.infer<typeof AvalancheProblemSchema>;
+type DangerRating = z.infer<typeof DangerRatingSchema>;
+type AvalancheForecast = z.infer<typeof AvalancheForecastSchema>;
+type SpecialProduct = z.infer<typeof SpecialProductSchema>;
+type ApiResponse = z.infer<typeof ProductSchema>[];
+
+// ============================================================
+// Lenient parsing
+// ============================================================
+
+/**
+ * Reported when an upstream item does not match its schema. The item is
+ * dropped from the parsed result and quarantined here for inspection.
+ */
+interface SchemaDriftWarning {
+  kind: "schema-drift";
+  /** Which payload the item came from */
+  resource: "products" | "areas";
+  /** The item's `id`, when it has one */
+  id: string | undefined;
+  /** The item's `type` field, when it has one */
+  itemType: string | undefined;
+  /** Flattened validation issues */
+  issues: { path: string; message: string }[];
+  /** The original, unparsed item */
+  quarantined: unknown;
+}
+
+/**
+ * Result of leniently parsing a payload: the valid items plus warnings for
+ * every item that was dropped
+ */
+interface ParseResult<T> {
+  data: T;
+  warnings: SchemaDriftWarning[];
+}
+
+function readStringField(item: unknown, field: string): string | undefined {
+  if (typeof item !== "object" || item === null) return undefined;
+  const value = (item as Record<string, unknown>)[field];
+  return typeof value === "string" ? value : undefined;
+}
+
+function toWarning(
+  resource: SchemaDriftWarning["resource"],
+  item: unknown,
+  issues: z.core.$ZodIssue[],
+): SchemaDriftWarning {
+  return {
+    kind: "schema-drift",
+    resource,
+    id: readStringField(item, "id"),
+    itemType: readStringField(item, "type"),
+    issues: issues.map((issue) => ({
+      path: issue.path.map(String).join("."),
+      message: issue.message,
+    })),
+    quarantined: item,
+  };
+}
+
+/**
+ * Validate a `/products/all` payload item by item
+ *
+ * @param raw - Parsed JSON body
+ * @throws {CAICMalformedPayloadError} If the payload is not an array
+ */
+function parseProducts(raw: unknown): ParseResult<ApiResponse> {
+  if (!Array.isArray(raw)) {
+    throw new CAICMalformedPayloadError("Products payload is not an array");
+  }
+
+  const data: ApiResponse = [];
+  const warnings: SchemaDriftWarning[] = [];
+
+  for (const item of raw) {
+    const result = ProductSchema.safeParse(item);
+    if (result.success) {
+      data.push(result.data);
+    } else {
+      warnings.push(toWarning("products", item, result.error.issues));
+    }
+  }
+
+  return { data, warnings };
+}
+
+/**
+ * Validate a `/products/all/area` payload feature by feature
+ *
+ * @param raw - Parsed JSON body
+ * @throws {CAICMalformedPayloadError} If the payload is not a FeatureCollection
+ */
+function parseFeatureCollection(raw: unknown): ParseResult<FeatureCollection> {
+  const envelope = z
+    .object({
+      type: z.literal("FeatureCollection"),
+      features: z.array(z.unknown()),
+    })
+    .safeParse(raw);
+
+  if (!envelope.success) {
+    throw new CAICMalformedPayloadError(
+      "Areas payload is not a GeoJSON FeatureCollection",
+      { cause: envelope.error },
+    );
+  }
+
+  const features: Feature[] = [];
+  const warnings: SchemaDriftWarning[] = [];
+
+  for (const item of envelope.data.features) {
+    const result = FeatureSchema.safeParse(item);
+    if (result.success) {
+      features.push(result.data);
+    } else {
+      warnings.push(toWarning("areas", item, result.error.issues));
+    }
+  }
+
+  return { data: { type: "FeatureCollection", features }, warnings };
+}
+
+export {
+  AvalancheForecastSchema,
+  AvalancheProblemSchema,
+  DangerRatingSchema,
+  FeatureCollectionSchema,
+  FeatureSchema,
+  ProductSchema,
+  RegionalDiscussionSchema,
+  SpecialProductSchema,
+  parseFeatureCollection,
+  parseProducts,
+};
+export type {
+  ApiResponse,
+  AvalancheForecast,
+  AvalancheProblem,
+  Communications,
+  DangerRating,
+  Feature,
+  FeatureCollection,
+  Image,
+  Media,
+  ParseResult,
+  RegionalDiscussion,
+  SchemaDriftWarning,
+  SpecialProduct,
+};
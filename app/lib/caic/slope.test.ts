@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import products from "./fixtures/products.json";
+import { type AvalancheForecast, parseProducts } from "./schema";
+import { matchSlopeProblems } from "./slope";
+
+const aspen = parseProducts(products).data.find(
+  (p): p is AvalancheForecast =>
+    p.type === "avalancheforecast" && p.publicName === "Aspen",
+)!;
+
+describe("matchSlopeProblems", () => {
+  it("splits each day's problems by the slope's aspect and band", () => {
+    const days = matchSlopeProblems(aspen, "e", "alp");
+
+    expect(
+      days.map(({ date, rating, applies, elsewhere }) => ({
+        date,
+        rating,
+        applies: applies.map((p) => p.type),
+        elsewhere: elsewhere.map((p) => p.type),
+      })),
+    ).toEqual([
+      {
+        date: "2026-01-12T00:00:00Z",
+        rating: "high",
+        applies: ["windSlab"],
+        elsewhere: ["persistentSlab"],
+      },
+      {
+        date: "2026-01-13T00:00:00Z",
+        rating: "considerable",
+        applies: ["windSlab"],
+        elsewhere: ["persistentSlab"],
+      },
+    ]);
+  });
+
+  it("matches nothing on aspects no problem lists", () => {
+    const [day] = matchSlopeProblems(aspen, "s", "btl");
+
+    expect(day.rating).toBe("moderate");
+    expect(day.applies).toEqual([]);
+    expect(day.elsewhere).toHaveLength(2);
+  });
+});
@@ -0,0 +1,50 @@
+import type { Aspect, ElevationBand } from "./labels";
+import type { AvalancheForecast, AvalancheProblem } from "./schema";
+
+/**
+ * How a forecast day's avalanche problems relate to one slope
+ */
+interface SlopeDay {
+  date: string;
+  /** Danger rating for the slope's elevation band */
+  rating: string;
+  /** Problems whose aspect/elevation matrix includes the slope */
+  applies: AvalancheProblem[];
+  /** Problems forecast elsewhere in the zone */
+  elsewhere: AvalancheProblem[];
+}
+
+/**
+ * Check each forecast day's avalanche problems against a slope's aspect and
+ * elevation band, using the problems' `aspectElevations` matrix
+ * (strings like `ne_tln`)
+ *
+ * @param forecast - Zone forecast the slope is in
+ * @param aspect - Direction the slope faces
+ * @param band - Elevation band the slope is in
+ * @returns One entry per rated forecast day
+ */
+function matchSlopeProblems(
+  forecast: AvalancheForecast,
+  aspect: Aspect,
+  band: ElevationBand,
+): SlopeDay[] {
+  const key = `${aspect}_${band}`;
+
+  return forecast.dangerRatings.days.flatMap((day, index): SlopeDay[] => {
+    if (day[band] === "noRating") return [];
+
+    const problems = forecast.avalancheProblems.days[index] ?? [];
+    return [
+      {
+        date: day.date,
+        rating: day[band],
+        applies: problems.filter((p) => p.aspectElevations.includes(key)),
+        elsewhere: problems.filter((p) => !p.aspectElevations.includes(key)),
+      },
+    ];
+  });
+}
+
+export { matchSlopeProblems };
+export type { SlopeDay };
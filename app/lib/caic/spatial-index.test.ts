@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import type { Feature, FeatureCollection } from "./schema";
+import { ZoneIndex } from "./spatial-index";
+
+/** An axis-aligned zone, optionally with holes */
+function zone(
+  id: string,
+  [minLng, minLat, maxLng, maxLat]: [number, number, number, number],
+  holes: number[][][] = [],
+): Feature {
+  return {
+    id,
+    type: "Feature",
+    bbox: [minLng, minLat, maxLng, maxLat],
+    geometry: {
+      type: "MultiPolygon",
+      coordinates: [
+        [
+          [
+            [minLng, minLat],
+            [maxLng, minLat],
+            [maxLng, maxLat],
+            [minLng, maxLat],
+            [minLng, minLat],
+          ],
+          ...holes,
+        ],
+      ],
+    },
+    properties: {
+      centroid: [(minLng + maxLng) / 2, (minLat + maxLat) / 2],
+      id,
+    },
+  };
+}
+
+// Two neighbouring zones, the eastern one with a hole in the middle
+const zones: FeatureCollection = {
+  type: "FeatureCollection",
+  features: [
+    zone("west", [-106.5, 39, -106, 39.5]),
+    zone(
+      "east",
+      [-106, 39, -105.5, 39.5],
+      [
+        [
+          [-105.8, 39.2],
+          [-105.7, 39.2],
+          [-105.7, 39.3],
+          [-105.8, 39.3],
+          [-105.8, 39.2],
+        ],
+      ],
+    ),
+  ],
+};
+const index = new ZoneIndex(zones);
+
+describe("ZoneIndex.locate", () => {
+  it("finds the zone containing a point", () => {
+    expect(index.locate(39.25, -106.25)?.id).toBe("west");
+    expect(index.locate(39.1, -105.6)?.id).toBe("east");
+  });
+
+  it("returns null outside every zone", () => {
+    expect(index.locate(39.25, -105.4)).toBeNull();
+    expect(index.locate(38.9, -106.25)).toBeNull();
+  });
+
+  it("excludes points inside a hole", () => {
+    expect(index.locate(39.25, -105.75)).toBeNull();
+  });
+
+  it("agrees with any cell size", () => {
+    const coarse = new ZoneIndex(zones, 1);
+
+    expect(coarse.locate(39.25, -106.25)?.id).toBe("west");
+    expect(coarse.locate(39.25, -105.75)).toBeNull();
+  });
+});
+
+describe("ZoneIndex.nearest", () => {
+  it("matches a point just outside a zone", () => {
+    const match = index.nearest(39.25, -105.45, 20);
+
+    expect(match?.area.id).toBe("east");
+    expect(match?.distanceKm).toBeCloseTo(4.3, 1);
+  });
+
+  it("measures to the hole's edge from inside it", () => {
+    const match = index.nearest(39.25, -105.78, 20);
+
+    expect(match?.area.id).toBe("east");
+    expect(match?.distanceKm).toBeCloseTo(1.72, 1);
+  });
+
+  it("returns null beyond the search radius", () => {
+    expect(index.nearest(39.25, -105, 20)).toBeNull();
+    expect(index.nearest(38.9, -106.25, 5)).toBeNull();
+  });
+
+  it("stays bounded near the poles", () => {
+    expect(index.nearest(90, -105.7, 20)).toBeNull();
+    expect(index.nearest(-89.99, 0, 5_000)).toBeNull();
+  });
+});
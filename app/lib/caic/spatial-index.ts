@@ -0,0 +1,211 @@
+import { distanceToSegmentKm, isPointInBbox } from "./geo";
+import type { Feature, FeatureCollection } from "./schema";
+
+/**
+ * A single polygon ring edge, tagged with the ring it belongs to
+ */
+interface Segment {
+  /** Index of the feature in the collection */
+  feature: number;
+  /** Index of the polygon within the feature's MultiPolygon */
+  polygon: number;
+  /** Index of the ring within the polygon (0 is the outer ring) */
+  ring: number;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+/**
+ * Grid index over the ring segments of a FeatureCollection.
+ *
+ * Point-in-polygon queries only ray cast against the segments in the point's
+ * latitude row, and nearest-zone queries only measure segments in the grid
+ * cells around the point, instead of scanning every ring of every feature.
+ *
+ * Build once per FeatureCollection and reuse it across queries.
+ */
+class ZoneIndex {
+  private readonly features: Feature[];
+  private readonly cellSize: number;
+  /** Segments by latitude row, for ray casting */
+  private readonly rows = new Map<number, Segment[]>();
+  /** Segments by `row:col` cell, for distance searches */
+  private readonly cells = new Map<string, Segment[]>();
+  /** Rows and columns that hold any segment */
+  private readonly extent = {
+    minRow: Infinity,
+    maxRow: -Infinity,
+    minCol: Infinity,
+    maxCol: -Infinity,
+  };
+
+  /**
+   * @param featureCollection - Zones to index
+   * @param cellSize - Grid cell size in degrees (default: 0.05, roughly 5 km)
+   */
+  constructor(featureCollection: FeatureCollection, cellSize = 0.05) {
+    this.features = featureCollection.features;
+    this.cellSize = cellSize;
+
+    this.features.forEach((feature, featureIndex) => {
+      feature.geometry.coordinates.forEach((polygon, polygonIndex) => {
+        polygon.forEach((ring, ringIndex) => {
+          for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+            this.insert({
+              feature: featureIndex,
+              polygon: polygonIndex,
+              ring: ringIndex,
+              x1: ring[j][0],
+              y1: ring[j][1],
+              x2: ring[i][0],
+              y2: ring[i][1],
+            });
+          }
+        });
+      });
+    });
+  }
+
+  /**
+   * Find the zone containing a point
+   * @param lat - Latitude of the point
+   * @param lng - Longitude of the point
+   */
+  locate(lat: number, lng: number): Feature | null {
+    const segments = this.rows.get(this.rowOf(lat)) ?? [];
+
+    // Crossing parity per ring, keyed by "feature/polygon/ring"
+    const odd = new Set<string>();
+    for (const s of segments) {
+      // Check if the ray from (lng, lat) going right crosses this edge
+      if (
+        s.y2 > lat !== s.y1 > lat &&
+        lng < ((s.x1 - s.x2) * (lat - s.y2)) / (s.y1 - s.y2) + s.x2
+      ) {
+        const key = `${s.feature}/${s.polygon}/${s.ring}`;
+        if (odd.has(key)) odd.delete(key);
+        else odd.add(key);
+      }
+    }
+
+    for (let f = 0; f < this.features.length; f++) {
+      const feature = this.features[f];
+      if (!isPointInBbox(lat, lng, feature.bbox)) continue;
+
+      const polygons = feature.geometry.coordinates;
+      for (let p = 0; p < polygons.length; p++) {
+        // Inside the outer ring and outside every hole
+        if (!odd.has(`${f}/${p}/0`)) continue;
+
+        let inHole = false;
+        for (let r = 1; r < polygons[p].length; r++) {
+          if (odd.has(`${f}/${p}/${r}`)) {
+            inHole = true;
+            break;
+          }
+        }
+
+        if (!inHole) return feature;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Find the zone whose boundary is closest to a point, searching only cells
+   * within `maxDistanceKm`
+   * @param lat - Latitude of the point
+   * @param lng - Longitude of the point
+   * @param maxDistanceKm - Search radius in km
+   */
+  nearest(
+    lat: number,
+    lng: number,
+    maxDistanceKm: number,
+  ): { area: Feature; distanceKm: number } | null {
+    const kmPerDegreeLat = 111.2;
+    const kmPerDegreeLng = kmPerDegreeLat * Math.cos((lat * Math.PI) / 180);
+    const rowRadius = Math.ceil(maxDistanceKm / kmPerDegreeLat / this.cellSize);
+    const colRadius = Math.ceil(maxDistanceKm / kmPerDegreeLng / this.cellSize);
+
+    // Near the poles a degree of longitude shrinks to nothing and the radius
+    // in columns grows without bound, so only scan cells that hold segments
+    const row = this.rowOf(lat);
+    const col = this.colOf(lng);
+    const { minRow, maxRow, minCol, maxCol } = this.extent;
+    const rowFrom = Math.max(row - rowRadius, minRow);
+    const rowTo = Math.min(row + rowRadius, maxRow);
+    const colFrom = Math.max(col - colRadius, minCol);
+    const colTo = Math.min(col + colRadius, maxCol);
+    const seen = new Set<Segment>();
+    let best: { feature: number; distanceKm: number } | null = null;
+
+    for (let r = rowFrom; r <= rowTo; r++) {
+      for (let c = colFrom; c <= colTo; c++) {
+        for (const s of this.cells.get(`${r}:${c}`) ?? []) {
+          if (seen.has(s)) continue;
+          seen.add(s);
+
+          const distanceKm = distanceToSegmentKm(
+            lat,
+            lng,
+            [s.x1, s.y1],
+            [s.x2, s.y2],
+          );
+          if (!best || distanceKm < best.distanceKm) {
+            best = { feature: s.feature, distanceKm };
+          }
+        }
+      }
+    }
+
+    if (!best || best.distanceKm > maxDistanceKm) return null;
+    return { area: this.features[best.feature], distanceKm: best.distanceKm };
+  }
+
+  private rowOf(lat: number): number {
+    return Math.floor(lat / this.cellSize);
+  }
+
+  private colOf(lng: number): number {
+    return Math.floor(lng / this.cellSize);
+  }
+
+  /**
+   * Add a segment to every row and cell its bounding box overlaps
+   */
+  private insert(segment: Segment) {
+    const rowStart = this.rowOf(Math.min(segment.y1, segment.y2));
+    const rowEnd = this.rowOf(Math.max(segment.y1, segment.y2));
+    const colStart = this.colOf(Math.min(segment.x1, segment.x2));
+    const colEnd = this.colOf(Math.max(segment.x1, segment.x2));
+    this.extent.minRow = Math.min(this.extent.minRow, rowStart);
+    this.extent.maxRow = Math.max(this.extent.maxRow, rowEnd);
+    this.extent.minCol = Math.min(this.extent.minCol, colStart);
+    this.extent.maxCol = Math.max(this.extent.maxCol, colEnd);
+
+    for (let r = rowStart; r <= rowEnd; r++) {
+      let row = this.rows.get(r);
+      if (!row) {
+        row = [];
+        this.rows.set(r, row);
+      }
+      row.push(segment);
+
+      for (let c = colStart; c <= colEnd; c++) {
+        const key = `${r}:${c}`;
+        let cell = this.cells.get(key);
+        if (!cell) {
+          cell = [];
+          this.cells.set(key, cell);
+        }
+        cell.push(segment);
+      }
+    }
+  }
+}
+
+export { ZoneIndex };
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import products from "./fixtures/products.json";
+import { type AvalancheForecast, parseProducts } from "./schema";
+import { highestDanger, summarizeForecast } from "./summary";
+
+const aspen = parseProducts(products).data.find(
+  (p): p is AvalancheForecast =>
+    p.type === "avalancheforecast" && p.publicName === "Aspen",
+)!;
+
+describe("highestDanger", () => {
+  it("picks the most severe rating", () => {
+    expect(highestDanger(["moderate", "high", "considerable"])).toBe("high");
+    expect(highestDanger([])).toBe("noRating");
+  });
+});
+
+describe("summarizeForecast", () => {
+  it("keeps rated days with their highest danger and problems", () => {
+    const summary = summarizeForecast(aspen);
+
+    expect(summary).toMatchObject({
+      publicName: "Aspen",
+      areaId: aspen.areaId,
+      issueDateTime: "2026-01-12T23:30:00Z",
+    });
+    expect(
+      summary.days.map(({ date, highest }) => ({ date, highest })),
+    ).toEqual([
+      { date: "2026-01-12T00:00:00Z", highest: "high" },
+      { date: "2026-01-13T00:00:00Z", highest: "considerable" },
+    ]);
+    expect(summary.days[0].problems.map((p) => p.type)).toEqual([
+      "windSlab",
+      "persistentSlab",
+    ]);
+  });
+});
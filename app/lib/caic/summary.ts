@@ -0,0 +1,76 @@
+import { dangerRank, type ElevationBand } from "./labels";
+import type { AvalancheForecast, AvalancheProblem } from "./schema";
+
+/**
+ * Danger ratings and problems for one forecast day
+ */
+interface ForecastDaySummary {
+  date: string;
+  alp: string;
+  tln: string;
+  btl: string;
+  /** Most severe rating across the three bands */
+  highest: string;
+  problems: Pick<AvalancheProblem, "type" | "likelihood" | "expectedSize">[];
+}
+
+/**
+ * Compact, structured digest of an avalanche forecast for tools that cover
+ * several zones at once
+ */
+interface ForecastSummary {
+  publicName: string;
+  areaId: string;
+  issueDateTime: string;
+  expiryDateTime: string;
+  /** Rated days only; days with `noRating` in every band are dropped */
+  days: ForecastDaySummary[];
+}
+
+const elevationBands: ElevationBand[] = ["alp", "tln", "btl"];
+
+/**
+ * Most severe of a set of danger ratings
+ */
+function highestDanger(ratings: string[]): string {
+  return ratings.reduce(
+    (highest, rating) =>
+      dangerRank(rating) > dangerRank(highest) ? rating : highest,
+    "noRating",
+  );
+}
+
+/**
+ * Reduce a forecast to its danger ratings and problem types per day
+ *
+ * @param forecast - The forecast to summarize
+ */
+function summarizeForecast(forecast: AvalancheForecast): ForecastSummary {
+  const days = forecast.dangerRatings.days
+    .map((day, index): ForecastDaySummary => ({
+      date: day.date,
+      alp: day.alp,
+      tln: day.tln,
+      btl: day.btl,
+      highest: highestDanger(elevationBands.map((band) => day[band])),
+      problems: (forecast.avalancheProblems.days[index] ?? []).map(
+        ({ type, likelihood, expectedSize }) => ({
+          type,
+          likelihood,
+          expectedSize,
+        }),
+      ),
+    }))
+    .filter((day) => day.highest !== "noRating");
+
+  return {
+    publicName: forecast.publicName,
+    areaId: forecast.areaId,
+    issueDateTime: forecast.issueDateTime,
+    expiryDateTime: forecast.expiryDateTime,
+    days,
+  };
+}
+
+export { highestDanger, summarizeForecast };
+export type { ForecastDaySummary, ForecastSummary };
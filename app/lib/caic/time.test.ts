@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { mountainOffsetMinutes, parseForecastInstant } from "./time";
+
+describe("mountainOffsetMinutes", () => {
+  it("follows daylight saving time", () => {
+    expect(mountainOffsetMinutes(new Date("2026-01-12T19:00:00Z"))).toBe(-420);
+    expect(mountainOffsetMinutes(new Date("2026-07-01T18:00:00Z"))).toBe(-360);
+  });
+});
+
+describe("parseForecastInstant", () => {
+  it("reads a bare date as noon Mountain Time", () => {
+    expect(parseForecastInstant("2026-01-12")?.toISOString()).toBe(
+      "2026-01-12T19:00:00.000Z",
+    );
+    expect(parseForecastInstant(" 2026-07-01 ")?.toISOString()).toBe(
+      "2026-07-01T18:00:00.000Z",
+    );
+  });
+
+  it("keeps an explicit date-time", () => {
+    expect(
+      parseForecastInstant("2026-01-12T06:30:00-07:00")?.toISOString(),
+    ).toBe("2026-01-12T13:30:00.000Z");
+  });
+
+  it("returns null for anything else", () => {
+    expect(parseForecastInstant("last Tuesday")).toBeNull();
+  });
+});
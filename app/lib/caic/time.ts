@@ -0,0 +1,46 @@
+/** CAIC issues and describes every product in Mountain Time */
+const MOUNTAIN_TIME_ZONE = "America/Denver";
+
+const offsetFormatter = new Intl.DateTimeFormat("en-US", {
+  timeZone: MOUNTAIN_TIME_ZONE,
+  timeZoneName: "shortOffset",
+});
+
+/**
+ * UTC offset of Mountain Time at the given instant, in minutes (e.g. -420 for MST)
+ */
+function mountainOffsetMinutes(instant: Date): number {
+  const name =
+    offsetFormatter
+      .formatToParts(instant)
+      .find((part) => part.type === "timeZoneName")?.value ?? "GMT-7";
+  const match = /GMT([+-]\d+)(?::(\d+))?/.exec(name);
+  if (!match) return -420;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  return hours * 60 + Math.sign(hours) * minutes;
+}
+
+/**
+ * Parse a date or date-time into the instant a forecast should cover.
+ * A bare calendar date (`2026-01-12`) means noon Mountain Time that day, when
+ * the forecast for that day is in effect.
+ *
+ * @param value - ISO 8601 date or date-time
+ * @returns The instant, or null if the value cannot be parsed
+ */
+function parseForecastInstant(value: string): Date | null {
+  const dateOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  if (dateOnly) {
+    const [, year, month, day] = dateOnly.map(Number);
+    const noonUtc = Date.UTC(year, month - 1, day, 12);
+    const offset = mountainOffsetMinutes(new Date(noonUtc));
+    return new Date(noonUtc - offset * 60_000);
+  }
+
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : new Date(parsed);
+}
+
+export { MOUNTAIN_TIME_ZONE, mountainOffsetMinutes, parseForecastInstant };
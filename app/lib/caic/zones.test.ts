@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { createCAICClient } from ".";
+import { createFixtureFetch } from "./fixtures";
+import { normalizeName } from "./zones";
+
+const client = createCAICClient({ fetch: createFixtureFetch() });
+const catalog = await client.getZoneCatalog();
+
+describe("normalizeName", () => {
+  it("spells out ampersands and strips punctuation", () => {
+    expect(normalizeName("Vail & Summit County")).toBe(
+      "vail and summit county",
+    );
+    expect(normalizeName("  Front-Range! ")).toBe("front range");
+  });
+});
+
+describe("ZoneCatalog", () => {
+  it("lists zones with a forecast, sorted by name", () => {
+    expect(catalog.list().map((zone) => zone.publicName)).toEqual([
+      "Aspen",
+      "Front Range",
+      "Sawatch",
+      "Vail & Summit County",
+    ]);
+  });
+
+  it("resolves zones by id, exact name, partial name or typo", () => {
+    const names = [
+      "6f1ac1f2-0a3e-4c1b-9d5e-1b2f3c4d5e03",
+      "vail and summit county",
+      "summit county",
+      "Front Rnage",
+    ].map((query) => catalog.resolve(query)?.publicName);
+
+    expect(names).toEqual([
+      "Sawatch",
+      "Vail & Summit County",
+      "Vail & Summit County",
+      "Front Range",
+    ]);
+  });
+
+  it("ranks closer matches first and drops weak ones", () => {
+    const results = catalog.search("front range zone");
+
+    expect(results[0]).toMatchObject({
+      zone: { publicName: "Front Range" },
+      score: 0.9,
+    });
+    expect(catalog.resolve("Grand Mesa")).toBeNull();
+  });
+});
@@ -0,0 +1,169 @@
+import type { AvalancheForecast, Feature, FeatureCollection } from "./schema";
+
+/**
+ * A forecast zone: its area geometry summary joined with its forecast's name
+ */
+interface ZoneEntry {
+  /** Area identifier, matching `areaId` on products */
+  id: string;
+  /** Zone name as published on the forecast, e.g. "Vail & Summit County" */
+  publicName: string;
+  /** Center point of the zone */
+  centroid: { lat: number; lng: number };
+  /** Bounding box [minLongitude, minLatitude, maxLongitude, maxLatitude] */
+  bbox: Feature["bbox"];
+}
+
+/**
+ * A zone returned from a fuzzy search, with a score from 0 to 1
+ */
+interface ZoneSearchResult {
+  zone: ZoneEntry;
+  score: number;
+}
+
+/** Scores below this are not considered a match */
+const MIN_MATCH_SCORE = 0.5;
+
+/**
+ * Lowercase, spell out "&", and strip punctuation so "Vail & Summit County"
+ * and "vail and summit county" compare equal
+ */
+function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function bigrams(text: string): string[] {
+  const compact = text.replace(/ /g, "");
+  const result: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    result.push(compact.slice(i, i + 2));
+  }
+  return result;
+}
+
+/**
+ * Sørensen–Dice coefficient over character bigrams; tolerant of typos
+ */
+function diceCoefficient(a: string, b: string): number {
+  const left = bigrams(a);
+  const right = bigrams(b);
+  if (!left.length || !right.length) return a === b ? 1 : 0;
+
+  const counts = new Map<string, number>();
+  for (const gram of left) counts.set(gram, (counts.get(gram) ?? 0) + 1);
+
+  let overlap = 0;
+  for (const gram of right) {
+    const count = counts.get(gram) ?? 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(gram, count - 1);
+    }
+  }
+
+  return (2 * overlap) / (left.length + right.length);
+}
+
+/**
+ * Score how well a query matches a zone name, from 0 to 1
+ */
+function scoreName(query: string, name: string): number {
+  const q = normalizeName(query);
+  const n = normalizeName(name);
+  if (!q || !n) return 0;
+  if (q === n) return 1;
+
+  // "summit county" → "Vail & Summit County", "front range zone" → "Front Range"
+  if (n.includes(q) || q.includes(n)) return 0.9;
+
+  const queryTokens = q.split(" ");
+  const nameTokens = new Set(n.split(" "));
+  const shared = queryTokens.filter((t) => nameTokens.has(t)).length;
+  const tokenScore = shared / Math.max(queryTokens.length, nameTokens.size);
+
+  return Math.max(tokenScore, diceCoefficient(q, n));
+}
+
+/**
+ * Directory of forecast zones with lookup by id and fuzzy lookup by name
+ */
+class ZoneCatalog {
+  private readonly zones: ZoneEntry[];
+  private readonly byId: Map<string, ZoneEntry>;
+
+  constructor(zones: ZoneEntry[]) {
+    this.zones = [...zones].sort((a, b) =>
+      a.publicName.localeCompare(b.publicName),
+    );
+    this.byId = new Map(zones.map((zone) => [zone.id, zone]));
+  }
+
+  /** All zones, sorted by name */
+  list(): ZoneEntry[] {
+    return this.zones;
+  }
+
+  /** Look up a zone by area id */
+  get(id: string): ZoneEntry | undefined {
+    return this.byId.get(id);
+  }
+
+  /**
+   * Rank zones by how well their name matches `query`
+   * @param query - Zone name, partial name, or misspelling
+   * @param limit - Maximum number of results (default: 5)
+   */
+  search(query: string, limit = 5): ZoneSearchResult[] {
+    return this.zones
+      .map((zone) => ({ zone, score: scoreName(query, zone.publicName) }))
+      .filter((result) => result.score >= MIN_MATCH_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Resolve a zone by exact area id or best fuzzy name match
+   * @param query - Area id or zone name
+   * @returns The zone, or null if nothing matches well enough
+   */
+  resolve(query: string): ZoneEntry | null {
+    return this.get(query.trim()) ?? this.search(query, 1)[0]?.zone ?? null;
+  }
+}
+
+/**
+ * Build the zone catalog from area GeoJSON and the latest forecast per area.
+ * Areas without a forecast are omitted, since they have no public name.
+ *
+ * @param areas - Avalanche forecast area GeoJSON
+ * @param forecasts - Latest forecast per `areaId`
+ */
+function buildZoneCatalog(
+  areas: FeatureCollection,
+  forecasts: Map<string, AvalancheForecast>,
+): ZoneCatalog {
+  const zones = areas.features.flatMap((feature): ZoneEntry[] => {
+    const forecast = forecasts.get(feature.properties.id);
+    if (!forecast) return [];
+
+    const [lng, lat] = feature.properties.centroid;
+    return [
+      {
+        id: feature.properties.id,
+        publicName: forecast.publicName,
+        centroid: { lat, lng },
+        bbox: feature.bbox,
+      },
+    ];
+  });
+
+  return new ZoneCatalog(zones);
+}
+
+export { buildZoneCatalog, normalizeName, ZoneCatalog };
+export type { ZoneEntry, ZoneSearchResult };
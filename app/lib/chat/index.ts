@@ -0,0 +1,36 @@
+export {
+  ChatRequestError,
+  MAX_BODY_BYTES,
+  MAX_FILE_BYTES,
+  MAX_MESSAGES,
+  MAX_TEXT_CHARS,
+  parseChatRequest,
+} from "./request";
+export type { ChatRequest, ChatRequestErrorCode } from "./request";
+export {
+  conversationTitle,
+  createConversationStoreForEnv,
+  createD1ConversationStore,
+  MAX_TITLE_LENGTH,
+} from "./store";
+export type {
+  ConversationListQuery,
+  ConversationStore,
+  ConversationSummary,
+  StoredConversation,
+} from "./store";
+export { summarizeTitle } from "./title";
+export {
+  conversationUsage,
+  createAnalyticsEngineUsageSink,
+  createLogUsageSink,
+  createUsageSinkForEnv,
+  createUsageTracker,
+} from "./usage";
+export type {
+  ToolTiming,
+  UsageEvent,
+  UsageSink,
+  UsageSummary,
+  UsageTracker,
+} from "./usage";
@@ -0,0 +1,180 @@
+import { describe, expect, it } from "vitest";
+import {
+  ChatRequestError,
+  MAX_BODY_BYTES,
+  MAX_FILE_BYTES,
+  MAX_MESSAGES,
+  MAX_TEXT_CHARS,
+  parseChatRequest,
+} from "./request";
+
+const question = (text: string, id = "m1") => ({
+  id,
+  role: "user",
+  parts: [{ type: "text", text }],
+});
+
+function post(body: unknown, headers: HeadersInit = {}): Request {
+  return new Request("https://caic.test/api/chat", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+}
+
+/** Parse a request expected to fail, returning its error */
+async function rejection(request: Request): Promise<ChatRequestError> {
+  const error = await parseChatRequest(request).then(
+    () => expect.unreachable("request was accepted"),
+    (error: unknown) => error,
+  );
+  expect(error).toBeInstanceOf(ChatRequestError);
+  return error as ChatRequestError;
+}
+
+describe("parseChatRequest", () => {
+  it("accepts a conversation ending with a question", async () => {
+    const body = {
+      id: "chat-1",
+      model: "some-model",
+      messages: [question("How is Berthoud Pass today?")],
+    };
+
+    await expect(parseChatRequest(post(body))).resolves.toEqual(body);
+  });
+
+  it("rejects other methods and content types", async () => {
+    const get = await rejection(new Request("https://caic.test/api/chat"));
+    expect(get).toMatchObject({ code: "METHOD_NOT_ALLOWED", status: 405 });
+    expect(get.toResponse().headers.get("Allow")).toBe("POST");
+
+    const text = await rejection(post("{}", { "Content-Type": "text/plain" }));
+    expect(text).toMatchObject({ code: "UNSUPPORTED_MEDIA_TYPE", status: 415 });
+  });
+
+  it("rejects a body that is not JSON", async () => {
+    expect(await rejection(post("{"))).toMatchObject({
+      code: "INVALID_JSON",
+      status: 400,
+    });
+  });
+
+  it("rejects a declared length over the body limit without reading it", async () => {
+    const request = post(
+      { messages: [question("hi")] },
+      { "Content-Length": String(MAX_BODY_BYTES + 1) },
+    );
+
+    expect(await rejection(request)).toMatchObject({
+      code: "PAYLOAD_TOO_LARGE",
+      status: 413,
+    });
+    expect(request.bodyUsed).toBe(false);
+  });
+
+  it("stops reading a body once it passes the limit", async () => {
+    const chunk = new Uint8Array(1024 * 1024);
+    let sent = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        sent += chunk.byteLength;
+        controller.enqueue(chunk);
+      },
+    });
+    const request = new Request("https://caic.test/api/chat", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body,
+      duplex: "half",
+    } as RequestInit);
+
+    expect(await rejection(request)).toMatchObject({
+      code: "PAYLOAD_TOO_LARGE",
+    });
+    expect(sent).toBeLessThan(MAX_BODY_BYTES + 4 * chunk.byteLength);
+  });
+
+  it("limits the total text across messages", async () => {
+    const half = "a".repeat(MAX_TEXT_CHARS / 2);
+    const atLimit = [question(half), question(half, "m2")];
+    const overLimit = [question(half), question(`${half}a`, "m2")];
+
+    await expect(
+      parseChatRequest(post({ messages: atLimit })),
+    ).resolves.toBeDefined();
+    expect(await rejection(post({ messages: overLimit }))).toMatchObject({
+      code: "PAYLOAD_TOO_LARGE",
+      status: 413,
+    });
+  });
+
+  it("limits the size of each attached file", async () => {
+    const attach = (bytes: number) => ({
+      id: "m1",
+      role: "user",
+      parts: [
+        { type: "text", text: "Check my route" },
+        {
+          type: "file",
+          mediaType: "application/gpx+xml",
+          url: `data:application/gpx+xml;base64,${"A".repeat((bytes / 3) * 4)}`,
+        },
+      ],
+    });
+
+    await expect(
+      parseChatRequest(post({ messages: [attach(MAX_FILE_BYTES - 2)] })),
+    ).resolves.toBeDefined();
+    expect(
+      await rejection(post({ messages: [attach(MAX_FILE_BYTES + 1)] })),
+    ).toMatchObject({ code: "PAYLOAD_TOO_LARGE" });
+  });
+
+  it("rejects file data URLs that cannot be decoded", async () => {
+    const attach = (url: string) => ({
+      id: "m1",
+      role: "user",
+      parts: [{ type: "file", mediaType: "application/gpx+xml", url }],
+    });
+
+    for (const url of [
+      "data:application/gpx+xml;base64,not*base64",
+      "data:,%E0%A4%A",
+      "data:no-comma",
+    ]) {
+      expect(await rejection(post({ messages: [attach(url)] }))).toMatchObject({
+        code: "INVALID_REQUEST",
+        status: 400,
+      });
+    }
+  });
+
+  it("limits the number of messages", async () => {
+    const messages = Array.from({ length: MAX_MESSAGES + 1 }, (_, index) =>
+      question("hi", `m${index}`),
+    );
+
+    expect(await rejection(post({ messages }))).toMatchObject({
+      code: "INVALID_REQUEST",
+      status: 400,
+    });
+  });
+
+  it("rejects system messages and a trailing assistant message", async () => {
+    const system = { id: "s", role: "system", parts: [] };
+    const answer = {
+      id: "a",
+      role: "assistant",
+      parts: [{ type: "text", text: "Hello" }],
+    };
+
+    for (const messages of [
+      [system, question("hi")],
+      [question("hi"), answer],
+    ]) {
+      expect(await rejection(post({ messages }))).toMatchObject({
+        code: "INVALID_REQUEST",
+      });
+    }
+  });
+});
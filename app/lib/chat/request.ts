@@ -0,0 +1,294 @@
+import { z } from "zod";
+import type { UIMessage } from "ai";
+import type { CaicUiMessage } from "../tools";
+
+/** Largest request body read, in bytes; attachments arrive as data URLs */
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+/** Most messages accepted in one conversation */
+const MAX_MESSAGES = 100;
+
+/** Most characters of text and reasoning across all messages */
+const MAX_TEXT_CHARS = 200_000;
+
+/** Largest single attached file, in bytes once decoded */
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Machine-readable reasons a chat request was rejected
+ */
+type ChatRequestErrorCode =
+  | "METHOD_NOT_ALLOWED"
+  | "UNSUPPORTED_MEDIA_TYPE"
+  | "PAYLOAD_TOO_LARGE"
+  | "INVALID_JSON"
+  | "INVALID_REQUEST";
+
+const statusByCode: Record<ChatRequestErrorCode, number> = {
+  METHOD_NOT_ALLOWED: 405,
+  UNSUPPORTED_MEDIA_TYPE: 415,
+  PAYLOAD_TOO_LARGE: 413,
+  INVALID_JSON: 400,
+  INVALID_REQUEST: 400,
+};
+
+/**
+ * A request to /api/chat that can't be served as sent
+ */
+class ChatRequestError extends Error {
+  readonly code: ChatRequestErrorCode;
+  /** HTTP status to respond with */
+  readonly status: number;
+  /** Schema issues, for INVALID_REQUEST */
+  readonly issues: unknown;
+
+  constructor(code: ChatRequestErrorCode, message: string, issues?: unknown) {
+    super(message);
+    this.name = "ChatRequestError";
+    this.code = code;
+    this.status = statusByCode[code];
+    this.issues = issues;
+  }
+
+  toResponse(): Response {
+    return Response.json(
+      { error: this.message, code: this.code, issues: this.issues },
+      {
+        status: this.status,
+        headers: this.code === "METHOD_NOT_ALLOWED" ? { Allow: "POST" } : {},
+      },
+    );
+  }
+}
+
+/**
+ * Decoded size of a `data:` URL, 0 for other URLs, or null when the data
+ * can't be decoded
+ */
+function dataUrlBytes(url: string): number | null {
+  if (!url.startsWith("data:")) return 0;
+  const comma = url.indexOf(",");
+  if (comma === -1) return null;
+
+  const data = url.slice(comma + 1);
+  try {
+    if (url.slice(0, comma).endsWith(";base64")) return atob(data).length;
+    return new TextEncoder().encode(decodeURIComponent(data)).byteLength;
+  } catch {
+    return null;
+  }
+}
+
+const textPartSchema = z.looseObject({
+  type: z.literal("text"),
+  text: z.string(),
+});
+
+const reasoningPartSchema = z.looseObject({
+  type: z.literal("reasoning"),
+  text: z.string(),
+});
+
+const filePartSchema = z.looseObject({
+  type: z.literal("file"),
+  mediaType: z.string().min(1),
+  filename: z.string().optional(),
+  url: z.string().superRefine((url, ctx) => {
+    const bytes = dataUrlBytes(url);
+    if (bytes === null) {
+      ctx.addIssue({
+        code: "custom",
+        message: "File data URLs must be valid base64 or percent-encoded",
+      });
+    } else if (bytes > MAX_FILE_BYTES) {
+      ctx.addIssue({
+        code: "custom",
+        message: `Files must be at most ${MAX_FILE_BYTES / 1024 / 1024} MB`,
+        params: { code: "PAYLOAD_TOO_LARGE" },
+      });
+    }
+  }),
+});
+
+const toolPartSchema = z.looseObject({
+  type: z.string().regex(/^tool-\w+$/),
+  toolCallId: z.string(),
+  state: z.enum([
+    "input-streaming",
+    "input-available",
+    "output-available",
+    "output-error",
+  ]),
+});
+
+const otherPartSchema = z.looseObject({
+  type: z.enum(["step-start", "source-url", "source-document"]),
+});
+
+/** Parts a user can send */
+const userPartSchema = z.union([textPartSchema, filePartSchema]);
+
+/** Parts the assistant produces, which the client sends back each turn */
+const assistantPartSchema = z.union([
+  textPartSchema,
+  reasoningPartSchema,
+  filePartSchema,
+  toolPartSchema,
+  otherPartSchema,
+]);
+
+// System messages are not accepted from clients; the server sets the prompt
+const messageSchema = z.discriminatedUnion("role", [
+  z.object({
+    id: z.string(),
+    role: z.literal("user"),
+    metadata: z.unknown().optional(),
+    parts: z.array(userPartSchema).min(1),
+  }),
+  z.object({
+    id: z.string(),
+    role: z.literal("assistant"),
+    metadata: z.unknown().optional(),
+    parts: z.array(assistantPartSchema),
+  }),
+]);
+
+const chatRequestSchema = z.object({
+  /** Chat id from `useChat`; conversations are stored under it */
+  id: z
+    .string()
+    .regex(/^[\w-]+$/)
+    .max(200)
+    .optional(),
+  messages: z
+    .array(messageSchema)
+    .min(1)
+    .max(MAX_MESSAGES)
+    .refine((messages) => messages.at(-1)?.role === "user", {
+      message: "The last message must be from the user",
+    })
+    .refine((messages) => countTextChars(messages) <= MAX_TEXT_CHARS, {
+      message: `Messages must total at most ${MAX_TEXT_CHARS} characters`,
+      params: { code: "PAYLOAD_TOO_LARGE" },
+    }),
+  model: z.string().optional(),
+  promptId: z.string().optional(),
+});
+
+/**
+ * Validated body of a chat request
+ */
+type ChatRequest = Omit<z.infer<typeof chatRequestSchema>, "messages"> & {
+  messages: CaicUiMessage[];
+};
+
+function countTextChars(messages: z.infer<typeof messageSchema>[]): number {
+  let total = 0;
+  for (const message of messages) {
+    for (const part of message.parts) {
+      if (typeof part.text === "string") total += part.text.length;
+    }
+  }
+  return total;
+}
+
+/**
+ * Read the body as text, giving up once it passes `maxBytes` rather than
+ * trusting Content-Length
+ */
+async function readBody(request: Request, maxBytes: number): Promise<string> {
+  const declared = Number(request.headers.get("Content-Length"));
+  if (declared > maxBytes) {
+    throw new ChatRequestError(
+      "PAYLOAD_TOO_LARGE",
+      `Request body must be at most ${maxBytes} bytes`,
+    );
+  }
+  if (!request.body) return "";
+
+  const reader = request.body.getReader();
+  const decoder = new TextDecoder();
+  let received = 0;
+  let text = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    received += value.byteLength;
+    if (received > maxBytes) {
+      reader.cancel().catch(() => {});
+      throw new ChatRequestError(
+        "PAYLOAD_TOO_LARGE",
+        `Request body must be at most ${maxBytes} bytes`,
+      );
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+
+  return text + decoder.decode();
+}
+
+/**
+ * Validate a request to /api/chat
+ *
+ * @throws {ChatRequestError} For a method other than POST, a non-JSON body,
+ * a body over the size limits, or messages that don't match the schema
+ */
+async function parseChatRequest(request: Request): Promise<ChatRequest> {
+  if (request.method !== "POST") {
+    throw new ChatRequestError(
+      "METHOD_NOT_ALLOWED",
+      `Method ${request.method} is not allowed`,
+    );
+  }
+
+  const contentType = request.headers.get("Content-Type") ?? "";
+  if (!/^application\/json\s*(;|$)/i.test(contentType)) {
+    throw new ChatRequestError(
+      "UNSUPPORTED_MEDIA_TYPE",
+      "Content-Type must be application/json",
+    );
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(await readBody(request, MAX_BODY_BYTES));
+  } catch (error) {
+    if (error instanceof ChatRequestError) throw error;
+    throw new ChatRequestError(
+      "INVALID_JSON",
+      "Request body is not valid JSON",
+    );
+  }
+
+  const parsed = chatRequestSchema.safeParse(json);
+  if (!parsed.success) {
+    const tooLarge = parsed.error.issues.some(
+      (issue) =>
+        issue.code === "custom" && issue.params?.code === "PAYLOAD_TOO_LARGE",
+    );
+    throw new ChatRequestError(
+      tooLarge ? "PAYLOAD_TOO_LARGE" : "INVALID_REQUEST",
+      tooLarge ? "Request exceeds the size limits" : "Invalid chat request",
+      z.treeifyError(parsed.error),
+    );
+  }
+
+  return {
+    ...parsed.data,
+    // Parts are checked loosely above; the AI SDK validates the rest when it
+    // converts them for the model
+    messages: parsed.data.messages as UIMessage[] as CaicUiMessage[],
+  };
+}
+
+export {
+  ChatRequestError,
+  MAX_BODY_BYTES,
+  MAX_FILE_BYTES,
+  MAX_MESSAGES,
+  MAX_TEXT_CHARS,
+  parseChatRequest,
+};
+export type { ChatRequest, ChatRequestErrorCode };
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { getChatSession, withSession } from "./session";
+
+const env = { SESSION_SECRET: "test-secret" } as Env;
+
+/** A request sending back the cookie from a Set-Cookie header */
+const withCookie = (setCookie?: string) =>
+  new Request("https://caic.test/", {
+    headers: setCookie ? { Cookie: setCookie.split(";")[0] } : {},
+  });
+
+describe("getChatSession", () => {
+  it("starts a session when there is no cookie", async () => {
+    const session = await getChatSession(withCookie(), env, false);
+
+    expect(session.owner).toMatch(/^[0-9a-f-]{36}$/);
+    expect(session.setCookie).toMatch(/^caic_session=.*HttpOnly.*Secure/);
+  });
+
+  it("reads the owner back from its signed cookie", async () => {
+    const first = await getChatSession(withCookie(), env, false);
+
+    expect(
+      await getChatSession(withCookie(first.setCookie), env, false),
+    ).toEqual({ owner: first.owner });
+  });
+
+  it("starts over when the signature doesn't verify", async () => {
+    const first = await getChatSession(withCookie(), env, false);
+    const other = { SESSION_SECRET: "another-secret" } as Env;
+
+    const session = await getChatSession(
+      withCookie(first.setCookie),
+      other,
+      false,
+    );
+    expect(session.owner).not.toBe(first.owner);
+    expect(session.setCookie).toBeDefined();
+  });
+
+  it("requires a secret outside development", async () => {
+    const error = await getChatSession(withCookie(), {} as Env, false).then(
+      () => expect.unreachable("session was created"),
+      (error: unknown) => error,
+    );
+    expect(error).toBeInstanceOf(Response);
+    expect((error as Response).status).toBe(500);
+    expect(await (error as Response).json()).toMatchObject({
+      code: "SESSION_SECRET_MISSING",
+    });
+
+    await expect(
+      getChatSession(withCookie(), {} as Env, true),
+    ).resolves.toMatchObject({ setCookie: expect.any(String) });
+  });
+});
+
+describe("withSession", () => {
+  it("sets the cookie only for a new session", () => {
+    const response = withSession(new Response(), {
+      owner: "session-1",
+      setCookie: "caic_session=abc",
+    });
+
+    expect(response.headers.get("Set-Cookie")).toBe("caic_session=abc");
+    expect(
+      withSession(new Response(), { owner: "session-1" }).headers.has(
+        "Set-Cookie",
+      ),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,82 @@
+import { createCookie } from "react-router";
+
+/** Sessions last a year from when they start; the cookie isn't renewed */
+const SESSION_MAX_AGE_SECONDS = 365 * 24 * 60 * 60;
+
+/**
+ * The browser a request came from. There are no accounts; conversations
+ * belong to the session that started them.
+ */
+interface ChatSession {
+  /** Random session id, stored as each conversation's owner */
+  owner: string;
+  /** Set-Cookie header value when the session is new */
+  setCookie?: string;
+}
+
+function sessionCookie(env: Env, dev: boolean) {
+  const secret = env.SESSION_SECRET || (dev ? "caic-dev-session" : "");
+  if (!secret) {
+    console.error(JSON.stringify({ event: "session_secret_missing" }));
+    // React Router returns a thrown Response as is from resource routes and
+    // shows it in the error boundary from pages
+    throw Response.json(
+      {
+        error: "SESSION_SECRET must be set to sign session cookies",
+        code: "SESSION_SECRET_MISSING",
+      },
+      { status: 500, statusText: "Session secret is not configured" },
+    );
+  }
+  return createCookie("caic_session", {
+    secrets: [secret],
+    httpOnly: true,
+    sameSite: "lax",
+    secure: !dev,
+    path: "/",
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  });
+}
+
+/**
+ * The session from the request's signed cookie, or a new one if the cookie
+ * is missing or its signature doesn't verify
+ *
+ * @param env - Worker environment bindings
+ * @param dev - Sign with a fixed secret if `SESSION_SECRET` is unset, as
+ * under `vite dev`
+ * @throws {Response} A 500 with code `SESSION_SECRET_MISSING` outside
+ * development, if `SESSION_SECRET` is unset
+ */
+async function getChatSession(
+  request: Request,
+  env: Env,
+  dev: boolean,
+): Promise<ChatSession> {
+  const cookie = sessionCookie(env, dev);
+  const owner: unknown = await cookie.parse(request.headers.get("Cookie"));
+  if (typeof owner === "string" && owner) return { owner };
+
+  const created = crypto.randomUUID();
+  return { owner: created, setCookie: await cookie.serialize(created) };
+}
+
+/**
+ * Headers that start a new session on the client, if `session` is new
+ */
+function sessionHeaders(session: ChatSession): HeadersInit {
+  return session.setCookie ? { "Set-Cookie": session.setCookie } : {};
+}
+
+/**
+ * Add the session cookie to a response, if the session is new
+ */
+function withSession(response: Response, session: ChatSession): Response {
+  if (session.setCookie) {
+    response.headers.append("Set-Cookie", session.setCookie);
+  }
+  return response;
+}
+
+export { getChatSession, sessionHeaders, withSession };
+export type { ChatSession };
@@ -0,0 +1,244 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { createTestBindings, type TestBindings } from "../testing/miniflare";
+import type { CaicUiMessage } from "../tools";
+import {
+  type ConversationStore,
+  conversationTitle,
+  createD1ConversationStore,
+} from "./store";
+
+const say = (
+  role: "user" | "assistant",
+  text: string,
+  id = role,
+): CaicUiMessage => ({ id, role, parts: [{ type: "text", text }] });
+
+const owner = "session-1";
+
+let bindings: TestBindings;
+let store: ConversationStore;
+
+beforeAll(async () => {
+  bindings = await createTestBindings("/migrations/chat");
+});
+
+afterAll(async () => {
+  await bindings.dispose();
+});
+
+beforeEach(async () => {
+  await bindings.db.batch([
+    bindings.db.prepare("DELETE FROM conversations"),
+    bindings.db.prepare("DELETE FROM conversations_fts"),
+  ]);
+  store = createD1ConversationStore(bindings.db);
+});
+
+describe("conversationTitle", () => {
+  it("uses the first user message, collapsed and truncated", () => {
+    expect(
+      conversationTitle([
+        say("assistant", "Welcome"),
+        say("user", "  Berthoud Pass\n\ntoday? "),
+      ]),
+    ).toBe("Berthoud Pass today?");
+    expect(conversationTitle([say("user", "a".repeat(100))])).toBe(
+      `${"a".repeat(79)}…`,
+    );
+    expect(conversationTitle([])).toBe("New conversation");
+  });
+});
+
+describe("createD1ConversationStore", () => {
+  it("returns null for an unknown chat", async () => {
+    expect(await store.getConversation(owner, "missing")).toBeNull();
+  });
+
+  it("replaces messages and keeps the first title", async () => {
+    const createdAt = new Date("2026-01-12T15:00:00Z");
+    const updatedAt = new Date("2026-01-12T15:05:00Z");
+    const messages = [
+      say("user", "How is the Front Range?"),
+      say("assistant", "Considerable above treeline."),
+    ];
+
+    await store.saveConversation(
+      owner,
+      "chat-1",
+      messages.slice(0, 1),
+      createdAt,
+    );
+    await store.saveConversation(
+      owner,
+      "chat-1",
+      [say("user", "Different question"), ...messages.slice(1)],
+      updatedAt,
+    );
+
+    expect(await store.getConversation(owner, "chat-1")).toEqual({
+      id: "chat-1",
+      title: "How is the Front Range?",
+      createdAt,
+      updatedAt,
+      messages: [say("user", "Different question"), messages[1]],
+    });
+  });
+
+  it("keeps each conversation to the owner that started it", async () => {
+    await store.saveConversation(owner, "chat-1", [say("user", "Mine")]);
+
+    expect(
+      await store.saveConversation("session-2", "chat-1", [
+        say("user", "Theirs"),
+      ]),
+    ).toBe(false);
+    expect(await store.getConversation("session-2", "chat-1")).toBeNull();
+    expect(await store.getConversation(owner, "chat-1")).toMatchObject({
+      messages: [say("user", "Mine")],
+    });
+    expect(await store.listConversations(owner, { search: "theirs" })).toEqual(
+      [],
+    );
+  });
+
+  it("replaces inline file data with a note before saving", async () => {
+    await store.saveConversation(owner, "chat-1", [
+      {
+        id: "user",
+        role: "user",
+        parts: [
+          {
+            type: "file",
+            mediaType: "application/gpx+xml",
+            filename: "tour.gpx",
+            url: "data:application/gpx+xml;base64,PGdweC8+",
+          },
+        ],
+      },
+    ]);
+
+    const saved = await store.getConversation(owner, "chat-1");
+    expect(saved?.messages[0].parts).toEqual([
+      {
+        type: "text",
+        text: '[Attached file "tour.gpx" is not kept with saved conversations]',
+      },
+    ]);
+  });
+});
+
+describe("listConversations", () => {
+  beforeEach(async () => {
+    await store.saveConversation(
+      owner,
+      "berthoud",
+      [say("user", "Is Berthoud Pass loading today?")],
+      new Date("2026-01-12T15:00:00Z"),
+    );
+    await store.saveConversation(
+      owner,
+      "aspen",
+      [say("user", "Aspen wind slabs"), say("assistant", "Wind loaded slopes")],
+      new Date("2026-01-12T16:00:00Z"),
+    );
+    await store.renameConversation(owner, "aspen", "Aspen trip");
+  });
+
+  it("lists the most recently updated first", async () => {
+    expect(await store.listConversations(owner)).toEqual([
+      {
+        id: "aspen",
+        title: "Aspen trip",
+        updatedAt: new Date("2026-01-12T16:00:00Z"),
+      },
+      {
+        id: "berthoud",
+        title: "Is Berthoud Pass loading today?",
+        updatedAt: new Date("2026-01-12T15:00:00Z"),
+      },
+    ]);
+    expect(await store.listConversations(owner, { limit: 1 })).toHaveLength(1);
+  });
+
+  it("searches titles and message text by word prefix", async () => {
+    const found = await store.listConversations(owner, { search: "load" });
+
+    expect(found.map((c) => c.id)).toEqual(["berthoud", "aspen"]);
+    expect(found[1].snippet).toContain("Wind loaded slopes");
+  });
+
+  it("takes search input literally", async () => {
+    expect(
+      await store.listConversations(owner, { search: 'aspen" OR *' }),
+    ).toEqual([]);
+    expect(await store.listConversations(owner, { search: '"' })).toHaveLength(
+      2,
+    );
+  });
+});
+
+describe("renameConversation", () => {
+  it("renames the conversation and its search entry", async () => {
+    await store.saveConversation(owner, "chat-1", [say("user", "Front Range")]);
+
+    expect(
+      await store.renameConversation(owner, "chat-1", "  Loveland Pass "),
+    ).toBe(true);
+    expect(await store.renameConversation(owner, "missing", "Title")).toBe(
+      false,
+    );
+
+    const [found] = await store.listConversations(owner, {
+      search: "loveland",
+    });
+    expect(found).toMatchObject({ id: "chat-1", title: "Loveland Pass" });
+  });
+
+  it("keeps a title the user chose over a generated one", async () => {
+    await store.saveConversation(owner, "chat-1", [say("user", "Front Range")]);
+    await store.renameConversation(owner, "chat-1", "My title");
+
+    expect(
+      await store.renameConversation(owner, "chat-1", "Generated", {
+        ifTitle: "Front Range",
+      }),
+    ).toBe(false);
+    expect(await store.getConversation(owner, "chat-1")).toMatchObject({
+      title: "My title",
+    });
+    expect(
+      await store.listConversations(owner, { search: "generated" }),
+    ).toEqual([]);
+  });
+});
+
+describe("owner scoping", () => {
+  it("lists, renames and deletes only the caller's conversations", async () => {
+    await store.saveConversation(owner, "chat-1", [say("user", "Front Range")]);
+
+    expect(await store.listConversations("session-2")).toEqual([]);
+    expect(
+      await store.listConversations("session-2", { search: "front" }),
+    ).toEqual([]);
+    expect(await store.renameConversation("session-2", "chat-1", "Mine")).toBe(
+      false,
+    );
+    expect(await store.deleteConversation("session-2", "chat-1")).toBe(false);
+    expect(await store.listConversations(owner)).toMatchObject([
+      { id: "chat-1", title: "Front Range" },
+    ]);
+  });
+});
+
+describe("deleteConversation", () => {
+  it("removes the conversation and its search entry", async () => {
+    await store.saveConversation(owner, "chat-1", [say("user", "Front Range")]);
+
+    expect(await store.deleteConversation(owner, "chat-1")).toBe(true);
+    expect(await store.deleteConversation(owner, "chat-1")).toBe(false);
+    expect(await store.getConversation(owner, "chat-1")).toBeNull();
+    expect(await store.listConversations(owner, { search: "front" })).toEqual(
+      [],
+    );
+  });
+});
@@ -0,0 +1,339 @@
+import type { CaicUiMessage } from "../tools";
+
+/** Longest conversation title */
+const MAX_TITLE_LENGTH = 80;
+
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 200;
+
+/**
+ * A saved conversation
+ */
+interface StoredConversation {
+  id: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  messages: CaicUiMessage[];
+}
+
+/**
+ * A conversation as listed in the history sidebar
+ */
+interface ConversationSummary {
+  id: string;
+  title: string;
+  updatedAt: Date;
+  /** Matching message text, for search results */
+  snippet?: string;
+}
+
+/**
+ * Options for {@link ConversationStore.listConversations}
+ */
+interface ConversationListQuery {
+  /** Full-text search over titles and message text */
+  search?: string;
+  /** Maximum number of conversations to return (default: 50) */
+  limit?: number;
+}
+
+/**
+ * Durable store of chat conversations, keyed by the `useChat` chat id. Each
+ * conversation belongs to the session that started it, and is only read or
+ * changed on behalf of that `owner`.
+ */
+interface ConversationStore {
+  /**
+   * Load a conversation
+   * @returns The conversation, or null if `owner` has none under `chatId`
+   */
+  getConversation(
+    owner: string,
+    chatId: string,
+  ): Promise<StoredConversation | null>;
+  /**
+   * Replace a conversation's messages, creating it for `owner` if needed.
+   * New conversations are titled with the start of their first user message.
+   * @returns Whether it was saved; false if another owner has the chat id
+   */
+  saveConversation(
+    owner: string,
+    chatId: string,
+    messages: CaicUiMessage[],
+    savedAt?: Date,
+  ): Promise<boolean>;
+  /**
+   * List `owner`'s conversations, most recently updated first, or best match
+   * first when searching
+   */
+  listConversations(
+    owner: string,
+    query?: ConversationListQuery,
+  ): Promise<ConversationSummary[]>;
+  /**
+   * Change a conversation's title
+   * @param options.ifTitle - Only rename if the title is still this one, so a
+   * generated title does not replace one the user chose
+   * @returns Whether a conversation of `owner`'s was renamed
+   */
+  renameConversation(
+    owner: string,
+    chatId: string,
+    title: string,
+    options?: { ifTitle?: string },
+  ): Promise<boolean>;
+  /**
+   * Delete a conversation
+   * @returns Whether a conversation of `owner`'s was deleted
+   */
+  deleteConversation(owner: string, chatId: string): Promise<boolean>;
+}
+
+type ConversationRow = {
+  id: string;
+  title: string;
+  messages: string;
+  created_at: string;
+  updated_at: string;
+};
+
+/**
+ * Title for a new conversation: the start of its first user message
+ */
+function conversationTitle(messages: CaicUiMessage[]): string {
+  const first = messages.find((message) => message.role === "user");
+  const text = first?.parts
+    .flatMap((part) => (part.type === "text" ? [part.text] : []))
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  if (!text) return "New conversation";
+  return text.length > MAX_TITLE_LENGTH
+    ? `${text.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`
+    : text;
+}
+
+/**
+ * Drop inline file contents before saving. Attachments arrive as data URLs of
+ * up to several MB, more than a D1 row holds, so each one is replaced with a
+ * text note naming the file. An empty file part would be sent back to the
+ * model when the conversation is reopened.
+ */
+function stripFileData(messages: CaicUiMessage[]): CaicUiMessage[] {
+  return messages.map((message) => ({
+    ...message,
+    parts: message.parts.map((part) =>
+      part.type === "file" && part.url.startsWith("data:")
+        ? {
+            type: "text" as const,
+            text: `[Attached file "${part.filename ?? part.mediaType}" is not kept with saved conversations]`,
+          }
+        : part,
+    ),
+  }));
+}
+
+/**
+ * Message text indexed for search. Tool calls are left out; their output is
+ * forecast text that would match almost every query.
+ */
+function searchableText(messages: CaicUiMessage[]): string {
+  return messages
+    .flatMap((message) => message.parts)
+    .flatMap((part) => (part.type === "text" ? [part.text] : []))
+    .join("\n");
+}
+
+/**
+ * FTS5 query matching every word of `search` as a prefix. Words are quoted
+ * so FTS operators and punctuation in user input are taken literally.
+ */
+function toMatchQuery(search: string): string | null {
+  const terms = search
+    .split(/\s+/)
+    .map((term) => term.replaceAll('"', ""))
+    .filter(Boolean);
+  if (!terms.length) return null;
+  return terms.map((term) => `"${term}"*`).join(" ");
+}
+
+function toConversation(row: ConversationRow): StoredConversation {
+  return {
+    id: row.id,
+    title: row.title,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+    messages: JSON.parse(row.messages) as CaicUiMessage[],
+  };
+}
+
+/**
+ * Conversation store backed by D1. Under `vite dev` the binding is simulated
+ * locally with SQLite, so the same implementation runs everywhere.
+ *
+ * @param db - D1 database with the `migrations/chat` schema applied
+ */
+function createD1ConversationStore(db: D1Database): ConversationStore {
+  return {
+    async getConversation(owner, chatId) {
+      const row = await db
+        .prepare(
+          "SELECT id, title, messages, created_at, updated_at FROM conversations WHERE id = ? AND owner = ?",
+        )
+        .bind(chatId, owner)
+        .first<ConversationRow>();
+
+      return row ? toConversation(row) : null;
+    },
+
+    async saveConversation(owner, chatId, messages, savedAt = new Date()) {
+      // The title is set once, so a later rename is not overwritten. The
+      // search index takes the stored title for the same reason. A chat id
+      // taken by another owner is left alone, index included.
+      const [saved] = await db.batch([
+        db
+          .prepare(
+            `INSERT INTO conversations (id, owner, title, messages, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?)
+             ON CONFLICT (id) DO UPDATE SET
+               messages = excluded.messages,
+               updated_at = excluded.updated_at
+             WHERE conversations.owner = excluded.owner`,
+          )
+          .bind(
+            chatId,
+            owner,
+            conversationTitle(messages),
+            JSON.stringify(stripFileData(messages)),
+            savedAt.toISOString(),
+            savedAt.toISOString(),
+          ),
+        db
+          .prepare(
+            `DELETE FROM conversations_fts
+             WHERE id IN (SELECT id FROM conversations WHERE id = ? AND owner = ?)`,
+          )
+          .bind(chatId, owner),
+        db
+          .prepare(
+            `INSERT INTO conversations_fts (id, title, body)
+             SELECT id, title, ? FROM conversations WHERE id = ? AND owner = ?`,
+          )
+          .bind(searchableText(messages), chatId, owner),
+      ]);
+
+      return (saved.meta.changes ?? 0) > 0;
+    },
+
+    async listConversations(owner, { search, limit } = {}) {
+      const count = Math.min(limit ?? DEFAULT_LIST_LIMIT, MAX_LIST_LIMIT);
+      const match = search ? toMatchQuery(search) : null;
+
+      if (!match) {
+        const { results } = await db
+          .prepare(
+            "SELECT id, title, updated_at FROM conversations WHERE owner = ? ORDER BY updated_at DESC LIMIT ?",
+          )
+          .bind(owner, count)
+          .all<Pick<ConversationRow, "id" | "title" | "updated_at">>();
+
+        return results.map((row) => ({
+          id: row.id,
+          title: row.title,
+          updatedAt: new Date(row.updated_at),
+        }));
+      }
+
+      const { results } = await db
+        .prepare(
+          `SELECT c.id, c.title, c.updated_at,
+             snippet(conversations_fts, 2, '', '', '…', 12) AS snippet
+           FROM conversations_fts
+           JOIN conversations c ON c.id = conversations_fts.id
+           WHERE conversations_fts MATCH ? AND c.owner = ?
+           ORDER BY rank
+           LIMIT ?`,
+        )
+        .bind(match, owner, count)
+        .all<
+          Pick<ConversationRow, "id" | "title" | "updated_at"> & {
+            snippet: string;
+          }
+        >();
+
+      return results.map((row) => ({
+        id: row.id,
+        title: row.title,
+        updatedAt: new Date(row.updated_at),
+        snippet: row.snippet || undefined,
+      }));
+    },
+
+    async renameConversation(owner, chatId, title, { ifTitle } = {}) {
+      const trimmed = title.trim().slice(0, MAX_TITLE_LENGTH);
+      const [updated] = await db.batch([
+        ifTitle === undefined
+          ? db
+              .prepare(
+                "UPDATE conversations SET title = ? WHERE id = ? AND owner = ?",
+              )
+              .bind(trimmed, chatId, owner)
+          : db
+              .prepare(
+                "UPDATE conversations SET title = ? WHERE id = ? AND owner = ? AND title = ?",
+              )
+              .bind(trimmed, chatId, owner, ifTitle),
+        db
+          .prepare(
+            `UPDATE conversations_fts
+             SET title = (SELECT title FROM conversations WHERE id = ?)
+             WHERE id IN (SELECT id FROM conversations WHERE id = ? AND owner = ?)`,
+          )
+          .bind(chatId, chatId, owner),
+      ]);
+
+      return (updated.meta.changes ?? 0) > 0;
+    },
+
+    async deleteConversation(owner, chatId) {
+      // The index entry goes first, while the row still shows the owner
+      const [, deleted] = await db.batch([
+        db
+          .prepare(
+            `DELETE FROM conversations_fts
+             WHERE id IN (SELECT id FROM conversations WHERE id = ? AND owner = ?)`,
+          )
+          .bind(chatId, owner),
+        db
+          .prepare("DELETE FROM conversations WHERE id = ? AND owner = ?")
+          .bind(chatId, owner),
+      ]);
+
+      return (deleted.meta.changes ?? 0) > 0;
+    },
+  };
+}
+
+/**
+ * Create the conversation store for the current Worker environment
+ *
+ * @param env - Worker environment bindings
+ */
+function createConversationStoreForEnv(env: Env): ConversationStore {
+  return createD1ConversationStore(env.CHAT_DB);
+}
+
+export {
+  conversationTitle,
+  createConversationStoreForEnv,
+  createD1ConversationStore,
+  MAX_TITLE_LENGTH,
+};
+export type {
+  ConversationListQuery,
+  ConversationStore,
+  ConversationSummary,
+  StoredConversation,
+};
@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("cloudflare:workers", () => ({
+  DurableObject: class {
+    constructor(
+      protected ctx: DurableObjectState,
+      protected env: Env,
+    ) {}
+  },
+}));
+
+const { ChatStreamBuffer, COMPLETED_STREAM_TTL_MS } =
+  await import("./stream-buffer");
+
+/** Durable Object state with in-memory storage and a single alarm */
+function createState() {
+  const values = new Map<string, unknown>();
+  const storage = {
+    alarm: null as number | null,
+    get: async (key: string) => structuredClone(values.get(key)),
+    put: async (key: string, value: unknown) => {
+      values.set(key, structuredClone(value));
+    },
+    delete: async (key: string) => values.delete(key),
+    deleteAll: async () => values.clear(),
+    setAlarm: async (time: number) => {
+      storage.alarm = time;
+    },
+    deleteAlarm: async () => {
+      storage.alarm = null;
+    },
+  };
+  const state = {
+    storage,
+    blockConcurrencyWhile: <T>(callback: () => Promise<T>) => callback(),
+  };
+  return state as unknown as DurableObjectState & { storage: typeof storage };
+}
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+/** A body whose chunks are pushed by the test */
+function pushable() {
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  const body = new ReadableStream<Uint8Array>({
+    start: (c) => {
+      controller = c;
+    },
+  });
+  return {
+    body,
+    push: (text: string) => controller.enqueue(encode(text)),
+    end: () => controller.close(),
+  };
+}
+
+const owner = "session-1";
+
+const replay = (
+  buffer: InstanceType<typeof ChatStreamBuffer>,
+  query = "",
+  as = owner,
+) =>
+  buffer.fetch(
+    new Request(`https://chat-streams/replay${query}`, {
+      headers: { "X-Chat-Owner": as },
+    }),
+  );
+
+describe("ChatStreamBuffer", () => {
+  let state: ReturnType<typeof createState>;
+  let buffer: InstanceType<typeof ChatStreamBuffer>;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: Date.parse("2026-01-12T15:00:00Z") });
+    state = createState();
+    buffer = new ChatStreamBuffer(state, {} as Env);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("has nothing to replay before a stream is written", async () => {
+    expect((await replay(buffer)).status).toBe(204);
+  });
+
+  it("replays what was buffered, then follows the live stream", async () => {
+    const source = pushable();
+    const writing = buffer.write(owner, "m1", source.body);
+    source.push("data: one\n\n");
+    await vi.waitFor(async () => {
+      expect((await replay(buffer)).status).toBe(200);
+    });
+
+    const response = await replay(buffer, "?messageId=m1");
+    source.push("data: two\n\n");
+    source.end();
+    await writing;
+
+    expect(await response.text()).toBe("data: one\n\ndata: two\n\n");
+  });
+
+  it("only replays a stream answering the given message", async () => {
+    await buffer.write(owner, "m1", new Response("data: one\n\n").body!);
+
+    expect((await replay(buffer, "?messageId=m0")).status).toBe(204);
+    expect(await (await replay(buffer, "?messageId=m1")).text()).toBe(
+      "data: one\n\n",
+    );
+  });
+
+  it("only replays to the chat's owner", async () => {
+    await buffer.write(owner, "m1", new Response("data: one\n\n").body!);
+    const other = new Response("data: theirs\n\n").body!;
+    await buffer.write("session-2", "m2", other);
+
+    expect((await replay(buffer, "", "session-2")).status).toBe(204);
+    expect(await (await replay(buffer)).text()).toBe("data: one\n\n");
+  });
+
+  it("keeps a finished stream across eviction until it expires", async () => {
+    await buffer.write(owner, "m1", new Response("data: one\n\n").body!);
+    expect(state.storage.alarm).toBe(Date.now() + COMPLETED_STREAM_TTL_MS);
+
+    const restarted = new ChatStreamBuffer(state, {} as Env);
+    await vi.waitFor(async () => {
+      expect(await (await replay(restarted)).text()).toBe("data: one\n\n");
+    });
+
+    await restarted.alarm();
+    expect((await replay(restarted)).status).toBe(204);
+  });
+
+  it("stops buffering a stream once a newer one starts", async () => {
+    const first = pushable();
+    const writing = buffer.write(owner, "m1", first.body);
+    first.push("data: old\n\n");
+    await vi.waitFor(async () => {
+      expect((await replay(buffer)).status).toBe(200);
+    });
+
+    await buffer.write(owner, "m2", new Response("data: new\n\n").body!);
+    first.push("data: late\n\n");
+    await writing;
+
+    expect(await (await replay(buffer)).text()).toBe("data: new\n\n");
+  });
+
+  it("keeps overlapping writes apart while storage is cleared", async () => {
+    const first = pushable();
+    const second = pushable();
+    const writingFirst = buffer.write(owner, "m1", first.body);
+    const writingSecond = buffer.write(owner, "m2", second.body);
+
+    first.push("data: old\n\n");
+    second.push("data: new\n\n");
+    first.end();
+    second.end();
+    await Promise.all([writingFirst, writingSecond]);
+
+    expect(await (await replay(buffer, "?messageId=m2")).text()).toBe(
+      "data: new\n\n",
+    );
+  });
+});
@@ -0,0 +1,200 @@
+import { DurableObject } from "cloudflare:workers";
+import { UI_MESSAGE_STREAM_HEADERS } from "ai";
+
+/** How long a finished stream can still be replayed */
+const COMPLETED_STREAM_TTL_MS = 10 * 60 * 1000;
+
+/** Storage key of the last finished stream */
+const STORAGE_KEY = "stream";
+
+/** Request header carrying the session that asks to replay the stream */
+const OWNER_HEADER = "X-Chat-Owner";
+
+type BufferedStream = {
+  /** Session that owns the chat; only it can replay the stream */
+  owner: string;
+  /** Id of the user message the stream answers */
+  messageId: string;
+  /** SSE text of the stream so far */
+  chunks: string[];
+  done: boolean;
+};
+
+/**
+ * Buffers the SSE stream of a chat's latest answer, one object per chat id,
+ * so a client whose connection drops can reconnect and replay it. Readers get
+ * everything buffered so far, then follow the stream live until it ends.
+ *
+ * Chunks are kept in memory while the answer streams, and written to storage
+ * once it finishes so a reconnect after the object is evicted still works.
+ * Finished streams are deleted after {@link COMPLETED_STREAM_TTL_MS}.
+ */
+class ChatStreamBuffer extends DurableObject<Env> {
+  private stream: BufferedStream | null = null;
+  private readers = new Set<ReadableStreamDefaultController<string>>();
+
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+    ctx.blockConcurrencyWhile(async () => {
+      this.stream =
+        (await ctx.storage.get<BufferedStream>(STORAGE_KEY)) ?? null;
+    });
+  }
+
+  /**
+   * Buffer a new stream, replacing the previous one. Resolves once the
+   * stream ends. A stream still held for another owner is not replaced.
+   *
+   * @param owner - Session that owns the chat
+   * @param messageId - Id of the user message being answered
+   * @param body - UTF-8 SSE bytes from `consumeSseStream`
+   */
+  async write(
+    owner: string,
+    messageId: string,
+    body: ReadableStream<Uint8Array>,
+  ) {
+    if (this.stream && this.stream.owner !== owner) {
+      await body.cancel();
+      return;
+    }
+
+    // Held before the storage calls, since another write can start while
+    // they are awaited
+    const stream: BufferedStream = {
+      owner,
+      messageId,
+      chunks: [],
+      done: false,
+    };
+    this.closeReaders();
+    this.stream = stream;
+    await this.ctx.storage.deleteAlarm();
+    await this.ctx.storage.delete(STORAGE_KEY);
+
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        // A newer request for this chat took over
+        if (this.stream !== stream) {
+          await reader.cancel();
+          return;
+        }
+        if (done) break;
+        this.push(decoder.decode(value, { stream: true }));
+      }
+      this.push(decoder.decode());
+    } finally {
+      if (this.stream === stream) await this.finish();
+    }
+  }
+
+  /**
+   * Replay the latest stream as an SSE response, or 204 if there is none
+   * for the owner in the {@link OWNER_HEADER} header. With a `messageId`
+   * search param, only a stream answering that message is replayed, so a
+   * client never gets an earlier turn's answer again.
+   */
+  async fetch(request: Request): Promise<Response> {
+    const stream = this.stream;
+    const owner = request.headers.get(OWNER_HEADER);
+    const messageId = new URL(request.url).searchParams.get("messageId");
+    if (
+      !stream ||
+      stream.owner !== owner ||
+      (messageId && messageId !== stream.messageId)
+    ) {
+      return new Response(null, { status: 204 });
+    }
+
+    let reader: ReadableStreamDefaultController<string>;
+    const body = new ReadableStream<string>({
+      start: (controller) => {
+        reader = controller;
+        for (const chunk of stream.chunks) controller.enqueue(chunk);
+        if (stream.done) controller.close();
+        else this.readers.add(controller);
+      },
+      cancel: () => {
+        this.readers.delete(reader);
+      },
+    });
+
+    return new Response(body.pipeThrough(new TextEncoderStream()), {
+      headers: UI_MESSAGE_STREAM_HEADERS,
+    });
+  }
+
+  async alarm() {
+    this.closeReaders();
+    this.stream = null;
+    await this.ctx.storage.deleteAll();
+  }
+
+  private push(chunk: string) {
+    if (!chunk || !this.stream) return;
+    this.stream.chunks.push(chunk);
+    for (const reader of this.readers) reader.enqueue(chunk);
+  }
+
+  private async finish() {
+    if (!this.stream) return;
+    this.stream.done = true;
+    this.closeReaders();
+
+    try {
+      await this.ctx.storage.put(STORAGE_KEY, this.stream);
+    } catch (error) {
+      // Too large to store; it can still be replayed until eviction
+      console.warn(
+        JSON.stringify({
+          event: "chat_stream_not_persisted",
+          messageId: this.stream.messageId,
+          error: error instanceof Error ? error.message : String(error),
+        }),
+      );
+    }
+    await this.ctx.storage.setAlarm(Date.now() + COMPLETED_STREAM_TTL_MS);
+  }
+
+  private closeReaders() {
+    for (const reader of this.readers) reader.close();
+    this.readers.clear();
+  }
+}
+
+/**
+ * The stream buffer for a chat
+ *
+ * @param env - Worker environment bindings
+ * @param chatId - `useChat` chat id
+ */
+function getChatStreamBuffer(env: Env, chatId: string) {
+  return env.CHAT_STREAMS.get(env.CHAT_STREAMS.idFromName(chatId));
+}
+
+/**
+ * Replay a chat's latest stream to its owner
+ *
+ * @param request - The client's replay request; its search params are kept
+ * @param owner - Session asking to replay
+ */
+function replayChatStream(
+  env: Env,
+  chatId: string,
+  request: Request,
+  owner: string,
+): Promise<Response> {
+  return getChatStreamBuffer(env, chatId).fetch(
+    new Request(request.url, { headers: { [OWNER_HEADER]: owner } }),
+  );
+}
+
+export {
+  ChatStreamBuffer,
+  COMPLETED_STREAM_TTL_MS,
+  getChatStreamBuffer,
+  replayChatStream,
+};
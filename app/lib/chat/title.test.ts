@@ -0,0 +1,63 @@
+import type { LanguageModel } from "ai";
+import { describe, expect, it, vi } from "vitest";
+import type { CaicUiMessage } from "../tools";
+import { summarizeTitle } from "./title";
+
+type LanguageModelV2 = Exclude<LanguageModel, string>;
+
+/** A model that always replies with `text` */
+function replying(text: string) {
+  const model = {
+    specificationVersion: "v2",
+    provider: "mock",
+    modelId: "mock",
+    supportedUrls: {},
+    doGenerate: vi.fn(async () => ({
+      content: [{ type: "text" as const, text }],
+      finishReason: "stop" as const,
+      usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 },
+      warnings: [],
+    })),
+    doStream: async () => {
+      throw new Error("not streamed");
+    },
+  } satisfies LanguageModelV2;
+  return model;
+}
+
+const question: CaicUiMessage[] = [
+  { id: "m1", role: "user", parts: [{ type: "text", text: "Berthoud Pass?" }] },
+];
+
+describe("summarizeTitle", () => {
+  it("keeps the first line without quotes or reasoning", async () => {
+    const model = replying(
+      '<think>They ask about Berthoud.</think>\n"Berthoud Pass forecast."\nExtra',
+    );
+
+    expect(await summarizeTitle(model, question)).toBe(
+      "Berthoud Pass forecast",
+    );
+  });
+
+  it("reports the tokens the call used", async () => {
+    const onUsage = vi.fn();
+
+    await summarizeTitle(replying("Berthoud Pass"), question, { onUsage });
+
+    expect(onUsage).toHaveBeenCalledWith(
+      expect.objectContaining({ inputTokens: 1, outputTokens: 1 }),
+    );
+  });
+
+  it("skips the model when there is no question", async () => {
+    const model = replying("Title");
+
+    expect(await summarizeTitle(model, [])).toBeNull();
+    expect(model.doGenerate).not.toHaveBeenCalled();
+  });
+
+  it("returns null for an empty reply", async () => {
+    expect(await summarizeTitle(replying('""'), question)).toBeNull();
+  });
+});
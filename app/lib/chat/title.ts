@@ -0,0 +1,50 @@
+import { generateText, type LanguageModel, type LanguageModelUsage } from "ai";
+import type { CaicUiMessage } from "../tools";
+import { MAX_TITLE_LENGTH } from "./store";
+
+/** Longest stretch of the question the title is summarized from */
+const MAX_EXCERPT_CHARS = 1_000;
+
+/**
+ * Summarize a conversation's opening question into a short title for the
+ * history sidebar, e.g. "Berthoud Pass weekend forecast". Only the question
+ * is read, so the title can be written while the answer streams.
+ *
+ * @param model - Model to summarize with
+ * @param messages - Conversation so far; only the first user message is read
+ * @param options.onUsage - Called with the tokens the model call used
+ * @returns The title, or null if the model gave nothing usable
+ */
+async function summarizeTitle(
+  model: LanguageModel,
+  messages: CaicUiMessage[],
+  { onUsage }: { onUsage?: (usage: LanguageModelUsage) => void } = {},
+): Promise<string | null> {
+  const question = (messages.find((m) => m.role === "user")?.parts ?? [])
+    .flatMap((part) => (part.type === "text" ? [part.text] : []))
+    .join(" ")
+    .slice(0, MAX_EXCERPT_CHARS);
+  if (!question.trim()) return null;
+
+  const { text, usage } = await generateText({
+    model,
+    system:
+      'Write a title of at most six words for a conversation that starts with this question about avalanche forecasts. Name the place and topic, e.g. "Berthoud Pass weekend forecast". Reply with the title only, no quotes or punctuation at the end.',
+    prompt: question,
+    maxOutputTokens: 64,
+  });
+  onUsage?.(usage);
+
+  const title = text
+    // Reasoning models may include their thinking inline
+    .replace(/<think>[\s\S]*?<\/think>/g, "")
+    .trim()
+    .split("\n")[0]
+    .replace(/^["'“”]+|["'“”.]+$/g, "")
+    .trim();
+  if (!title) return null;
+
+  return title.slice(0, MAX_TITLE_LENGTH);
+}
+
+export { summarizeTitle };
@@ -0,0 +1,166 @@
+import { tool } from "ai";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import type { CaicUiMessage } from "../tools";
+import {
+  conversationUsage,
+  createAnalyticsEngineUsageSink,
+  createUsageTracker,
+  type UsageEvent,
+} from "./usage";
+
+const start = Date.parse("2026-01-12T15:00:00Z");
+
+const step = (inputTokens: number, outputTokens: number) => ({
+  inputTokens,
+  outputTokens,
+  totalTokens: undefined,
+  reasoningTokens: undefined,
+  cachedInputTokens: inputTokens / 2,
+});
+
+describe("createUsageTracker", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: start });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("sums usage over steps", () => {
+    const tracker = createUsageTracker(start);
+    tracker.recordStep(step(100, 20));
+    tracker.recordStep({ ...step(150, 30), totalTokens: 200 });
+    vi.advanceTimersByTime(1_500);
+
+    expect(tracker.summary()).toEqual({
+      inputTokens: 250,
+      outputTokens: 50,
+      totalTokens: 320,
+      reasoningTokens: 0,
+      cachedInputTokens: 125,
+      steps: 2,
+      durationMs: 1_500,
+      tools: [],
+    });
+  });
+
+  it("counts other model calls without adding steps", () => {
+    const tracker = createUsageTracker(start);
+    tracker.recordStep(step(100, 20));
+    tracker.recordCall(step(40, 8));
+
+    expect(tracker.summary()).toMatchObject({
+      inputTokens: 140,
+      outputTokens: 28,
+      totalTokens: 168,
+      steps: 1,
+    });
+  });
+
+  it("times tool calls, including ones that throw", async () => {
+    const tracker = createUsageTracker(start);
+    const tools = tracker.timeTools({
+      geocode: tool({
+        inputSchema: z.object({}),
+        execute: async () => {
+          vi.advanceTimersByTime(250);
+          return { lat: 39.8, lng: -105.7 };
+        },
+      }),
+      listZones: tool({
+        inputSchema: z.object({}),
+        execute: async (): Promise<{ zones: string[] }> => {
+          vi.advanceTimersByTime(40);
+          throw new Error("CAIC is down");
+        },
+      }),
+    });
+    const options = { toolCallId: "call-1", messages: [] };
+
+    expect(await tools.geocode.execute!({}, options)).toEqual({
+      lat: 39.8,
+      lng: -105.7,
+    });
+    await expect(tools.listZones.execute!({}, options)).rejects.toThrow();
+
+    expect(tracker.summary().tools).toEqual([
+      { toolName: "geocode", durationMs: 250 },
+      { toolName: "listZones", durationMs: 40 },
+    ]);
+  });
+});
+
+describe("conversationUsage", () => {
+  it("totals the usage answers carry in their metadata", () => {
+    const usage = {
+      inputTokens: 100,
+      outputTokens: 20,
+      totalTokens: 120,
+      reasoningTokens: 5,
+      cachedInputTokens: 50,
+      steps: 2,
+      durationMs: 900,
+      tools: [],
+    };
+    const answer = (id: string): CaicUiMessage => ({
+      id,
+      role: "assistant",
+      parts: [],
+      metadata: { usage },
+    });
+
+    expect(
+      conversationUsage([
+        { id: "q", role: "user", parts: [] },
+        answer("a1"),
+        answer("a2"),
+      ]),
+    ).toEqual({
+      inputTokens: 200,
+      outputTokens: 40,
+      totalTokens: 240,
+      reasoningTokens: 10,
+      cachedInputTokens: 100,
+      steps: 4,
+      answers: 2,
+    });
+  });
+});
+
+describe("createAnalyticsEngineUsageSink", () => {
+  it("writes one data point indexed by chat id", () => {
+    const writeDataPoint = vi.fn();
+    const event: UsageEvent = {
+      chatId: "c".repeat(100),
+      model: "@cf/qwen/qwen3-30b-a3b-fp8",
+      prompt: "caic-v1@1",
+      finishReason: "stop",
+      inputTokens: 100,
+      outputTokens: 20,
+      totalTokens: 120,
+      reasoningTokens: 0,
+      cachedInputTokens: 0,
+      steps: 2,
+      durationMs: 900,
+      tools: [
+        { toolName: "geocode", durationMs: 200 },
+        { toolName: "getAvalancheInfo", durationMs: 300 },
+      ],
+    };
+
+    createAnalyticsEngineUsageSink({ writeDataPoint }).record(event);
+
+    expect(writeDataPoint).toHaveBeenCalledWith({
+      indexes: ["c".repeat(96)],
+      blobs: [
+        "@cf/qwen/qwen3-30b-a3b-fp8",
+        "caic-v1@1",
+        "stop",
+        "geocode,getAvalancheInfo",
+      ],
+      doubles: [100, 20, 120, 0, 0, 2, 900, 500],
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import type { LanguageModelUsage, ToolSet } from "ai";
+import type { CaicUiMessage } from "../tools";
+
+/**
+ * How long one tool call took
+ */
+interface ToolTiming {
+  toolName: string;
+  durationMs: number;
+}
+
+/**
+ * Token usage and timing of one answer, summed over its steps. Providers
+ * that don't report a count leave it at 0.
+ */
+interface UsageSummary {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  reasoningTokens: number;
+  cachedInputTokens: number;
+  /** Model calls made, one more than the rounds of tool calls */
+  steps: number;
+  /** From the start of the request to the end of the answer */
+  durationMs: number;
+  tools: ToolTiming[];
+}
+
+/**
+ * Usage of one answer as reported to the metrics sink
+ */
+type UsageEvent = UsageSummary & {
+  chatId?: string;
+  /** Model that answered the last step */
+  model: string;
+  /** System prompt id and version, e.g. "caic-v1@3" */
+  prompt: string;
+  finishReason: string;
+};
+
+/**
+ * Destination for per-answer usage
+ */
+interface UsageSink {
+  record(event: UsageEvent): void;
+}
+
+/**
+ * Collects usage for one answer from `streamText` step callbacks and tool
+ * calls
+ */
+interface UsageTracker {
+  /** Add a finished step's usage, from `onStepFinish` */
+  recordStep(usage: LanguageModelUsage): void;
+  /** Add the usage of a model call outside the answer's steps, e.g. titling */
+  recordCall(usage: LanguageModelUsage): void;
+  /** Wrap each tool's `execute` to time its calls */
+  timeTools<T extends ToolSet>(tools: T): T;
+  /** Usage so far */
+  summary(): UsageSummary;
+}
+
+/**
+ * Start tracking usage for an answer
+ *
+ * @param startedAt - When the request arrived, in epoch milliseconds
+ */
+function createUsageTracker(startedAt = Date.now()): UsageTracker {
+  const totals = {
+    inputTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+    reasoningTokens: 0,
+    cachedInputTokens: 0,
+  };
+  const tools: ToolTiming[] = [];
+  let steps = 0;
+
+  const recordCall = (usage: LanguageModelUsage) => {
+    totals.inputTokens += usage.inputTokens ?? 0;
+    totals.outputTokens += usage.outputTokens ?? 0;
+    totals.totalTokens +=
+      usage.totalTokens ?? (usage.inputTokens ?? 0) + (usage.outputTokens ?? 0);
+    totals.reasoningTokens += usage.reasoningTokens ?? 0;
+    totals.cachedInputTokens += usage.cachedInputTokens ?? 0;
+  };
+
+  return {
+    recordStep(usage) {
+      steps++;
+      recordCall(usage);
+    },
+
+    recordCall,
+
+    timeTools<T extends ToolSet>(toolSet: T): T {
+      return Object.fromEntries(
+        Object.entries(toolSet).map(([toolName, tool]) => {
+          const execute = tool.execute;
+          if (!execute) return [toolName, tool];
+          return [
+            toolName,
+            {
+              ...tool,
+              execute: async (input: unknown, options: never) => {
+                const callStartedAt = Date.now();
+                try {
+                  return await execute(input, options);
+                } finally {
+                  tools.push({
+                    toolName,
+                    durationMs: Date.now() - callStartedAt,
+                  });
+                }
+              },
+            },
+          ];
+        }),
+      ) as T;
+    },
+
+    summary() {
+      return {
+        ...totals,
+        steps,
+        durationMs: Date.now() - startedAt,
+        tools: [...tools],
+      };
+    },
+  };
+}
+
+/**
+ * Usage of a whole conversation, from the usage its answers carry in their
+ * metadata
+ */
+function conversationUsage(
+  messages: CaicUiMessage[],
+): Omit<UsageSummary, "durationMs" | "tools"> & { answers: number } {
+  const total = {
+    inputTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+    reasoningTokens: 0,
+    cachedInputTokens: 0,
+    steps: 0,
+    answers: 0,
+  };
+  for (const message of messages) {
+    const usage = message.metadata?.usage;
+    if (!usage) continue;
+    total.inputTokens += usage.inputTokens;
+    total.outputTokens += usage.outputTokens;
+    total.totalTokens += usage.totalTokens;
+    total.reasoningTokens += usage.reasoningTokens;
+    total.cachedInputTokens += usage.cachedInputTokens;
+    total.steps += usage.steps;
+    total.answers++;
+  }
+  return total;
+}
+
+/**
+ * Usage sink writing one data point per answer to Workers Analytics Engine.
+ * Data points are indexed by chat id, so totals per conversation are a
+ * `GROUP BY index1` away.
+ *
+ * - blob1: model, blob2: prompt, blob3: finish reason, blob4: tools called,
+ *   comma-separated
+ * - double1–5: input, output, total, reasoning and cached input tokens
+ * - double6: steps, double7: duration in ms, double8: total tool time in ms
+ */
+function createAnalyticsEngineUsageSink(
+  dataset: AnalyticsEngineDataset,
+): UsageSink {
+  return {
+    record(event) {
+      dataset.writeDataPoint({
+        // Indexes are limited to 96 bytes
+        indexes: [(event.chatId ?? "").slice(0, 96)],
+        blobs: [
+          event.model,
+          event.prompt,
+          event.finishReason,
+          event.tools.map((t) => t.toolName).join(","),
+        ],
+        doubles: [
+          event.inputTokens,
+          event.outputTokens,
+          event.totalTokens,
+          event.reasoningTokens,
+          event.cachedInputTokens,
+          event.steps,
+          event.durationMs,
+          event.tools.reduce((sum, t) => sum + t.durationMs, 0),
+        ],
+      });
+    },
+  };
+}
+
+/**
+ * Usage sink that logs each answer's usage as a JSON event
+ */
+function createLogUsageSink(): UsageSink {
+  return {
+    record(event) {
+      console.log(JSON.stringify({ event: "chat_usage", ...event }));
+    },
+  };
+}
+
+/**
+ * Create the usage sink for the current Worker environment
+ *
+ * @param env - Worker environment bindings
+ * @param dev - Log usage instead of writing to Analytics Engine, as under
+ * `vite dev`
+ */
+function createUsageSinkForEnv(env: Env, dev: boolean): UsageSink {
+  return dev
+    ? createLogUsageSink()
+    : createAnalyticsEngineUsageSink(env.CHAT_USAGE);
+}
+
+export {
+  conversationUsage,
+  createAnalyticsEngineUsageSink,
+  createLogUsageSink,
+  createUsageSinkForEnv,
+  createUsageTracker,
+};
+export type { ToolTiming, UsageEvent, UsageSink, UsageSummary, UsageTracker };
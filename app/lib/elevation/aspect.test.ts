@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { deriveSlope } from "./aspect";
+import type { ElevationProvider } from "./providers";
+
+/** A tilted plane rising `eastRise` and `northRise` metres per metre */
+function plane(eastRise: number, northRise: number): ElevationProvider {
+  return {
+    getElevations: async (points) =>
+      points.map(
+        ({ lat, lng }) =>
+          3000 +
+          eastRise * (lng + 106) * 111_320 * Math.cos((39 * Math.PI) / 180) +
+          northRise * (lat - 39) * 111_320,
+      ),
+  };
+}
+
+const point = { lat: 39, lng: -106 };
+
+describe("deriveSlope", () => {
+  it("faces down the gradient", async () => {
+    const slope = await deriveSlope(plane(0.5, 0), point);
+
+    expect(slope?.aspect).toBe("w");
+    expect(slope?.bearing).toBeCloseTo(270, 0);
+    expect(slope?.slopeDegrees).toBeCloseTo(26.6, 0);
+  });
+
+  it("combines both directions of the gradient", async () => {
+    const slope = await deriveSlope(plane(-0.5, -0.5), point);
+
+    expect(slope?.aspect).toBe("ne");
+  });
+
+  it("has no aspect on flat ground", async () => {
+    const slope = await deriveSlope(plane(0.01, 0), point);
+
+    expect(slope).toMatchObject({ aspect: null });
+    expect(slope?.slopeDegrees).toBeLessThan(5);
+  });
+
+  it("returns null without elevations around the point", async () => {
+    const missing: ElevationProvider = {
+      getElevations: async (points) => points.map(() => null),
+    };
+
+    expect(await deriveSlope(missing, point)).toBeNull();
+  });
+});
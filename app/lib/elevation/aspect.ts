@@ -0,0 +1,69 @@
+import { type Aspect, aspectFromBearing } from "../caic";
+import type { ElevationProvider } from "./providers";
+
+/** Metres per degree of latitude */
+const METRES_PER_DEGREE = 111_320;
+
+/** Slopes gentler than this have no meaningful aspect */
+const MIN_SLOPE_DEGREES = 5;
+
+/**
+ * Which way and how steeply the ground at a point faces
+ */
+interface SlopeGeometry {
+  /** Compass aspect, or null when the ground is too flat to have one */
+  aspect: Aspect | null;
+  /** Downslope direction in degrees clockwise from north */
+  bearing: number;
+  /** Slope angle in degrees */
+  slopeDegrees: number;
+}
+
+/**
+ * Derive slope aspect and angle at a point from the elevation gradient,
+ * using central differences over four neighbouring samples
+ *
+ * @param provider - Elevation lookup to sample
+ * @param point - The point on the slope
+ * @param spacingMetres - Distance from the point to each sample (default: 30)
+ * @returns null when the provider has no elevation around the point
+ */
+async function deriveSlope(
+  provider: ElevationProvider,
+  { lat, lng }: { lat: number; lng: number },
+  spacingMetres = 30,
+): Promise<SlopeGeometry | null> {
+  const dLat = spacingMetres / METRES_PER_DEGREE;
+  const dLng =
+    spacingMetres / (METRES_PER_DEGREE * Math.cos((lat * Math.PI) / 180));
+
+  const [north, south, east, west] = await provider.getElevations([
+    { lat: lat + dLat, lng },
+    { lat: lat - dLat, lng },
+    { lat, lng: lng + dLng },
+    { lat, lng: lng - dLng },
+  ]);
+  if (north === null || south === null || east === null || west === null) {
+    return null;
+  }
+
+  // Rise per metre towards the east and towards the north
+  const gradientEast = (east - west) / (2 * spacingMetres);
+  const gradientNorth = (north - south) / (2 * spacingMetres);
+
+  const slopeDegrees =
+    (Math.atan(Math.hypot(gradientEast, gradientNorth)) * 180) / Math.PI;
+  // The slope faces down the gradient
+  const bearing =
+    ((Math.atan2(-gradientEast, -gradientNorth) * 180) / Math.PI + 360) % 360;
+
+  return {
+    aspect:
+      slopeDegrees < MIN_SLOPE_DEGREES ? null : aspectFromBearing(bearing),
+    bearing,
+    slopeDegrees,
+  };
+}
+
+export { deriveSlope };
+export type { SlopeGeometry };
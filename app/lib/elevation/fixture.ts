@@ -0,0 +1,48 @@
+import type { DemTile } from "./providers";
+
+/** Extent of the fixture tile, covering the fixture forecast zones */
+const WEST = -107.4;
+const NORTH = 40.7;
+const CELL_SIZE = 0.01;
+const WIDTH = 210;
+const HEIGHT = 230;
+
+/**
+ * Synthetic terrain: a few overlapping ridge systems giving relief from
+ * roughly 2,300 m valleys to 4,200 m summits, like the Colorado Rockies.
+ * Deterministic, so aspects and bands are stable between runs.
+ */
+function syntheticElevation(lat: number, lng: number): number {
+  const ridges =
+    Math.sin((lng * 2 * Math.PI) / 0.23) * Math.cos((lat * 2 * Math.PI) / 0.31);
+  const spurs = Math.sin(((lng * 0.7 + lat) * 2 * Math.PI) / 0.11);
+  const texture =
+    Math.cos((lat * 2 * Math.PI) / 0.05) * Math.sin((lng * 2 * Math.PI) / 0.07);
+  return 3250 + 600 * ridges + 300 * spurs + 100 * texture;
+}
+
+/**
+ * Build an offline stand-in DEM tile for local development and scripted
+ * checks, paired with the synthetic CAIC fixtures
+ */
+function createFixtureDemTile(): DemTile {
+  const elevations = new Float32Array(WIDTH * HEIGHT);
+  for (let row = 0; row < HEIGHT; row++) {
+    const lat = NORTH - (row + 0.5) * CELL_SIZE;
+    for (let col = 0; col < WIDTH; col++) {
+      const lng = WEST + (col + 0.5) * CELL_SIZE;
+      elevations[row * WIDTH + col] = syntheticElevation(lat, lng);
+    }
+  }
+
+  return {
+    west: WEST,
+    north: NORTH,
+    cellSize: CELL_SIZE,
+    width: WIDTH,
+    height: HEIGHT,
+    elevations,
+  };
+}
+
+export { createFixtureDemTile };
@@ -0,0 +1,40 @@
+import {
+  createDemElevationProvider,
+  createGoogleElevationProvider,
+  type ElevationProvider,
+} from "./providers";
+
+/**
+ * Create the elevation provider for the current Worker environment.
+ * `CAIC_USE_FIXTURES=true` (dev only) samples a synthetic DEM tile instead
+ * of calling the Google Elevation API.
+ *
+ * @param env - Worker environment bindings
+ */
+async function createElevationProviderForEnv(
+  env: Env,
+): Promise<ElevationProvider> {
+  if (import.meta.env.DEV && env.CAIC_USE_FIXTURES === "true") {
+    const { createFixtureDemTile } = await import("./fixture");
+    return createDemElevationProvider([createFixtureDemTile()]);
+  }
+
+  return createGoogleElevationProvider(env.GOOGLE_MAPS_API_KEY);
+}
+
+export { createElevationProviderForEnv };
+export {
+  createDemElevationProvider,
+  createGoogleElevationProvider,
+} from "./providers";
+export type { DemTile, ElevationProvider } from "./providers";
+export {
+  classifyElevationBand,
+  FEET_PER_METRE,
+  metresToFeet,
+  resolveElevationBand,
+  treelineFor,
+} from "./treeline";
+export type { PointElevationBand, TreelineThresholds } from "./treeline";
+export { deriveSlope } from "./aspect";
+export type { SlopeGeometry } from "./aspect";
@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  createDemElevationProvider,
+  createGoogleElevationProvider,
+  type DemTile,
+} from "./providers";
+
+/** A 2×2 tile with 0.1° cells, rising to the east */
+const tile: DemTile = {
+  west: -106,
+  north: 40,
+  cellSize: 0.1,
+  width: 2,
+  height: 2,
+  elevations: [3000, 3200, 3000, 3200],
+};
+
+describe("createDemElevationProvider", () => {
+  it("interpolates between cell centres and clamps at the edges", async () => {
+    const provider = createDemElevationProvider([tile]);
+
+    const elevations = await provider.getElevations([
+      { lat: 39.9, lng: -105.9 },
+      { lat: 39.95, lng: -105.95 },
+      { lat: 39.81, lng: -105.81 },
+    ]);
+
+    expect(elevations[0]).toBeCloseTo(3100);
+    expect(elevations[1]).toBeCloseTo(3000);
+    expect(elevations[2]).toBeCloseTo(3200);
+  });
+
+  it("has no elevation outside every tile", async () => {
+    const provider = createDemElevationProvider([tile]);
+
+    expect(await provider.getElevations([{ lat: 41, lng: -105.9 }])).toEqual([
+      null,
+    ]);
+  });
+});
+
+describe("createGoogleElevationProvider", () => {
+  const points = Array.from({ length: 150 }, (_, i) => ({
+    lat: 39 + i / 1000,
+    lng: -106,
+  }));
+
+  it("batches lookups and keeps their order", async () => {
+    const fetchImpl = vi.fn(async (url: string | URL | Request) => {
+      const locations = new URL(String(url)).searchParams.get("locations")!;
+      return Response.json({
+        status: "OK",
+        results: locations
+          .split("|")
+          .map((location) => ({ elevation: Number(location.split(",")[0]) })),
+      });
+    });
+    const provider = createGoogleElevationProvider("key", fetchImpl);
+
+    const elevations = await provider.getElevations(points);
+
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+    expect(elevations).toEqual(points.map((p) => p.lat));
+  });
+
+  it("returns nulls for batches that fail", async () => {
+    const fetchImpl = vi
+      .fn<typeof fetch>()
+      .mockRejectedValueOnce(new TypeError("network"))
+      .mockResolvedValueOnce(Response.json({ status: "OVER_QUERY_LIMIT" }));
+    const provider = createGoogleElevationProvider("key", fetchImpl);
+
+    const elevations = await provider.getElevations(points);
+
+    expect(elevations).toHaveLength(150);
+    expect(elevations.every((e) => e === null)).toBe(true);
+  });
+
+  it("gives up on requests that take too long", async () => {
+    // Never answers; only settles when the request is aborted
+    const fetchImpl = vi.fn<typeof fetch>(
+      (_, init) =>
+        new Promise((_, reject) =>
+          init?.signal?.addEventListener("abort", () =>
+            reject(init.signal?.reason),
+          ),
+        ),
+    );
+    const provider = createGoogleElevationProvider("key", fetchImpl, 10);
+
+    expect(await provider.getElevations(points.slice(0, 1))).toEqual([null]);
+  });
+});
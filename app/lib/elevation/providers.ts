@@ -0,0 +1,148 @@
+/**
+ * Pluggable ground elevation lookup.
+ *
+ * Production uses the Google Elevation API; local development and offline
+ * runs sample an in-memory DEM grid instead.
+ */
+interface ElevationProvider {
+  /**
+   * Elevation in metres above sea level for each point, in order.
+   * Null where the provider has no data for a point.
+   */
+  getElevations(
+    points: { lat: number; lng: number }[],
+  ): Promise<(number | null)[]>;
+}
+
+/**
+ * A digital elevation model tile: a regular grid of elevations in metres,
+ * stored row by row from the north-west corner
+ */
+interface DemTile {
+  /** Longitude of the western edge of the first column */
+  west: number;
+  /** Latitude of the northern edge of the first row */
+  north: number;
+  /** Grid spacing in degrees, the same in both directions */
+  cellSize: number;
+  width: number;
+  height: number;
+  /** `width * height` elevations in metres */
+  elevations: ArrayLike<number>;
+}
+
+/** Google accepts up to 512 locations per request; stay well under the URL limit */
+const GOOGLE_MAX_LOCATIONS_PER_REQUEST = 100;
+
+interface GoogleElevationResponse {
+  status: string;
+  results?: { elevation: number }[];
+}
+
+/**
+ * Elevation provider backed by the Google Elevation API. Batches that fail
+ * or time out yield null elevations rather than throwing, since elevation
+ * only refines an answer the caller can give without it.
+ * @see https://developers.google.com/maps/documentation/elevation/overview
+ *
+ * @param apiKey - Google Maps API key with the Elevation API enabled
+ * @param fetchImpl - Custom fetch implementation (default: global fetch)
+ * @param timeoutMs - Per-request timeout in milliseconds (default: 5000)
+ */
+function createGoogleElevationProvider(
+  apiKey: string,
+  fetchImpl: typeof fetch = fetch,
+  timeoutMs = 5_000,
+): ElevationProvider {
+  return {
+    async getElevations(points) {
+      const elevations: (number | null)[] = [];
+
+      for (
+        let i = 0;
+        i < points.length;
+        i += GOOGLE_MAX_LOCATIONS_PER_REQUEST
+      ) {
+        const batch = points.slice(i, i + GOOGLE_MAX_LOCATIONS_PER_REQUEST);
+        const params = new URLSearchParams({
+          locations: batch.map(({ lat, lng }) => `${lat},${lng}`).join("|"),
+          key: apiKey,
+        });
+
+        let data: GoogleElevationResponse | null = null;
+        try {
+          const response = await fetchImpl(
+            `https://maps.googleapis.com/maps/api/elevation/json?${params}`,
+            { signal: AbortSignal.timeout(timeoutMs) },
+          );
+          if (response.ok) {
+            data = await response.json();
+          }
+        } catch {
+          // Treated as missing data below
+        }
+
+        if (data?.status !== "OK" || data.results?.length !== batch.length) {
+          elevations.push(...batch.map(() => null));
+          continue;
+        }
+
+        elevations.push(...data.results.map((r) => r.elevation));
+      }
+
+      return elevations;
+    },
+  };
+}
+
+/**
+ * Bilinearly interpolate a tile at a point, or null outside the tile
+ */
+function sampleTile(tile: DemTile, lat: number, lng: number): number | null {
+  // Grid coordinates, with cell centres at whole numbers
+  const x = (lng - tile.west) / tile.cellSize - 0.5;
+  const y = (tile.north - lat) / tile.cellSize - 0.5;
+  if (x < -0.5 || y < -0.5 || x > tile.width - 0.5 || y > tile.height - 0.5) {
+    return null;
+  }
+
+  const clampX = (value: number) =>
+    Math.min(tile.width - 1, Math.max(0, value));
+  const clampY = (value: number) =>
+    Math.min(tile.height - 1, Math.max(0, value));
+  const x0 = clampX(Math.floor(x));
+  const y0 = clampY(Math.floor(y));
+  const x1 = clampX(x0 + 1);
+  const y1 = clampY(y0 + 1);
+  const tx = Math.min(1, Math.max(0, x - x0));
+  const ty = Math.min(1, Math.max(0, y - y0));
+
+  const at = (col: number, row: number) =>
+    tile.elevations[row * tile.width + col];
+  const top = at(x0, y0) * (1 - tx) + at(x1, y0) * tx;
+  const bottom = at(x0, y1) * (1 - tx) + at(x1, y1) * tx;
+  return top * (1 - ty) + bottom * ty;
+}
+
+/**
+ * Elevation provider that samples in-memory DEM tiles. Points outside every
+ * tile have no elevation.
+ *
+ * @param tiles - DEM tiles to sample, searched in order
+ */
+function createDemElevationProvider(tiles: DemTile[]): ElevationProvider {
+  return {
+    async getElevations(points) {
+      return points.map(({ lat, lng }) => {
+        for (const tile of tiles) {
+          const elevation = sampleTile(tile, lat, lng);
+          if (elevation !== null) return elevation;
+        }
+        return null;
+      });
+    },
+  };
+}
+
+export { createDemElevationProvider, createGoogleElevationProvider };
+export type { DemTile, ElevationProvider };
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { createCAICClient } from "../caic";
+import { createFixtureFetch } from "../caic/fixtures";
+import {
+  classifyElevationBand,
+  FEET_PER_METRE,
+  metresToFeet,
+  treelineFor,
+} from "./treeline";
+
+describe("treelineFor", () => {
+  it("matches zone names loosely", () => {
+    expect(metresToFeet(treelineFor("vail and summit county").lower)).toBe(
+      11_200,
+    );
+  });
+
+  it("falls back to a default for unknown zones", () => {
+    expect(treelineFor("Northern Mountains")).toEqual(
+      treelineFor("Front Range"),
+    );
+  });
+
+  it("has its own thresholds for every zone in the catalog", async () => {
+    const client = createCAICClient({ fetch: createFixtureFetch() });
+    const catalog = await client.getZoneCatalog();
+    // Every unknown name gets the same default object
+    const fallback = treelineFor("Northern Mountains");
+
+    expect(catalog.list().length).toBeGreaterThan(0);
+    for (const zone of catalog.list()) {
+      expect(treelineFor(zone.publicName), zone.publicName).not.toBe(fallback);
+    }
+  });
+});
+
+describe("classifyElevationBand", () => {
+  const treeline = treelineFor("Sawatch");
+
+  it("splits at the treeline thresholds", () => {
+    expect(classifyElevationBand(11_499 / FEET_PER_METRE, treeline)).toBe(
+      "btl",
+    );
+    expect(classifyElevationBand(treeline.lower, treeline)).toBe("tln");
+    expect(classifyElevationBand(treeline.upper, treeline)).toBe("alp");
+  });
+});
@@ -0,0 +1,120 @@
+import { type ElevationBand, normalizeName } from "../caic";
+import type { ElevationProvider } from "./providers";
+
+/**
+ * Elevations bounding the treeline band in a zone, in metres
+ */
+interface TreelineThresholds {
+  /** Below this is below treeline (`btl`) */
+  lower: number;
+  /** At or above this is alpine (`alp`) */
+  upper: number;
+}
+
+const FEET_PER_METRE = 3.28084;
+
+const feet = (lower: number, upper: number): TreelineThresholds => ({
+  lower: lower / FEET_PER_METRE,
+  upper: upper / FEET_PER_METRE,
+});
+
+/**
+ * Approximate treeline band per CAIC zone. Treeline sits lower in the wetter
+ * northern and western ranges and higher in the south; CAIC does not publish
+ * exact bounds, so these are rounded to the nearest 100 ft.
+ */
+const treelineByZone: Record<string, TreelineThresholds> = {
+  [normalizeName("Steamboat & Flat Tops")]: feet(10_500, 11_200),
+  [normalizeName("Front Range")]: feet(11_000, 11_800),
+  [normalizeName("Vail & Summit County")]: feet(11_200, 11_900),
+  [normalizeName("Sawatch")]: feet(11_500, 12_000),
+  [normalizeName("Aspen")]: feet(11_300, 12_000),
+  [normalizeName("Gunnison")]: feet(11_200, 11_800),
+  [normalizeName("Grand Mesa")]: feet(10_500, 11_000),
+  [normalizeName("North San Juan")]: feet(11_500, 12_000),
+  [normalizeName("South San Juan")]: feet(11_300, 11_900),
+  [normalizeName("Sangre de Cristo")]: feet(11_500, 12_000),
+};
+
+/** Used for zones without their own thresholds */
+const DEFAULT_TREELINE = feet(11_000, 11_800);
+
+/**
+ * Treeline thresholds for a zone
+ * @param publicName - Zone name as published on the forecast
+ */
+function treelineFor(publicName: string): TreelineThresholds {
+  return treelineByZone[normalizeName(publicName)] ?? DEFAULT_TREELINE;
+}
+
+/**
+ * Classify an elevation into a CAIC elevation band
+ *
+ * @param elevation - Elevation in metres
+ * @param treeline - Treeline thresholds for the zone
+ */
+function classifyElevationBand(
+  elevation: number,
+  treeline: TreelineThresholds,
+): ElevationBand {
+  if (elevation >= treeline.upper) return "alp";
+  if (elevation >= treeline.lower) return "tln";
+  return "btl";
+}
+
+/**
+ * A point's elevation and the band it falls in
+ */
+interface PointElevationBand {
+  elevationFt: number;
+  band: ElevationBand;
+  /** Whether the elevation came from the user or an elevation lookup */
+  source: "user" | "lookup";
+}
+
+/**
+ * Work out which elevation band a point is in, from a known elevation or by
+ * looking it up
+ *
+ * @param provider - Elevation lookup, used when `elevationFt` is not given
+ * @param point - The point to classify
+ * @param publicName - Name of the zone the point is in, for its treeline
+ * @param elevationFt - Elevation in feet, if already known
+ * @returns null when no elevation is known for the point
+ */
+async function resolveElevationBand(
+  provider: ElevationProvider | undefined,
+  point: { lat: number; lng: number },
+  publicName: string,
+  elevationFt?: number,
+): Promise<PointElevationBand | null> {
+  let metres: number | null = null;
+  if (elevationFt !== undefined) {
+    metres = elevationFt / FEET_PER_METRE;
+  } else if (provider) {
+    [metres] = await provider.getElevations([point]);
+  }
+  if (metres === null) return null;
+
+  return {
+    elevationFt: metresToFeet(metres),
+    band: classifyElevationBand(metres, treelineFor(publicName)),
+    source: elevationFt !== undefined ? "user" : "lookup",
+  };
+}
+
+/**
+ * Convert metres to feet, rounded to the nearest foot
+ */
+function metresToFeet(metres: number): number {
+  return Math.round(metres * FEET_PER_METRE);
+}
+
+export {
+  classifyElevationBand,
+  FEET_PER_METRE,
+  metresToFeet,
+  resolveElevationBand,
+  treelineFor,
+};
+export type { PointElevationBand, TreelineThresholds };
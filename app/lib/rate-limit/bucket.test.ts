@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { parseRateLimit, takeTokens } from "./bucket";
+
+const fallback = { capacity: 1, refillPerSecond: 1 };
+
+describe("parseRateLimit", () => {
+  it("parses a count per period", () => {
+    expect(parseRateLimit("90/1h", fallback)).toEqual({
+      capacity: 90,
+      refillPerSecond: 90 / 3600,
+    });
+    expect(parseRateLimit(" 10 / 2d ", fallback)).toEqual({
+      capacity: 10,
+      refillPerSecond: 10 / (2 * 86400),
+    });
+  });
+
+  it("reads a bare unit as one period", () => {
+    expect(parseRateLimit("10/m", fallback)).toEqual({
+      capacity: 10,
+      refillPerSecond: 10 / 60,
+    });
+  });
+
+  it("falls back for missing, malformed or zero limits", () => {
+    for (const value of [undefined, "", "ten/m", "10/1w", "0/1h", "5/0s"]) {
+      expect(parseRateLimit(value, fallback)).toBe(fallback);
+    }
+  });
+});
+
+describe("takeTokens", () => {
+  const config = { capacity: 2, refillPerSecond: 0.5 };
+
+  it("starts a new bucket full", () => {
+    const { state, result } = takeTokens(undefined, config, 1, 0);
+    expect(result).toEqual({
+      allowed: true,
+      remaining: 1,
+      retryAfterSeconds: 0,
+    });
+    expect(state).toEqual({ tokens: 1, updatedAt: 0 });
+  });
+
+  it("denies once empty and says when to retry", () => {
+    const first = takeTokens(undefined, config, 2, 0);
+    const second = takeTokens(first.state, config, 1, 0);
+    expect(second.result).toEqual({
+      allowed: false,
+      remaining: 0,
+      retryAfterSeconds: 2,
+    });
+  });
+
+  it("refills with elapsed time up to capacity", () => {
+    const empty = { tokens: 0, updatedAt: 0 };
+    expect(takeTokens(empty, config, 1, 1_000).result.allowed).toBe(false);
+    expect(takeTokens(empty, config, 1, 2_000).result.allowed).toBe(true);
+    expect(takeTokens(empty, config, 1, 3_600_000).state.tokens).toBe(1);
+  });
+
+  it("ignores a clock that moves backwards", () => {
+    const { state } = takeTokens({ tokens: 1, updatedAt: 5_000 }, config, 0, 0);
+    expect(state.tokens).toBe(1);
+  });
+
+  it("takes the whole bucket for a cost above capacity", () => {
+    const full = takeTokens(undefined, config, 5, 0);
+    expect(full.result).toMatchObject({ allowed: true, remaining: 0 });
+
+    const empty = takeTokens(full.state, config, 5, 0);
+    expect(empty.result).toMatchObject({
+      allowed: false,
+      retryAfterSeconds: 4,
+    });
+  });
+});
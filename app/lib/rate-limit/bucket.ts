@@ -0,0 +1,107 @@
+/**
+ * Token bucket limits: up to `capacity` requests at once, refilled
+ * continuously at `refillPerSecond`
+ */
+interface TokenBucketConfig {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+/**
+ * Stored state of one bucket
+ */
+interface TokenBucketState {
+  tokens: number;
+  /** Epoch milliseconds of the last refill */
+  updatedAt: number;
+}
+
+/**
+ * Outcome of taking tokens from a bucket
+ */
+interface RateLimitResult {
+  allowed: boolean;
+  /** Whole tokens left after this request */
+  remaining: number;
+  /** Seconds until the request would be allowed; 0 if it was */
+  retryAfterSeconds: number;
+}
+
+const PERIOD_SECONDS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60,
+};
+
+/**
+ * Parse a limit such as "90/1h" (90 per hour) or "10/m". The bucket holds
+ * the full allowance, so a client may use it in one burst, then waits for it
+ * to refill.
+ *
+ * @returns The limit, or `fallback` if `value` is empty or malformed
+ */
+function parseRateLimit(
+  value: string | undefined,
+  fallback: TokenBucketConfig,
+): TokenBucketConfig {
+  const match = value?.trim().match(/^(\d+)\s*\/\s*(\d*)\s*([smhd])$/);
+  if (!match) return fallback;
+
+  const [, count, periods, unit] = match;
+  const capacity = Number(count);
+  const seconds = Number(periods || 1) * PERIOD_SECONDS[unit];
+  if (capacity <= 0 || seconds <= 0) return fallback;
+
+  return { capacity, refillPerSecond: capacity / seconds };
+}
+
+/**
+ * Refill a bucket for the time elapsed, then take `cost` tokens if there
+ * are enough
+ *
+ * @param state - Current state, or undefined for a new (full) bucket
+ * @param cost - Tokens to take; a cost above capacity takes the whole bucket
+ * @returns The new state and whether the request is allowed
+ */
+function takeTokens(
+  state: TokenBucketState | undefined,
+  config: TokenBucketConfig,
+  cost: number,
+  now: number,
+): { state: TokenBucketState; result: RateLimitResult } {
+  const take = Math.min(cost, config.capacity);
+  const elapsedSeconds = state ? Math.max(0, now - state.updatedAt) / 1000 : 0;
+  const tokens = Math.min(
+    config.capacity,
+    (state?.tokens ?? config.capacity) +
+      elapsedSeconds * config.refillPerSecond,
+  );
+
+  if (tokens >= take) {
+    return {
+      state: { tokens: tokens - take, updatedAt: now },
+      result: {
+        allowed: true,
+        remaining: Math.floor(tokens - take),
+        retryAfterSeconds: 0,
+      },
+    };
+  }
+
+  const needed = take - tokens;
+  return {
+    state: { tokens, updatedAt: now },
+    result: {
+      allowed: false,
+      remaining: Math.floor(tokens),
+      retryAfterSeconds: Math.max(
+        1,
+        Math.ceil(needed / config.refillPerSecond),
+      ),
+    },
+  };
+}
+
+export { parseRateLimit, takeTokens };
+export type { RateLimitResult, TokenBucketConfig, TokenBucketState };
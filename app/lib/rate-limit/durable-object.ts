@@ -0,0 +1,52 @@
+import { DurableObject } from "cloudflare:workers";
+import {
+  takeTokens,
+  type RateLimitResult,
+  type TokenBucketConfig,
+  type TokenBucketState,
+} from "./bucket";
+
+/**
+ * Token buckets for one client, one object per rate limit key. Durable
+ * Objects handle one request at a time, so concurrent requests from the same
+ * client can't both spend the last token.
+ */
+class RateLimitBuckets extends DurableObject<Env> {
+  /**
+   * Take `cost` tokens from the named bucket
+   *
+   * @param bucket - Bucket name, e.g. "modelSteps"
+   * @param config - Current limits for the bucket, from the Worker's env
+   */
+  async consume(
+    bucket: string,
+    config: TokenBucketConfig,
+    cost: number,
+  ): Promise<RateLimitResult> {
+    const key = `bucket:${bucket}`;
+    const { state, result } = takeTokens(
+      await this.ctx.storage.get<TokenBucketState>(key),
+      config,
+      cost,
+      Date.now(),
+    );
+    await this.ctx.storage.put(key, state);
+
+    // Idle clients are forgotten once every bucket would be full again
+    const fullAt =
+      Date.now() +
+      ((config.capacity - state.tokens) / config.refillPerSecond) * 1000;
+    const alarm = await this.ctx.storage.getAlarm();
+    if (alarm === null || alarm < fullAt) {
+      await this.ctx.storage.setAlarm(fullAt);
+    }
+
+    return result;
+  }
+
+  async alarm() {
+    await this.ctx.storage.deleteAll();
+  }
+}
+
+export { RateLimitBuckets };
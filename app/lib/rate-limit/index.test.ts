@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  clientKeys,
+  consumeAll,
+  createMemoryRateLimiter,
+  DEFAULT_RATE_LIMITS,
+  getRateLimits,
+  rateLimitedResponse,
+} from ".";
+
+describe("getRateLimits", () => {
+  it("reads limits from env and defaults the rest", () => {
+    expect(getRateLimits({ RATE_LIMIT_GEOCODE: "5/1m" } as Env)).toEqual({
+      modelSteps: DEFAULT_RATE_LIMITS.modelSteps,
+      geocode: { capacity: 5, refillPerSecond: 5 / 60 },
+    });
+  });
+});
+
+describe("clientKeys", () => {
+  const request = new Request("https://caic.test/api/chat", {
+    headers: { "CF-Connecting-IP": "203.0.113.7" },
+  });
+
+  it("charges the client IP and the session", () => {
+    expect(clientKeys(request, "session-1")).toEqual([
+      "ip:203.0.113.7",
+      "session:session-1",
+    ]);
+    expect(clientKeys(new Request("https://caic.test/"), "session-1")).toEqual([
+      "ip:local",
+      "session:session-1",
+    ]);
+  });
+});
+
+describe("consumeAll", () => {
+  const limiter = createMemoryRateLimiter({
+    modelSteps: { capacity: 2, refillPerSecond: 1 / 60 },
+    geocode: { capacity: 1, refillPerSecond: 1 / 60 },
+  });
+
+  it("charges every key and reports the most restrictive", async () => {
+    await limiter.consume("consume-all:b", "modelSteps");
+
+    const result = await consumeAll(
+      limiter,
+      ["consume-all:a", "consume-all:b"],
+      "modelSteps",
+    );
+    expect(result).toMatchObject({ allowed: true, remaining: 0 });
+
+    const denied = await consumeAll(
+      limiter,
+      ["consume-all:a", "consume-all:b"],
+      "modelSteps",
+    );
+    expect(denied).toMatchObject({ allowed: false });
+    // Charged even though the other key was already empty
+    expect(await limiter.consume("consume-all:a", "modelSteps")).toMatchObject({
+      allowed: false,
+    });
+  });
+});
+
+describe("rateLimitedResponse", () => {
+  it("is a 429 with Retry-After", async () => {
+    const response = rateLimitedResponse({
+      allowed: false,
+      remaining: 0,
+      retryAfterSeconds: 42,
+    });
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get("Retry-After")).toBe("42");
+    expect(await response.json()).toMatchObject({
+      code: "RATE_LIMITED",
+      retryAfterSeconds: 42,
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import {
+  parseRateLimit,
+  takeTokens,
+  type RateLimitResult,
+  type TokenBucketConfig,
+  type TokenBucketState,
+} from "./bucket";
+
+/**
+ * What a client is charged for. Model steps are each call to the model,
+ * including the follow-up steps after tool calls; geocode is each Google
+ * Geocoding lookup.
+ */
+type RateLimitBucket = "modelSteps" | "geocode";
+
+/**
+ * Limits for every bucket
+ */
+type RateLimits = Record<RateLimitBucket, TokenBucketConfig>;
+
+/**
+ * Per-client token buckets
+ */
+interface RateLimiter {
+  /**
+   * Take `cost` tokens from a client's bucket
+   *
+   * @param key - Client key from {@link clientKeys}
+   */
+  consume(
+    key: string,
+    bucket: RateLimitBucket,
+    cost?: number,
+  ): Promise<RateLimitResult>;
+}
+
+/** 90 model steps and 60 geocode lookups an hour */
+const DEFAULT_RATE_LIMITS: RateLimits = {
+  modelSteps: { capacity: 90, refillPerSecond: 90 / 3600 },
+  geocode: { capacity: 60, refillPerSecond: 60 / 3600 },
+};
+
+/**
+ * Limits from `RATE_LIMIT_MODEL_STEPS` and `RATE_LIMIT_GEOCODE`, e.g.
+ * "90/1h". Missing or malformed values fall back to the defaults.
+ *
+ * @param env - Worker environment bindings
+ */
+function getRateLimits(env: Env): RateLimits {
+  return {
+    modelSteps: parseRateLimit(
+      env.RATE_LIMIT_MODEL_STEPS,
+      DEFAULT_RATE_LIMITS.modelSteps,
+    ),
+    geocode: parseRateLimit(
+      env.RATE_LIMIT_GEOCODE,
+      DEFAULT_RATE_LIMITS.geocode,
+    ),
+  };
+}
+
+// Kept at module level so buckets outlive a request under `vite dev`
+const memoryBuckets = new Map<string, TokenBucketState>();
+
+/**
+ * Rate limiter that keeps buckets in this isolate's memory. Only suitable
+ * for local development; in production each isolate would count separately.
+ */
+function createMemoryRateLimiter(limits: RateLimits): RateLimiter {
+  return {
+    async consume(key, bucket, cost = 1) {
+      const id = `${key}|${bucket}`;
+      const { state, result } = takeTokens(
+        memoryBuckets.get(id),
+        limits[bucket],
+        cost,
+        Date.now(),
+      );
+      memoryBuckets.set(id, state);
+      return result;
+    },
+  };
+}
+
+/**
+ * Rate limiter backed by the `RATE_LIMITER` Durable Object, one object per
+ * client key, so limits hold across isolates and locations
+ */
+function createDurableObjectRateLimiter(
+  namespace: Env["RATE_LIMITER"],
+  limits: RateLimits,
+): RateLimiter {
+  return {
+    consume(key, bucket, cost = 1) {
+      return namespace
+        .get(namespace.idFromName(key))
+        .consume(bucket, limits[bucket], cost);
+    },
+  };
+}
+
+/**
+ * Create the rate limiter for the current Worker environment
+ *
+ * @param env - Worker environment bindings
+ * @param dev - Use the in-memory limiter, as under `vite dev`
+ */
+function createRateLimiterForEnv(env: Env, dev: boolean): RateLimiter {
+  const limits = getRateLimits(env);
+  return dev
+    ? createMemoryRateLimiter(limits)
+    : createDurableObjectRateLimiter(env.RATE_LIMITER, limits);
+}
+
+/**
+ * Keys a request is charged under: the client IP, and the browser session,
+ * so neither moving to another network nor starting a new conversation
+ * resets the allowance
+ *
+ * @param owner - Session owner from the signed session cookie
+ */
+function clientKeys(request: Request, owner: string): string[] {
+  const ip = request.headers.get("CF-Connecting-IP") ?? "local";
+  return [`ip:${ip}`, `session:${owner}`];
+}
+
+/**
+ * Charge every key, returning the most restrictive result. All keys are
+ * charged even when one is exhausted, so a client can't spread requests over
+ * keys to stay under the limit.
+ */
+async function consumeAll(
+  limiter: RateLimiter,
+  keys: string[],
+  bucket: RateLimitBucket,
+  cost = 1,
+): Promise<RateLimitResult> {
+  const results = await Promise.all(
+    keys.map((key) => limiter.consume(key, bucket, cost)),
+  );
+  const denied = results.filter((result) => !result.allowed);
+  if (denied.length) {
+    return denied.reduce((a, b) =>
+      b.retryAfterSeconds > a.retryAfterSeconds ? b : a,
+    );
+  }
+  return results.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+}
+
+/**
+ * 429 response for a request over its limit, with `Retry-After`
+ */
+function rateLimitedResponse(result: RateLimitResult): Response {
+  return Response.json(
+    {
+      error: "Too many requests. Please wait before sending another message.",
+      code: "RATE_LIMITED",
+      retryAfterSeconds: result.retryAfterSeconds,
+    },
+    {
+      status: 429,
+      headers: { "Retry-After": String(result.retryAfterSeconds) },
+    },
+  );
+}
+
+export {
+  clientKeys,
+  consumeAll,
+  createDurableObjectRateLimiter,
+  createMemoryRateLimiter,
+  createRateLimiterForEnv,
+  DEFAULT_RATE_LIMITS,
+  getRateLimits,
+  parseRateLimit,
+  rateLimitedResponse,
+  takeTokens,
+};
+export type {
+  RateLimitBucket,
+  RateLimiter,
+  RateLimitResult,
+  RateLimits,
+  TokenBucketConfig,
+};
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { createCAICClient } from "../caic";
+import { createFixtureFetch } from "../caic/fixtures";
+import { analyzeRoute, lineLengthKm, sampleLine } from "./analysis";
+
+const client = createCAICClient({
+  fetch: createFixtureFetch(),
+  clock: () => Date.parse("2026-01-13T00:00:00Z"),
+});
+
+// West from the Front Range into Vail & Summit County
+const westward = [
+  { lat: 39.7, lng: -105.7 },
+  { lat: 39.7, lng: -106.2 },
+];
+// East out of the Front Range and past the edge of CAIC coverage
+const eastward = [
+  { lat: 39.7, lng: -105.5 },
+  { lat: 39.7, lng: -104.9 },
+];
+
+describe("lineLengthKm", () => {
+  it("sums the great-circle length of each segment", () => {
+    expect(lineLengthKm(westward)).toBeCloseTo(42.78, 1);
+    expect(lineLengthKm([...westward, westward[1]])).toBeCloseTo(42.78, 1);
+    expect(lineLengthKm(westward.slice(0, 1))).toBe(0);
+  });
+});
+
+describe("sampleLine", () => {
+  it("covers the whole line at the given spacing", () => {
+    const samples = sampleLine(westward, 0.1);
+    const covered = samples.reduce((sum, s) => sum + s.segmentKm, 0);
+
+    expect(samples).toHaveLength(428);
+    expect(samples[0]).toEqual({ ...westward[0], segmentKm: 0.1 });
+    expect(covered).toBeCloseTo(lineLengthKm(westward), 6);
+  });
+
+  it("keeps a single point as one empty sample", () => {
+    expect(sampleLine(westward.slice(0, 1), 0.1)).toEqual([
+      { ...westward[0], segmentKm: 0 },
+    ]);
+  });
+});
+
+describe("analyzeRoute", () => {
+  it("splits distance by zone in the order they are entered", async () => {
+    const analysis = await analyzeRoute(client, [westward, eastward]);
+
+    expect(analysis.totalDistanceKm).toBeCloseTo(94.11, 1);
+    expect(
+      analysis.zones.map(({ publicName, distanceKm, approximate }) => ({
+        publicName,
+        distanceKm: Math.round(distanceKm),
+        approximate,
+      })),
+    ).toEqual([
+      { publicName: "Front Range", distanceKm: 46, approximate: true },
+      {
+        publicName: "Vail & Summit County",
+        distanceKm: 21,
+        approximate: false,
+      },
+    ]);
+    expect(analysis.uncoveredDistanceKm).toBeCloseTo(27.03, 1);
+  });
+
+  it("uses each zone's latest forecast", async () => {
+    const { zones } = await analyzeRoute(client, [westward]);
+
+    expect(zones[0].forecast?.id).toBe("c1b0d2a4-1111-4a5b-8c9d-000000000001");
+  });
+
+  it("keeps the worst rating per day and band, naming every zone at it", async () => {
+    const { worstDanger } = await analyzeRoute(client, [westward]);
+
+    expect(worstDanger.slice(0, 3)).toEqual([
+      {
+        date: "2026-01-12T00:00:00Z",
+        band: "alp",
+        rating: "considerable",
+        zones: ["Front Range", "Vail & Summit County"],
+      },
+      {
+        date: "2026-01-12T00:00:00Z",
+        band: "tln",
+        rating: "considerable",
+        zones: ["Front Range"],
+      },
+      {
+        date: "2026-01-12T00:00:00Z",
+        band: "btl",
+        rating: "moderate",
+        zones: ["Front Range", "Vail & Summit County"],
+      },
+    ]);
+    // Days without ratings are left out
+    expect(worstDanger.map((d) => d.date)).not.toContain(
+      "2026-01-15T00:00:00Z",
+    );
+  });
+});
@@ -0,0 +1,194 @@
+import {
+  type AvalancheForecast,
+  type CAICClient,
+  dangerRank,
+  type ElevationBand,
+  haversineKm,
+} from "../caic";
+import type { RoutePoint } from "./parse";
+
+/** Spacing between sampled points, in kilometres */
+const SAMPLE_SPACING_KM = 0.1;
+
+/** Long routes are sampled more coarsely to keep the lookup bounded */
+const MAX_SAMPLES = 5000;
+
+const elevationBands: ElevationBand[] = ["alp", "tln", "btl"];
+
+/**
+ * Distance travelled within one forecast zone
+ */
+interface RouteZone {
+  areaId: string;
+  /** Zone name from its forecast, or the area id when there is none */
+  publicName: string;
+  distanceKm: number;
+  /** Whether some of the distance was matched to the zone as the nearest one */
+  approximate: boolean;
+  forecast?: AvalancheForecast;
+}
+
+/**
+ * Worst danger along the route for one forecast day and elevation band
+ */
+interface RouteDanger {
+  date: string;
+  band: ElevationBand;
+  rating: string;
+  /** Zones along the route with this rating */
+  zones: string[];
+}
+
+/**
+ * Zones crossed by a route, and the worst danger along it
+ */
+interface RouteAnalysis {
+  totalDistanceKm: number;
+  /** Zones in the order the route first enters them */
+  zones: RouteZone[];
+  /** Distance travelled outside CAIC coverage */
+  uncoveredDistanceKm: number;
+  worstDanger: RouteDanger[];
+}
+
+const toPosition = ({ lat, lng }: RoutePoint) => [lng, lat];
+
+/**
+ * Length of a line in kilometres
+ */
+function lineLengthKm(line: RoutePoint[]): number {
+  let length = 0;
+  for (let i = 1; i < line.length; i++) {
+    length += haversineKm(toPosition(line[i - 1]), toPosition(line[i]));
+  }
+  return length;
+}
+
+/**
+ * Resample a line at a fixed spacing, interpolating between its vertices.
+ * Each sample carries the distance to the next one, so distances per zone
+ * can be summed from the samples alone.
+ */
+function sampleLine(
+  line: RoutePoint[],
+  spacingKm: number,
+): (RoutePoint & { segmentKm: number })[] {
+  const samples: (RoutePoint & { segmentKm: number })[] = [];
+  let carried = 0;
+
+  for (let i = 1; i < line.length; i++) {
+    const start = line[i - 1];
+    const end = line[i];
+    const length = haversineKm(toPosition(start), toPosition(end));
+
+    for (let offset = carried; offset < length; offset += spacingKm) {
+      const t = offset / length;
+      samples.push({
+        lat: start.lat + (end.lat - start.lat) * t,
+        lng: start.lng + (end.lng - start.lng) * t,
+        segmentKm: spacingKm,
+      });
+    }
+    carried = (carried - length) % spacingKm;
+    if (carried < 0) carried += spacingKm;
+  }
+
+  // The last sample only covers the remainder of the line
+  const last = samples.at(-1);
+  if (last) last.segmentKm = spacingKm - carried;
+  if (!samples.length && line.length) {
+    samples.push({ ...line[0], segmentKm: 0 });
+  }
+
+  return samples;
+}
+
+/**
+ * Find the forecast zones a route crosses, how far it travels in each, and
+ * the worst danger rating along it per forecast day and elevation band
+ *
+ * @param client - CAIC API client instance
+ * @param lines - Route lines, e.g. from {@link parseRouteFile}
+ */
+async function analyzeRoute(
+  client: CAICClient,
+  lines: RoutePoint[][],
+): Promise<RouteAnalysis> {
+  const totalDistanceKm = lines.reduce((sum, l) => sum + lineLengthKm(l), 0);
+  const spacingKm = Math.max(SAMPLE_SPACING_KM, totalDistanceKm / MAX_SAMPLES);
+  const samples = lines.flatMap((line) => sampleLine(line, spacingKm));
+
+  const [matches, latest] = await Promise.all([
+    client.locateZones(samples),
+    client.fetchLatestByArea("avalancheforecast"),
+  ]);
+
+  const zones = new Map<string, RouteZone>();
+  let uncoveredDistanceKm = 0;
+
+  samples.forEach((sample, index) => {
+    const match = matches[index];
+    if (!match) {
+      uncoveredDistanceKm += sample.segmentKm;
+      return;
+    }
+
+    const areaId = match.area.properties.id;
+    let zone = zones.get(areaId);
+    if (!zone) {
+      const forecast = latest.get(areaId);
+      zone = {
+        areaId,
+        publicName: forecast?.publicName ?? areaId,
+        distanceKm: 0,
+        approximate: false,
+        forecast,
+      };
+      zones.set(areaId, zone);
+    }
+    zone.distanceKm += sample.segmentKm;
+    zone.approximate ||= match.approximate;
+  });
+
+  const worst = new Map<string, RouteDanger>();
+  for (const zone of zones.values()) {
+    for (const day of zone.forecast?.dangerRatings.days ?? []) {
+      for (const band of elevationBands) {
+        const rating = day[band];
+        if (rating === "noRating") continue;
+
+        const key = `${day.date}/${band}`;
+        const current = worst.get(key);
+        const delta = current
+          ? dangerRank(rating) - dangerRank(current.rating)
+          : 1;
+        if (delta > 0) {
+          worst.set(key, {
+            date: day.date,
+            band,
+            rating,
+            zones: [zone.publicName],
+          });
+        } else if (delta === 0 && current) {
+          current.zones.push(zone.publicName);
+        }
+      }
+    }
+  }
+
+  const worstDanger = [...worst.values()].sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) ||
+      elevationBands.indexOf(a.band) - elevationBands.indexOf(b.band),
+  );
+
+  return {
+    totalDistanceKm,
+    zones: [...zones.values()],
+    uncoveredDistanceKm,
+    worstDanger,
+  };
+}
+
+export { analyzeRoute, lineLengthKm, sampleLine };
+export type { RouteAnalysis, RouteDanger, RouteZone };
@@ -0,0 +1,115 @@
+import type { UIMessage } from "ai";
+import { describe, expect, it } from "vitest";
+import { extractRouteAttachments } from "./attachments";
+
+const gpx =
+  '<gpx><trk><trkseg><trkpt lat="39.8" lon="-105.7"/></trkseg></trk></gpx>';
+
+function message(...parts: UIMessage["parts"]): UIMessage {
+  return { id: "m1", role: "user", parts };
+}
+
+describe("extractRouteAttachments", () => {
+  it("replaces route files with a note and keeps their content", () => {
+    const { messages, attachments } = extractRouteAttachments([
+      message(
+        { type: "text", text: "Is this safe tomorrow?" },
+        {
+          type: "file",
+          mediaType: "application/octet-stream",
+          filename: "tour.gpx",
+          url: `data:application/gpx+xml;base64,${btoa(gpx)}`,
+        },
+        {
+          type: "file",
+          mediaType: "application/vnd.google-earth.kml+xml",
+          url: `data:,${encodeURIComponent("<kml/>")}`,
+        },
+      ),
+    ]);
+
+    expect(attachments).toEqual(
+      new Map([
+        ["tour.gpx", gpx],
+        ["route-2.gpx", "<kml/>"],
+      ]),
+    );
+    expect(messages[0].parts[0]).toEqual({
+      type: "text",
+      text: "Is this safe tomorrow?",
+    });
+    expect(messages[0].parts[1]).toMatchObject({
+      type: "text",
+      text: expect.stringContaining('attachment "tour.gpx"'),
+    });
+  });
+
+  it("leaves other files alone", () => {
+    const image = {
+      type: "file" as const,
+      mediaType: "image/png",
+      filename: "slope.png",
+      url: "data:image/png;base64,iVBORw0KGgo=",
+    };
+
+    const { messages, attachments } = extractRouteAttachments([message(image)]);
+
+    expect(messages[0].parts).toEqual([image]);
+    expect(attachments.size).toBe(0);
+  });
+
+  it("notes route files that cannot be read", () => {
+    const { messages, attachments } = extractRouteAttachments([
+      message({
+        type: "file",
+        mediaType: "application/gpx+xml",
+        filename: "remote.gpx",
+        url: "https://example.com/remote.gpx",
+      }),
+    ]);
+
+    expect(messages[0].parts).toEqual([
+      { type: "text", text: '[Route file "remote.gpx" could not be read]' },
+    ]);
+    expect(attachments.size).toBe(0);
+  });
+
+  it("notes malformed data URLs instead of throwing", () => {
+    const { messages, attachments } = extractRouteAttachments([
+      message(
+        {
+          type: "file",
+          mediaType: "application/gpx+xml",
+          filename: "bad-base64.gpx",
+          url: "data:application/gpx+xml;base64,not*base64",
+        },
+        {
+          type: "file",
+          mediaType: "application/gpx+xml",
+          filename: "bad-escape.gpx",
+          url: "data:,%E0%A4%A",
+        },
+      ),
+    ]);
+
+    expect(messages[0].parts).toEqual([
+      { type: "text", text: '[Route file "bad-base64.gpx" could not be read]' },
+      { type: "text", text: '[Route file "bad-escape.gpx" could not be read]' },
+    ]);
+    expect(attachments.size).toBe(0);
+  });
+
+  it("limits route files by decoded bytes rather than characters", () => {
+    // 1.8M characters, but 5.4 MB once encoded as UTF-8
+    const { attachments } = extractRouteAttachments([
+      message({
+        type: "file",
+        mediaType: "application/gpx+xml",
+        filename: "huge.gpx",
+        url: `data:,${"€".repeat(1_800_000)}`,
+      }),
+    ]);
+
+    expect(attachments.size).toBe(0);
+  });
+});
@@ -0,0 +1,83 @@
+import type { FileUIPart, UIMessage } from "ai";
+
+/** Route files larger than this are not read */
+const MAX_ROUTE_FILE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * File input `accept` value for route files. Browsers often report an empty
+ * MIME type for GPX and KML, so extensions are listed as well.
+ */
+const ROUTE_FILE_ACCEPT =
+  ".gpx,.kml,application/gpx+xml,application/vnd.google-earth.kml+xml";
+
+/**
+ * Route files attached to the conversation, keyed by filename
+ */
+type RouteAttachments = Map<string, string>;
+
+function isRouteFile(part: FileUIPart): boolean {
+  return (
+    /\.(gpx|kml)$/i.test(part.filename ?? "") ||
+    part.mediaType === "application/gpx+xml" ||
+    part.mediaType === "application/vnd.google-earth.kml+xml"
+  );
+}
+
+/**
+ * Decode a `data:` URL to bytes. Returns null for malformed data, and for
+ * other URLs, which the server would have to fetch.
+ */
+function decodeDataUrl(url: string): Uint8Array | null {
+  const match = url.match(/^data:[^,]*?(;base64)?,(.*)$/s);
+  if (!match) return null;
+
+  const [, base64, data] = match;
+  try {
+    if (!base64) return new TextEncoder().encode(decodeURIComponent(data));
+    return Uint8Array.from(atob(data), (c) => c.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Pull GPX and KML attachments out of the conversation. Models can't read
+ * these files directly, so each one is replaced with a text note pointing
+ * the model at the `analyzeRoute` tool, and its content is kept aside for
+ * the tool to read.
+ *
+ * @param messages - Messages from the chat request
+ * @returns The messages with route files replaced, and the files by name
+ */
+function extractRouteAttachments<T extends UIMessage>(
+  messages: T[],
+): { messages: T[]; attachments: RouteAttachments } {
+  const attachments: RouteAttachments = new Map();
+
+  const stripped = messages.map((message) => ({
+    ...message,
+    parts: message.parts.map((part) => {
+      if (part.type !== "file" || !isRouteFile(part)) return part;
+
+      const name = part.filename ?? `route-${attachments.size + 1}.gpx`;
+      const bytes = decodeDataUrl(part.url);
+      if (bytes === null || bytes.byteLength > MAX_ROUTE_FILE_BYTES) {
+        return {
+          type: "text" as const,
+          text: `[Route file "${name}" could not be read]`,
+        };
+      }
+
+      attachments.set(name, new TextDecoder().decode(bytes));
+      return {
+        type: "text" as const,
+        text: `[Attached route file "${name}". Use the analyzeRoute tool with attachment "${name}" to find the forecast zones and danger along it.]`,
+      };
+    }),
+  }));
+
+  return { messages: stripped, attachments };
+}
+
+export { extractRouteAttachments, ROUTE_FILE_ACCEPT };
+export type { RouteAttachments };
@@ -0,0 +1,6 @@
+export { analyzeRoute, lineLengthKm, sampleLine } from "./analysis";
+export type { RouteAnalysis, RouteDanger, RouteZone } from "./analysis";
+export { extractRouteAttachments, ROUTE_FILE_ACCEPT } from "./attachments";
+export type { RouteAttachments } from "./attachments";
+export { parseRouteFile } from "./parse";
+export type { ParsedRoute, RoutePoint } from "./parse";
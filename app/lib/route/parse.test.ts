@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { parseRouteFile } from "./parse";
+
+describe("parseRouteFile", () => {
+  it("reads GPX track segments as separate lines", () => {
+    const gpx = `<?xml version="1.0"?>
+      <gpx version="1.1">
+        <trk><name><![CDATA[Berthoud Pass]]></name>
+          <trkseg>
+            <trkpt lat="39.80" lon="-105.78"><ele>3446</ele></trkpt>
+            <trkpt lat='39.81' lon='-105.77'/>
+          </trkseg>
+          <trkseg><trkpt lat="39.82" lon="-105.76"/></trkseg>
+        </trk>
+      </gpx>`;
+
+    expect(parseRouteFile("tour.gpx", gpx)).toEqual({
+      format: "gpx",
+      name: "Berthoud Pass",
+      lines: [
+        [
+          { lat: 39.8, lng: -105.78 },
+          { lat: 39.81, lng: -105.77 },
+        ],
+        [{ lat: 39.82, lng: -105.76 }],
+      ],
+    });
+  });
+
+  it("falls back to GPX routes and drops invalid points", () => {
+    const gpx = `<gpx><rte>
+      <rtept lat="39.8" lon="-105.78"/>
+      <rtept lat="139.8" lon="-105.78"/>
+      <rtept lon="-105.78"/>
+    </rte></gpx>`;
+
+    expect(parseRouteFile("plan.gpx", gpx)?.lines).toEqual([
+      [{ lat: 39.8, lng: -105.78 }],
+    ]);
+  });
+
+  it("reads KML line strings and Google Earth tracks", () => {
+    const kml = `<kml><Document><name>Loop</name>
+      <Placemark><LineString><coordinates>
+        -105.78,39.80,3446 -105.77,39.81
+      </coordinates></LineString></Placemark>
+      <Placemark><gx:Track>
+        <gx:coord>-105.76 39.82 3500</gx:coord>
+      </gx:Track></Placemark>
+    </Document></kml>`;
+
+    expect(parseRouteFile("loop.kml", kml)).toEqual({
+      format: "kml",
+      name: "Loop",
+      lines: [
+        [
+          { lat: 39.8, lng: -105.78 },
+          { lat: 39.81, lng: -105.77 },
+        ],
+        [{ lat: 39.82, lng: -105.76 }],
+      ],
+    });
+  });
+
+  it("returns null for other files", () => {
+    expect(parseRouteFile("notes.txt", "Berthoud Pass")).toBeNull();
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * A point on a route
+ */
+interface RoutePoint {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * A parsed route file. Tracks can be split into several lines (GPX track
+ * segments, KML placemarks) which are not joined to each other.
+ */
+interface ParsedRoute {
+  format: "gpx" | "kml";
+  /** Route name from the file, if it has one */
+  name?: string;
+  lines: RoutePoint[][];
+}
+
+const isValidPoint = ({ lat, lng }: RoutePoint) =>
+  Number.isFinite(lat) &&
+  Number.isFinite(lng) &&
+  Math.abs(lat) <= 90 &&
+  Math.abs(lng) <= 180;
+
+/**
+ * Read a numeric attribute such as `lat="39.8"` from a tag's attribute text
+ */
+function readAttribute(attributes: string, name: string): number {
+  const match = attributes.match(
+    new RegExp(`\\b${name}\\s*=\\s*["']([^"']+)["']`),
+  );
+  return match ? Number(match[1]) : Number.NaN;
+}
+
+function readName(text: string): string | undefined {
+  const match = text.match(
+    /<name>\s*(?:<!\[CDATA\[)?([\s\S]*?)(?:\]\]>)?\s*<\/name>/,
+  );
+  return match?.[1].trim() || undefined;
+}
+
+/**
+ * Collect points from a GPX document. Tracks are preferred; routes are used
+ * when the file has no track, since planning tools often export those.
+ */
+function parseGpx(text: string): RoutePoint[][] {
+  const pointsIn = (block: string, tag: string) =>
+    [...block.matchAll(new RegExp(`<${tag}\\b([^>]*)>`, "g"))]
+      .map(([, attributes]) => ({
+        lat: readAttribute(attributes, "lat"),
+        lng: readAttribute(attributes, "lon"),
+      }))
+      .filter(isValidPoint);
+
+  const segments = [...text.matchAll(/<trkseg\b[^>]*>([\s\S]*?)<\/trkseg>/g)]
+    .map(([, block]) => pointsIn(block, "trkpt"))
+    .filter((line) => line.length);
+  if (segments.length) return segments;
+
+  return [...text.matchAll(/<rte\b[^>]*>([\s\S]*?)<\/rte>/g)]
+    .map(([, block]) => pointsIn(block, "rtept"))
+    .filter((line) => line.length);
+}
+
+/**
+ * Collect points from a KML document: `<coordinates>` in LineStrings and
+ * `<gx:coord>` in Google Earth tracks
+ */
+function parseKml(text: string): RoutePoint[][] {
+  const lineStrings = [
+    ...text.matchAll(
+      /<LineString\b[^>]*>[\s\S]*?<coordinates>([\s\S]*?)<\/coordinates>/g,
+    ),
+  ].map(([, coordinates]) =>
+    coordinates
+      .trim()
+      .split(/\s+/)
+      .map((tuple) => {
+        const [lng, lat] = tuple.split(",").map(Number);
+        return { lat, lng };
+      })
+      .filter(isValidPoint),
+  );
+
+  const tracks = [
+    ...text.matchAll(/<gx:Track\b[^>]*>([\s\S]*?)<\/gx:Track>/g),
+  ].map(([, block]) =>
+    [...block.matchAll(/<gx:coord>([^<]*)<\/gx:coord>/g)]
+      .map(([, coord]) => {
+        const [lng, lat] = coord.trim().split(/\s+/).map(Number);
+        return { lat, lng };
+      })
+      .filter(isValidPoint),
+  );
+
+  return [...lineStrings, ...tracks].filter((line) => line.length);
+}
+
+/**
+ * Parse a GPX or KML file into route lines
+ *
+ * @param filename - Used to detect the format when the content is ambiguous
+ * @param text - File content
+ * @returns The parsed route, or null if the file is neither GPX nor KML
+ */
+function parseRouteFile(filename: string, text: string): ParsedRoute | null {
+  const extension = filename.toLowerCase().split(".").pop();
+
+  if (/<gpx\b/.test(text) || extension === "gpx") {
+    return { format: "gpx", name: readName(text), lines: parseGpx(text) };
+  }
+  if (/<kml\b/.test(text) || extension === "kml") {
+    return { format: "kml", name: readName(text), lines: parseKml(text) };
+  }
+
+  return null;
+}
+
+export { parseRouteFile };
+export type { ParsedRoute, RoutePoint };
@@ -0,0 +1,61 @@
+import { Miniflare } from "miniflare";
+
+/** Migration SQL by path, e.g. `/migrations/0001_forecast_archive.sql` */
+const migrationFiles = import.meta.glob<string>("/migrations/**/*.sql", {
+  query: "?raw",
+  import: "default",
+  eager: true,
+});
+
+/**
+ * Local D1 and R2 bindings for tests, backed by Miniflare's in-memory
+ * simulators. Call `dispose` once the tests are done.
+ */
+interface TestBindings {
+  db: D1Database;
+  bucket: R2Bucket;
+  dispose(): Promise<void>;
+}
+
+/**
+ * Run every `.sql` file directly in a migrations directory, in name order
+ */
+async function applyMigrations(db: D1Database, directory: string) {
+  const files = Object.keys(migrationFiles)
+    .filter((path) => path.slice(0, path.lastIndexOf("/")) === directory)
+    .sort();
+
+  for (const file of files) {
+    const statements = migrationFiles[file]
+      .replace(/--.*$/gm, "")
+      .split(";")
+      .map((statement) => statement.trim())
+      .filter(Boolean);
+    for (const statement of statements) {
+      await db.prepare(statement).run();
+    }
+  }
+}
+
+/**
+ * Start Miniflare with one D1 database and one R2 bucket
+ *
+ * @param migrations - Directory of D1 migrations to apply, e.g. `/migrations`
+ */
+async function createTestBindings(migrations: string): Promise<TestBindings> {
+  const miniflare = new Miniflare({
+    modules: true,
+    script: "export default { fetch() { return new Response(null); } }",
+    d1Databases: ["DB"],
+    r2Buckets: ["BUCKET"],
+  });
+
+  const db = (await miniflare.getD1Database("DB")) as unknown as D1Database;
+  const bucket = (await miniflare.getR2Bucket("BUCKET")) as unknown as R2Bucket;
+  await applyMigrations(db, migrations);
+
+  return { db, bucket, dispose: () => miniflare.dispose() };
+}
+
+export { createTestBindings };
+export type { TestBindings };
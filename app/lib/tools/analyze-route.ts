@@ -0,0 +1,130 @@
+import { tool } from "ai";
+import { z } from "zod";
+import { type CAICClient, dangerLabels, elevationLabels } from "../caic";
+import {
+  analyzeRoute,
+  parseRouteFile,
+  type RouteAnalysis,
+  type RouteAttachments,
+} from "../route";
+import { toToolError } from "./avalanche-info";
+
+/**
+ * Render a route analysis as markdown: distance per zone, then the worst
+ * danger along the route per day and elevation band
+ */
+function formatRouteAnalysis(name: string, analysis: RouteAnalysis): string {
+  const sections: string[] = [];
+
+  sections.push(`# Route Analysis: ${name}`);
+  sections.push(`Total distance: ${analysis.totalDistanceKm.toFixed(1)} km`);
+
+  const zoneRows = analysis.zones.map(
+    (zone) =>
+      `| ${zone.publicName}${zone.approximate ? " (partly nearest zone)" : ""} | ${zone.distanceKm.toFixed(1)} km | ${zone.forecast?.issueDateTime ?? "No current forecast"} |`,
+  );
+  if (analysis.uncoveredDistanceKm > 0) {
+    zoneRows.push(
+      `| Outside CAIC coverage | ${analysis.uncoveredDistanceKm.toFixed(1)} km | - |`,
+    );
+  }
+  sections.push(
+    [
+      "## Zones Crossed",
+      "| Zone | Distance | Forecast Issued |",
+      "| --- | --- | --- |",
+      ...zoneRows,
+    ].join("\n"),
+  );
+
+  if (analysis.worstDanger.length) {
+    const byDate = new Map<string, string[]>();
+    for (const danger of analysis.worstDanger) {
+      const line = `- ${elevationLabels[danger.band]}: ${dangerLabels[danger.rating] ?? danger.rating} (${danger.zones.join(", ")})`;
+      byDate.set(danger.date, [...(byDate.get(danger.date) ?? []), line]);
+    }
+    const days = [...byDate].map(
+      ([date, lines]) => `### ${date}\n${lines.join("\n")}`,
+    );
+    sections.push(`## Worst Danger Along Route\n${days.join("\n\n")}`);
+  }
+
+  return sections.join("\n\n");
+}
+
+/**
+ * Creates a tool that analyzes a GPX or KML route attached to the
+ * conversation: the forecast zones it crosses, the distance travelled in
+ * each, and the worst danger along it.
+ *
+ * @param client - CAIC API client instance
+ * @param attachments - Route files from the current request, see
+ * {@link extractRouteAttachments}
+ */
+export function createAnalyzeRouteTool(
+  client: CAICClient,
+  attachments: RouteAttachments,
+) {
+  return tool({
+    description:
+      "Analyze a GPX or KML route file the user attached: find every avalanche forecast zone the route crosses, the distance travelled in each, and the worst danger rating along the route per elevation band and day. Use whenever the conversation mentions an attached route file.",
+    inputSchema: z.object({
+      attachment: z
+        .string()
+        .optional()
+        .describe(
+          "Filename of the attached route, e.g. 'tour.gpx'. Defaults to the most recently attached route",
+        ),
+    }),
+    execute: async ({ attachment }) => {
+      const names = [...attachments.keys()];
+      const name = attachment ?? names.at(-1);
+      const text = name === undefined ? undefined : attachments.get(name);
+
+      if (name === undefined || text === undefined) {
+        return {
+          error: names.length
+            ? `No attached route named "${attachment}"`
+            : "No route file is attached to the conversation",
+          code: "UNKNOWN_ATTACHMENT",
+          availableAttachments: names,
+        };
+      }
+
+      const route = parseRouteFile(name, text);
+      if (!route) {
+        return {
+          error: `"${name}" is not a GPX or KML file`,
+          code: "UNSUPPORTED_FORMAT",
+        };
+      }
+      if (!route.lines.some((line) => line.length > 1)) {
+        return {
+          error: `"${name}" does not contain a track or route`,
+          code: "NO_TRACK",
+        };
+      }
+
+      try {
+        const analysis = await analyzeRoute(client, route.lines);
+        if (!analysis.zones.length) {
+          return {
+            error: "The route does not cross any CAIC forecast zone",
+            code: "OUTSIDE_COVERAGE",
+          };
+        }
+
+        return {
+          content: formatRouteAnalysis(route.name ?? name, analysis),
+          totalDistanceKm: Math.round(analysis.totalDistanceKm * 10) / 10,
+          zones: analysis.zones.map((zone) => ({
+            name: zone.publicName,
+            distanceKm: Math.round(zone.distanceKm * 10) / 10,
+          })),
+        };
+      } catch (error) {
+        return toToolError(error);
+      }
+    },
+  });
+}
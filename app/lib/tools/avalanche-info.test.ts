@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import type { z } from "zod";
+import type { ArchiveQuery, ForecastArchive } from "../archive";
+import { createCAICClient } from "../caic";
+import { createFixtureFetch } from "../caic/fixtures";
+import type { ElevationProvider } from "../elevation";
+import { createAvalancheInfoTool } from "./avalanche-info";
+
+const client = createCAICClient({ fetch: createFixtureFetch() });
+
+/** Provider that puts every point at the given elevation */
+const flatAt = (metres: number | null): ElevationProvider => ({
+  getElevations: async (points) => points.map(() => metres),
+});
+
+function run(elevation?: ElevationProvider, elevationFt?: number) {
+  return createAvalancheInfoTool(client, elevation).execute!(
+    { productType: "avalancheforecast", lat: 39.8, lng: -105.7, elevationFt },
+    { toolCallId: "call-1", messages: [] },
+  );
+}
+
+describe("avalancheInfo elevation band", () => {
+  it("rates the band of the elevation the user gave", async () => {
+    const result = await run(flatAt(4000), 10_000);
+
+    expect(result).toMatchObject({
+      elevationBand: { elevationFt: 10_000, band: "btl", source: "user" },
+      content: expect.stringContaining("## Danger at This Point"),
+    });
+  });
+
+  it("looks the elevation up otherwise", async () => {
+    expect(await run(flatAt(4000))).toMatchObject({
+      elevationBand: { elevationFt: 13_123, band: "alp", source: "lookup" },
+    });
+  });
+
+  it("leaves the band out when no elevation is known", async () => {
+    const result = await run(flatAt(null));
+
+    expect(result).toMatchObject({ elevationBand: undefined });
+    expect(result).not.toMatchObject({
+      content: expect.stringContaining("## Danger at This Point"),
+    });
+  });
+});
+
+describe("avalancheInfo past dates", () => {
+  const input = {
+    productType: "avalancheforecast" as const,
+    lat: 39.8,
+    lng: -105.7,
+    date: "2025-12-01",
+  };
+
+  it("reports a date with no product when there is no archive", async () => {
+    const result = await createAvalancheInfoTool(client).execute!(input, {
+      toolCallId: "call-1",
+      messages: [],
+    });
+
+    expect(result).toMatchObject({ code: "NO_ARCHIVED_PRODUCT" });
+  });
+
+  it("falls back to the archive for dates CAIC no longer publishes", async () => {
+    const [frontRange] =
+      await client.fetchForecastForProduct("avalancheforecast");
+    const queries: ArchiveQuery[] = [];
+    const archive: ForecastArchive = {
+      saveProducts: async () => 0,
+      saveAreas: async () => false,
+      queryProducts: async (query) => {
+        queries.push(query);
+        return [{ ...frontRange, issueDateTime: "2025-11-30T23:30:00Z" }];
+      },
+    };
+
+    const result = await createAvalancheInfoTool(client, undefined, archive)
+      .execute!(input, { toolCallId: "call-1", messages: [] });
+
+    expect(result).toMatchObject({
+      content: expect.stringContaining("Issued: 2025-11-30T23:30:00Z"),
+    });
+    // A bare date is looked up at noon Mountain Time
+    const noon = new Date("2025-12-01T19:00:00Z");
+    expect(queries).toEqual([
+      {
+        zone: frontRange.areaId,
+        productType: "avalancheforecast",
+        from: noon,
+        to: noon,
+        limit: 1,
+      },
+    ]);
+  });
+});
+
+describe("avalancheInfo input", () => {
+  it("rejects coordinates off the globe", () => {
+    const schema = createAvalancheInfoTool(client).inputSchema as z.ZodType;
+    const input = { productType: "avalancheforecast", lat: 39.8, lng: -105.7 };
+
+    expect(schema.safeParse(input).success).toBe(true);
+    expect(schema.safeParse({ ...input, lat: 91 }).success).toBe(false);
+    expect(schema.safeParse({ ...input, lng: -181 }).success).toBe(false);
+  });
+});
@@ -1,19 +1,114 @@
 import { tool } from "ai";
 import { z } from "zod";
 import {
+  CAICError,
+  type ApiResponse,
+  type AvalancheForecast,
   type CAICClient,
+  dangerLabels,
+  elevationLabels,
   formatAvalancheForecast,
   formatRegionalDiscussion,
   formatSpecialProduct,
+  parseForecastInstant,
+  type ProductType,
 } from "../caic";
+import type { ForecastArchive } from "../archive";
+import {
+  type ElevationProvider,
+  metresToFeet,
+  type PointElevationBand,
+  resolveElevationBand,
+  treelineFor,
+} from "../elevation";
+
+/**
+ * The elevation band a point falls in, and the danger rating for that band
+ * on each forecast day
+ */
+interface PointDanger extends PointElevationBand {
+  ratings: { date: string; rating: string }[];
+}
+
+/**
+ * Classify a point into an elevation band using the zone's treeline, so the
+ * answer can name the one rating that applies rather than all three
+ *
+ * @returns null when no elevation is known for the point
+ */
+async function classifyPoint(
+  forecast: AvalancheForecast,
+  point: { lat: number; lng: number },
+  elevation: ElevationProvider | undefined,
+  elevationFt: number | undefined,
+): Promise<PointDanger | null> {
+  const resolved = await resolveElevationBand(
+    elevation,
+    point,
+    forecast.publicName,
+    elevationFt,
+  );
+  if (!resolved) return null;
+
+  const { band } = resolved;
+  return {
+    ...resolved,
+    ratings: forecast.dangerRatings.days
+      .filter((day) => day[band] !== "noRating")
+      .map((day) => ({ date: day.date, rating: day[band] })),
+  };
+}
+
+function formatPointDanger(
+  publicName: string,
+  { elevationFt, band, ratings }: PointDanger,
+): string {
+  const { lower, upper } = treelineFor(publicName);
+  const lines = [
+    "## Danger at This Point",
+    `Elevation: ${elevationFt.toLocaleString("en-US")} ft, which is ${elevationLabels[band]} in ${publicName} (treeline roughly ${metresToFeet(lower).toLocaleString("en-US")}–${metresToFeet(upper).toLocaleString("en-US")} ft)`,
+    ...ratings.map(
+      ({ date, rating }) => `- ${date}: ${dangerLabels[rating] ?? rating}`,
+    ),
+  ];
+  return lines.join("\n");
+}
+
+/**
+ * Find the archived product of a type that was in effect in a zone at an
+ * instant, for dates CAIC no longer publishes
+ */
+async function findArchived(
+  archive: ForecastArchive,
+  productType: ProductType,
+  areaId: string,
+  instant: Date,
+): Promise<ApiResponse[number] | null> {
+  const [product] = await archive.queryProducts({
+    zone: areaId,
+    productType,
+    from: instant,
+    to: instant,
+    limit: 1,
+  });
+  return product ?? null;
+}
 
 /**
  * Creates an avalanche info tool that fetches forecast data for a location.
  * Requires lat/lng coordinates - use the geocode tool first if you only have a location name.
  *
  * @param client - CAIC API client instance
+ * @param elevation - Elevation lookup used to find the point's elevation band.
+ * Without one, the band is only reported when the model passes an elevation.
+ * @param archive - Optional forecast archive, searched for past dates CAIC
+ * no longer publishes
  */
-export function createAvalancheInfoTool(client: CAICClient) {
+export function createAvalancheInfoTool(
+  client: CAICClient,
+  elevation?: ElevationProvider,
+  archive?: ForecastArchive,
+) {
   return tool({
     description:
       "Fetch avalanche forecast, regional discussion, or special product for a given location. You MUST use the 'geocode' tool first to get the exact latitude and longitude for any location name. Do not guess coordinates.",
@@ -23,46 +118,151 @@ export function createAvalancheInfoTool(client: CAICClient) {
         .describe("The type of avalanche product to fetch"),
       lat: z
         .number()
+        .min(-90)
+        .max(90)
         .describe(
           "Latitude of the location (e.g. 39.798). Obtain this from the 'geocode' tool.",
         ),
       lng: z
         .number()
+        .min(-180)
+        .max(180)
         .describe(
           "Longitude of the location (e.g. -105.777). Obtain this from the 'geocode' tool.",
         ),
+      date: z
+        .string()
+        .optional()
+        .describe(
+          "Optional past date (YYYY-MM-DD) or ISO date-time to fetch the archived product that was in effect then. Omit for the current product.",
+        ),
+      elevationFt: z
+        .number()
+        .optional()
+        .describe(
+          "Optional elevation of the objective in feet, if the user gave one. Otherwise it is looked up from the coordinates.",
+        ),
     }),
-    execute: async ({ productType, lat, lng }) => {
-      const product = await client.fetchForecastForLocation(productType, {
-        lat,
-        lng,
-      });
+    execute: async ({ productType, lat, lng, date, elevationFt }) => {
+      let instant: Date | undefined;
+      if (date) {
+        const parsed = parseForecastInstant(date);
+        if (!parsed) {
+          return { error: `Invalid date: ${date}`, code: "INVALID_DATE" };
+        }
+        instant = parsed;
+      }
+
+      let lookup;
+      try {
+        lookup = await client.fetchForecastForLocation(
+          productType,
+          { lat, lng },
+          { date: instant },
+        );
+      } catch (error) {
+        return toToolError(error);
+      }
+
+      if (lookup.status === "outside-coverage") {
+        return {
+          error:
+            "This location is outside CAIC coverage. CAIC only forecasts for the Colorado backcountry.",
+          code: "OUTSIDE_COVERAGE",
+        };
+      }
+
+      let product: ApiResponse[number] | null =
+        lookup.status === "found" ? lookup.product : null;
+      if (!product && instant && archive) {
+        product = await findArchived(
+          archive,
+          productType,
+          lookup.zone.area.properties.id,
+          instant,
+        );
+      }
+
+      if (!product && date) {
+        return {
+          error: `No archived product covers ${date} for this location`,
+          code: "NO_ARCHIVED_PRODUCT",
+        };
+      }
 
       if (!product) {
         return { error: "No forecast available for this location" };
       }
 
-      if (
-        productType === "avalancheforecast" &&
-        product.type === "avalancheforecast"
-      ) {
-        const content = formatAvalancheForecast(product);
-        return { content: formatAvalancheForecast(product) };
+      const { zone } = lookup;
+      let content = formatProduct(product);
+      if (!content) {
+        return { error: "Unexpected product type" };
       }
-      if (
-        productType === "regionaldiscussion" &&
-        product.type === "regionaldiscussion"
-      ) {
-        return { content: formatRegionalDiscussion(product) };
+
+      // Elevation bands only apply to zone forecasts
+      const pointDanger =
+        product.type === "avalancheforecast"
+          ? await classifyPoint(product, { lat, lng }, elevation, elevationFt)
+          : null;
+      if (pointDanger) {
+        content = `${formatPointDanger(product.publicName, pointDanger)}\n\n${content}`;
       }
-      if (
-        productType === "specialproduct" &&
-        product.type === "specialproduct"
-      ) {
-        return { content: formatSpecialProduct(product) };
+      const elevationBand = pointDanger ?? undefined;
+
+      if (zone.approximate) {
+        const distanceKm = Math.round(zone.distanceKm * 10) / 10;
+        return {
+          content: `Note: this location is not inside any CAIC forecast zone. Showing the nearest zone, ${distanceKm} km away.\n\n${content}`,
+          approximate: true,
+          distanceKm,
+          elevationBand,
+        };
       }
 
-      return { error: "Unexpected product type" };
+      return { content, elevationBand };
     },
   });
 }
+
+/**
+ * Format any product type for a tool response
+ */
+export function formatProduct(product: ApiResponse[number]): string | null {
+  switch (product.type) {
+    case "avalancheforecast":
+      return formatAvalancheForecast(product);
+    case "regionaldiscussion":
+      return formatRegionalDiscussion(product);
+    case "specialproduct":
+      return formatSpecialProduct(product);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Map a CAIC client failure to a structured tool result the model can explain
+ * to the user. Unknown errors are rethrown so they surface as tool failures.
+ */
+export function toToolError(error: unknown) {
+  if (!(error instanceof CAICError)) {
+    throw error;
+  }
+
+  const messages: Record<CAICError["code"], string> = {
+    UPSTREAM_UNAVAILABLE:
+      "The CAIC forecast service is currently unavailable. Please try again later.",
+    RATE_LIMITED:
+      "The CAIC forecast service is rate limiting requests. Please try again shortly.",
+    MALFORMED_PAYLOAD:
+      "The CAIC forecast service returned data that could not be read.",
+    TIMEOUT: "The CAIC forecast service did not respond in time.",
+  };
+
+  return {
+    error: messages[error.code],
+    code: error.code,
+    retryable: error.retryable,
+  };
+}
@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createCAICClient } from "../caic";
+import { createFixtureFetch } from "../caic/fixtures";
+import { createCompareLocationsTool } from "./compare-locations";
+
+const client = createCAICClient({ fetch: createFixtureFetch() });
+
+type Location = { name: string; lat?: number; lng?: number };
+
+function run(...locations: Location[]) {
+  return createCompareLocationsTool(client, "test-key").execute!(
+    { locations },
+    { toolCallId: "call-1", messages: [] },
+  );
+}
+
+describe("compareLocations", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("puts each location in its own column", async () => {
+    const result = await run(
+      { name: "Berthoud Pass", lat: 39.8, lng: -105.7 },
+      { name: "Aspen Highlands", lat: 39.1, lng: -106.9 },
+    );
+
+    expect(result).toMatchObject({
+      content: expect.stringContaining("| Zone | Front Range | Aspen |"),
+    });
+  });
+
+  it("keeps columns aligned around locations without a forecast", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => Response.json({ status: "ZERO_RESULTS" })),
+    );
+
+    const result = await run(
+      { name: "Nowhere Peak" },
+      { name: "Moab", lat: 38.57, lng: -109.55 },
+      { name: "Aspen Highlands", lat: 39.1, lng: -106.9 },
+    );
+
+    expect(result).toMatchObject({
+      content: expect.stringContaining(
+        "| Zone | Location not found | Outside CAIC coverage | Aspen |",
+      ),
+    });
+  });
+
+  it("reports an error when no location has a forecast", async () => {
+    expect(
+      await run(
+        { name: "Moab", lat: 38.57, lng: -109.55 },
+        { name: "Salt Lake City", lat: 40.76, lng: -111.89 },
+      ),
+    ).toEqual({
+      error: "No avalanche forecast found for any of these locations",
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import { tool } from "ai";
+import { z } from "zod";
+import {
+  type CAICClient,
+  dangerLabels,
+  type ForecastDaySummary,
+  type ForecastSummary,
+  problemTypeLabels,
+  summarizeForecast,
+} from "../caic";
+import { toToolError } from "./avalanche-info";
+import {
+  geocodeLocation,
+  geocodeRateLimitedError,
+  type GeocodeQuota,
+} from "./geocode";
+
+/**
+ * One column of the comparison: a location and what was found for it
+ */
+interface ComparedLocation {
+  name: string;
+  /** Why there is no forecast for this location, if there isn't one */
+  unavailable?: string;
+  summary?: ForecastSummary;
+  /** Distance to the zone when the location is just outside it */
+  approximateKm?: number;
+}
+
+const formatDanger = (rating: string | undefined) =>
+  rating ? (dangerLabels[rating] ?? rating) : "-";
+
+const formatProblems = (day: ForecastDaySummary | undefined) =>
+  day?.problems.length
+    ? day.problems
+        .map(
+          (p) =>
+            `${problemTypeLabels[p.type] ?? p.type} (${p.likelihood}, D${p.expectedSize.min}–D${p.expectedSize.max})`,
+        )
+        .join("<br>")
+    : "-";
+
+/**
+ * Render locations side by side, one column per location and one row per
+ * field, so the model can compare them at a glance
+ */
+function formatComparison(locations: ComparedLocation[]): string {
+  const dates = [
+    ...new Set(
+      locations.flatMap(
+        (l) => l.summary?.days.map((d) => d.date.slice(0, 10)) ?? [],
+      ),
+    ),
+  ].sort();
+
+  const row = (label: string, cell: (location: ComparedLocation) => string) =>
+    `| ${label} | ${locations.map(cell).join(" | ")} |`;
+  const dayOf = (location: ComparedLocation, date: string) =>
+    location.summary?.days.find((d) => d.date.slice(0, 10) === date);
+
+  const rows = [
+    row("Zone", (l) => {
+      if (!l.summary) return l.unavailable ?? "-";
+      return l.approximateKm === undefined
+        ? l.summary.publicName
+        : `${l.summary.publicName} (nearest, ${l.approximateKm.toFixed(1)} km away)`;
+    }),
+    row("Issued", (l) => l.summary?.issueDateTime ?? "-"),
+    row("Expires", (l) => l.summary?.expiryDateTime ?? "-"),
+    ...dates.flatMap((date) => [
+      row(`${date} Alpine`, (l) => formatDanger(dayOf(l, date)?.alp)),
+      row(`${date} Treeline`, (l) => formatDanger(dayOf(l, date)?.tln)),
+      row(`${date} Below Treeline`, (l) => formatDanger(dayOf(l, date)?.btl)),
+      row(`${date} Problems`, (l) => formatProblems(dayOf(l, date))),
+    ]),
+  ];
+
+  return [
+    "# Avalanche Forecast Comparison",
+    `| | ${locations.map((l) => l.name).join(" | ")} |`,
+    `| --- | ${locations.map(() => "---").join(" | ")} |`,
+    ...rows,
+  ].join("\n");
+}
+
+/**
+ * Creates a tool that compares the avalanche forecast for several locations
+ * side by side, resolving their zones in one batch
+ *
+ * @param client - CAIC API client instance
+ * @param apiKey - Google Maps API key, for locations given by name only
+ * @param quota - Per-client limit on geocode lookups; unlimited if omitted
+ */
+export function createCompareLocationsTool(
+  client: CAICClient,
+  apiKey: string,
+  quota?: GeocodeQuota,
+) {
+  return tool({
+    description:
+      "Compare the avalanche forecast for 2 to 6 Colorado locations side by side: danger by elevation band and day, avalanche problems with likelihood and size, and issue and expiry times. Use for questions like 'Berthoud Pass or Loveland Pass tomorrow?'. Locations can be given by name alone; no need to geocode them first.",
+    inputSchema: z.object({
+      locations: z
+        .array(
+          z.object({
+            name: z
+              .string()
+              .describe(
+                "Place name, e.g. 'Berthoud Pass'. Used as the column heading",
+              ),
+            lat: z
+              .number()
+              .min(-90)
+              .max(90)
+              .optional()
+              .describe("Latitude, if already known"),
+            lng: z
+              .number()
+              .min(-180)
+              .max(180)
+              .optional()
+              .describe("Longitude, if already known"),
+          }),
+        )
+        .min(2)
+        .max(6)
+        .describe("The locations to compare"),
+    }),
+    execute: async ({ locations }) => {
+      const toGeocode = locations.filter(
+        ({ lat, lng }) => lat === undefined || lng === undefined,
+      ).length;
+      const allowance = toGeocode ? await quota?.(toGeocode) : undefined;
+      if (allowance && !allowance.allowed) {
+        return geocodeRateLimitedError(allowance.retryAfterSeconds);
+      }
+
+      try {
+        const resolved = await Promise.all(
+          locations.map(async ({ name, lat, lng }) =>
+            lat !== undefined && lng !== undefined
+              ? { lat, lng }
+              : geocodeLocation(apiKey, name),
+          ),
+        );
+
+        const found = resolved.flatMap((coords) => (coords ? [coords] : []));
+        const lookups = await client.fetchForecastsForLocations(
+          "avalancheforecast",
+          found,
+        );
+
+        let next = 0;
+        const compared = locations.map(({ name }, index): ComparedLocation => {
+          if (!resolved[index]) {
+            return { name, unavailable: "Location not found" };
+          }
+
+          const lookup = lookups[next++];
+          if (lookup.status === "outside-coverage") {
+            return { name, unavailable: "Outside CAIC coverage" };
+          }
+          if (lookup.status === "no-product") {
+            return { name, unavailable: "No current forecast" };
+          }
+
+          return {
+            name,
+            summary: summarizeForecast(lookup.product),
+            approximateKm: lookup.zone.approximate
+              ? lookup.zone.distanceKm
+              : undefined,
+          };
+        });
+
+        if (!compared.some((l) => l.summary)) {
+          return {
+            error: "No avalanche forecast found for any of these locations",
+          };
+        }
+
+        return { content: formatComparison(compared) };
+      } catch (error) {
+        return toToolError(error);
+      }
+    },
+  });
+}
@@ -14,13 +14,84 @@ interface GoogleGeocodeResponse {
   }>;
 }
 
+/**
+ * A geocoded location
+ */
+export interface GeocodeResult {
+  lat: number;
+  lng: number;
+  displayName: string;
+}
+
+/**
+ * Charges the client for geocode lookups before they are made
+ *
+ * @param lookups - Number of lookups about to be made
+ * @returns Whether they may go ahead, and if not, how long to wait
+ */
+export type GeocodeQuota = (
+  lookups: number,
+) => Promise<{ allowed: boolean; retryAfterSeconds: number }>;
+
+/**
+ * Tool result for lookups refused by a {@link GeocodeQuota}
+ */
+export function geocodeRateLimitedError(retryAfterSeconds: number) {
+  return {
+    error: `Too many location lookups. Try again in ${retryAfterSeconds} seconds, or ask the user for coordinates.`,
+    code: "RATE_LIMITED" as const,
+    retryable: true,
+  };
+}
+
+/**
+ * Convert a location name to coordinates using the Google Geocoding API,
+ * restricted to Colorado.
+ *
+ * @param apiKey - Google Maps API key
+ * @param location - Place name, e.g. "Berthoud Pass"
+ * @returns The best match, or null if the location could not be found
+ */
+export async function geocodeLocation(
+  apiKey: string,
+  location: string,
+): Promise<GeocodeResult | null> {
+  const params = new URLSearchParams({
+    address: location,
+    components: "administrative_area:CO|country:US",
+    key: apiKey,
+  });
+
+  const response = await fetch(
+    `https://maps.googleapis.com/maps/api/geocode/json?${params}`,
+  );
+
+  if (!response.ok) {
+    return null;
+  }
+
+  const data = (await response.json()) as GoogleGeocodeResponse;
+
+  if (data.status !== "OK" || !data.results?.length) {
+    return null;
+  }
+
+  const result = data.results[0];
+  return {
+    lat: result.geometry.location.lat,
+    lng: result.geometry.location.lng,
+    displayName: result.formatted_address,
+  };
+}
+
 /**
  * Creates a geocode tool that converts location names to lat/lng coordinates
  * using the Google Geocoding API. Biased toward Colorado results.
  *
  * @param apiKey - Google Maps API key
+ * @param quota - Per-client limit on lookups; unlimited if omitted
  */
-export function createGeocodeTool(apiKey: string) {
+export function createGeocodeTool(apiKey: string, quota?: GeocodeQuota) {
   return tool({
     description:
       "Convert a location name (e.g. 'Berthoud Pass') to latitude/longitude coordinates. ALWAYS use this tool first before fetching avalanche info.",
@@ -32,32 +103,13 @@ export function createGeocodeTool(apiKey: string) {
         ),
     }),
     execute: async ({ location }) => {
-      const params = new URLSearchParams({
-        address: location,
-        components: "administrative_area:CO|country:US",
-        key: apiKey,
-      });
-
-      const response = await fetch(
-        `https://maps.googleapis.com/maps/api/geocode/json?${params}`,
-      );
-
-      if (!response.ok) {
-        return { error: "Unable to find location" };
+      const allowance = await quota?.(1);
+      if (allowance && !allowance.allowed) {
+        return geocodeRateLimitedError(allowance.retryAfterSeconds);
       }
 
-      const data = (await response.json()) as GoogleGeocodeResponse;
-
-      if (data.status !== "OK" || !data.results?.length) {
-        return { error: "Unable to find location" };
-      }
-
-      const result = data.results[0];
-      return {
-        lat: result.geometry.location.lat,
-        lng: result.geometry.location.lng,
-        displayName: result.formatted_address,
-      };
+      const result = await geocodeLocation(apiKey, location);
+      return result ?? { error: "Unable to find location" };
     },
   });
 }
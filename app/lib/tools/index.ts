@@ -1,23 +1,80 @@
-import type { InferUITools, UIMessage, ToolUIPart, UIMessagePart, UIDataTypes } from "ai";
+import type {
+  InferUITools,
+  UIMessage,
+  ToolUIPart,
+  UIMessagePart,
+  UIDataTypes,
+} from "ai";
 import type { createAvalancheInfoTool } from "./avalanche-info";
 import type { createGeocodeTool } from "./geocode";
-export { createGeocodeTool } from "./geocode";
+import type { createWhatChangedTool } from "./what-changed";
+import type { createStatewideOverviewTool } from "./statewide-overview";
+import type { createCompareLocationsTool } from "./compare-locations";
+import type { createAnalyzeRouteTool } from "./analyze-route";
+import type { createSlopeProblemsTool } from "./slope-problems";
+import type {
+  createForecastByZoneTool,
+  createListZonesTool,
+} from "./zone-directory";
+import type { UsageSummary } from "../chat/usage";
+export { createGeocodeTool, type GeocodeQuota } from "./geocode";
 export { createAvalancheInfoTool } from "./avalanche-info";
+export { createWhatChangedTool } from "./what-changed";
+export { createStatewideOverviewTool } from "./statewide-overview";
+export { createCompareLocationsTool } from "./compare-locations";
+export { createAnalyzeRouteTool } from "./analyze-route";
+export { createSlopeProblemsTool } from "./slope-problems";
+export {
+  createForecastByZoneTool,
+  createListZonesTool,
+} from "./zone-directory";
 
 type GeoCodeToolReturn = ReturnType<typeof createGeocodeTool>;
 type AvalancheInfoToolReturn = ReturnType<typeof createAvalancheInfoTool>;
+type WhatChangedToolReturn = ReturnType<typeof createWhatChangedTool>;
+type StatewideOverviewToolReturn = ReturnType<
+  typeof createStatewideOverviewTool
+>;
+type CompareLocationsToolReturn = ReturnType<typeof createCompareLocationsTool>;
+type AnalyzeRouteToolReturn = ReturnType<typeof createAnalyzeRouteTool>;
+type SlopeProblemsToolReturn = ReturnType<typeof createSlopeProblemsTool>;
+type ListZonesToolReturn = ReturnType<typeof createListZonesTool>;
+type ForecastByZoneToolReturn = ReturnType<typeof createForecastByZoneTool>;
 
 export type Tools = {
   geocode: GeoCodeToolReturn;
   getAvalancheInfo: AvalancheInfoToolReturn;
+  whatChanged: WhatChangedToolReturn;
+  getStatewideOverview: StatewideOverviewToolReturn;
+  compareLocations: CompareLocationsToolReturn;
+  analyzeRoute: AnalyzeRouteToolReturn;
+  checkSlope: SlopeProblemsToolReturn;
+  listZones: ListZonesToolReturn;
+  getForecastByZone: ForecastByZoneToolReturn;
 };
 
 export type CaicTools = InferUITools<Tools>;
-export type CaicUiMessage = UIMessage<unknown, {}, CaicTools>;
+export type CaicMessageMetadata = {
+  /** Id of the model that answered */
+  model?: string;
+  /** Tokens, steps and tool timings, sent once the answer finishes */
+  usage?: UsageSummary;
+};
+export type CaicUiMessage = UIMessage<CaicMessageMetadata, {}, CaicTools>;
 export type CaicToolPart = ToolUIPart<CaicTools>;
 
 export function isCaicToolPart(
-  part: UIMessagePart<UIDataTypes, CaicTools>
+  part: UIMessagePart<UIDataTypes, CaicTools>,
 ): part is CaicToolPart {
-  return part.type === "tool-geocode" || part.type === "tool-getAvalancheInfo";
+  return (
+    part.type === "tool-geocode" ||
+    part.type === "tool-getAvalancheInfo" ||
+    part.type === "tool-whatChanged" ||
+    part.type === "tool-getStatewideOverview" ||
+    part.type === "tool-compareLocations" ||
+    part.type === "tool-analyzeRoute" ||
+    part.type === "tool-checkSlope" ||
+    part.type === "tool-listZones" ||
+    part.type === "tool-getForecastByZone"
+  );
 }
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { createCAICClient } from "../caic";
+import { createFixtureFetch } from "../caic/fixtures";
+import type { ElevationProvider } from "../elevation";
+import { createSlopeProblemsTool } from "./slope-problems";
+
+const client = createCAICClient({ fetch: createFixtureFetch() });
+
+/** Flat ground at 4,000 m, above treeline everywhere */
+const flat: ElevationProvider = {
+  getElevations: async (points) => points.map(() => 4000),
+};
+
+function run(input: { lat: number; lng: number; aspect?: "e" }) {
+  return createSlopeProblemsTool(client, flat).execute!(input, {
+    toolCallId: "call-1",
+    messages: [],
+  });
+}
+
+describe("checkSlope", () => {
+  it("lists the problems that apply to the slope", async () => {
+    const result = await run({ lat: 39.1, lng: -106.9, aspect: "e" });
+
+    expect(result).toMatchObject({
+      slope: { aspect: "e", band: "alp" },
+      problemsApplying: [
+        { date: "2026-01-12T00:00:00Z", types: ["windSlab"] },
+        { date: "2026-01-13T00:00:00Z", types: ["windSlab"] },
+      ],
+      content: expect.stringContaining("# Slope Check: Aspen"),
+    });
+  });
+
+  it("asks for the aspect when the terrain is too flat", async () => {
+    expect(await run({ lat: 39.1, lng: -106.9 })).toMatchObject({
+      code: "NO_ASPECT",
+    });
+  });
+
+  it("rejects slopes outside CAIC coverage", async () => {
+    expect(await run({ lat: 38.57, lng: -109.55, aspect: "e" })).toMatchObject({
+      code: "OUTSIDE_COVERAGE",
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import { tool } from "ai";
+import { z } from "zod";
+import {
+  type Aspect,
+  aspectLabels,
+  aspects,
+  type CAICClient,
+  dangerLabels,
+  elevationLabels,
+  formatAspectElevations,
+  matchSlopeProblems,
+  problemTypeLabels,
+  type SlopeDay,
+} from "../caic";
+import {
+  deriveSlope,
+  type ElevationProvider,
+  type PointElevationBand,
+  resolveElevationBand,
+} from "../elevation";
+import { toToolError } from "./avalanche-info";
+
+/**
+ * The slope being checked: its band, and its aspect from the user or terrain
+ */
+interface SlopeDescription extends PointElevationBand {
+  aspect: Aspect;
+  aspectSource: "user" | "terrain";
+  slopeDegrees?: number;
+}
+
+function formatSlopeCheck(
+  publicName: string,
+  slope: SlopeDescription,
+  days: SlopeDay[],
+): string {
+  const aspectLabel = aspectLabels[slope.aspect];
+  const bandLabel = elevationLabels[slope.band];
+  const derived =
+    slope.aspectSource === "terrain" && slope.slopeDegrees !== undefined
+      ? ` (from terrain, ~${Math.round(slope.slopeDegrees)}°)`
+      : "";
+
+  const sections = [
+    `# Slope Check: ${publicName}`,
+    `Slope: ${aspectLabel}-facing${derived}, ${slope.elevationFt.toLocaleString("en-US")} ft (${bandLabel})`,
+  ];
+
+  for (const day of days) {
+    const lines = [
+      `## ${day.date}: ${dangerLabels[day.rating] ?? day.rating} at ${bandLabel}`,
+    ];
+
+    if (day.applies.length) {
+      lines.push(`Applies to this ${aspectLabel} ${bandLabel} slope:`);
+      lines.push(
+        ...day.applies.map(
+          (p) =>
+            `- ${problemTypeLabels[p.type] ?? p.type} (${p.likelihood}, D${p.expectedSize.min}–D${p.expectedSize.max})`,
+        ),
+      );
+    } else {
+      lines.push(
+        `No listed avalanche problem includes ${aspectLabel} aspects at ${bandLabel}.`,
+      );
+    }
+
+    if (day.elsewhere.length) {
+      lines.push("Elsewhere in the zone:");
+      lines.push(
+        ...day.elsewhere.map(
+          (p) =>
+            `- ${problemTypeLabels[p.type] ?? p.type}: ${formatAspectElevations(p.aspectElevations)}`,
+        ),
+      );
+    }
+
+    sections.push(lines.join("\n"));
+  }
+
+  return sections.join("\n\n");
+}
+
+/**
+ * Creates a tool that checks which of a forecast's avalanche problems apply
+ * to one slope, from its aspect and elevation band
+ *
+ * @param client - CAIC API client instance
+ * @param elevation - Elevation lookup for the slope's band and, when the
+ * user gives no aspect, its aspect
+ */
+export function createSlopeProblemsTool(
+  client: CAICClient,
+  elevation: ElevationProvider,
+) {
+  return tool({
+    description:
+      "Check which avalanche problems in today's forecast apply to a specific slope, using each problem's aspect and elevation matrix. Use when the user asks about a particular slope, line or face, e.g. 'does the wind slab problem apply to the NE face of Mount Trelease?'. Geocode the slope first. If the user doesn't say which way it faces, the aspect is derived from terrain.",
+    inputSchema: z.object({
+      lat: z.number().min(-90).max(90).describe("Latitude of the slope"),
+      lng: z.number().min(-180).max(180).describe("Longitude of the slope"),
+      aspect: z
+        .enum(aspects)
+        .optional()
+        .describe(
+          "Direction the slope faces (n, ne, e, se, s, sw, w, nw), if the user said. Otherwise it is derived from terrain.",
+        ),
+      elevationFt: z
+        .number()
+        .optional()
+        .describe(
+          "Elevation of the slope in feet, if the user gave one. Otherwise it is looked up.",
+        ),
+    }),
+    execute: async ({ lat, lng, aspect, elevationFt }) => {
+      let lookup;
+      try {
+        lookup = await client.fetchForecastForLocation("avalancheforecast", {
+          lat,
+          lng,
+        });
+      } catch (error) {
+        return toToolError(error);
+      }
+
+      if (lookup.status === "outside-coverage") {
+        return {
+          error:
+            "This slope is outside CAIC coverage. CAIC only forecasts for the Colorado backcountry.",
+          code: "OUTSIDE_COVERAGE",
+        };
+      }
+      if (lookup.status === "no-product") {
+        return { error: "No forecast available for this location" };
+      }
+
+      const forecast = lookup.product;
+      const point = { lat, lng };
+      const [band, terrain] = await Promise.all([
+        resolveElevationBand(
+          elevation,
+          point,
+          forecast.publicName,
+          elevationFt,
+        ),
+        aspect ? null : deriveSlope(elevation, point),
+      ]);
+
+      if (!band) {
+        return {
+          error:
+            "The elevation of this slope is unknown. Ask the user for its elevation.",
+          code: "NO_ELEVATION",
+        };
+      }
+
+      const slopeAspect = aspect ?? terrain?.aspect;
+      if (!slopeAspect) {
+        return {
+          error: terrain
+            ? "The terrain here is too flat to have an aspect. Ask the user which way the slope faces."
+            : "The aspect of this slope could not be derived. Ask the user which way it faces.",
+          code: "NO_ASPECT",
+        };
+      }
+
+      const slope: SlopeDescription = {
+        ...band,
+        aspect: slopeAspect,
+        aspectSource: aspect ? "user" : "terrain",
+        slopeDegrees: terrain?.slopeDegrees,
+      };
+      const days = matchSlopeProblems(forecast, slope.aspect, slope.band);
+
+      return {
+        content: formatSlopeCheck(forecast.publicName, slope, days),
+        slope: {
+          aspect: slope.aspect,
+          band: slope.band,
+          elevationFt: slope.elevationFt,
+        },
+        problemsApplying: days.map((day) => ({
+          date: day.date,
+          types: day.applies.map((p) => p.type),
+        })),
+      };
+    },
+  });
+}
@@ -0,0 +1,113 @@
+import { tool } from "ai";
+import { z } from "zod";
+import {
+  type CAICClient,
+  dangerLabels,
+  dangerRank,
+  type ForecastSummary,
+  problemTypeLabels,
+  summarizeForecast,
+} from "../caic";
+import { toToolError } from "./avalanche-info";
+
+type SortBy = "danger" | "safest" | "name";
+
+/**
+ * Compare zones by their highest danger on each day in turn
+ */
+function compareByDanger(a: ForecastSummary, b: ForecastSummary): number {
+  const days = Math.max(a.days.length, b.days.length);
+  for (let i = 0; i < days; i++) {
+    const delta =
+      dangerRank(a.days[i]?.highest ?? "noRating") -
+      dangerRank(b.days[i]?.highest ?? "noRating");
+    if (delta !== 0) return delta;
+  }
+  return 0;
+}
+
+function sortZones(zones: ForecastSummary[], sortBy: SortBy) {
+  const byName = (a: ForecastSummary, b: ForecastSummary) =>
+    a.publicName.localeCompare(b.publicName);
+
+  return [...zones].sort((a, b) => {
+    if (sortBy === "name") return byName(a, b);
+    const delta = compareByDanger(a, b);
+    return (sortBy === "danger" ? -delta : delta) || byName(a, b);
+  });
+}
+
+const formatDanger = (rating: string) => dangerLabels[rating] ?? "-";
+
+/**
+ * Render zones as a single compact markdown table, one row per zone and day
+ */
+function formatOverview(zones: ForecastSummary[], sortBy: SortBy): string {
+  const order = {
+    danger: "most dangerous first",
+    safest: "least dangerous first",
+    name: "by zone name",
+  }[sortBy];
+
+  const rows = zones.flatMap((zone) =>
+    zone.days.map((day, index) => {
+      const problems = day.problems
+        .map((p) => problemTypeLabels[p.type] ?? p.type)
+        .join(", ");
+      return `| ${index === 0 ? zone.publicName : ""} | ${day.date.slice(0, 10)} | ${formatDanger(day.alp)} | ${formatDanger(day.tln)} | ${formatDanger(day.btl)} | ${problems || "-"} |`;
+    }),
+  );
+
+  return [
+    `# Statewide Avalanche Danger (${order})`,
+    "| Zone | Date | Alpine | Treeline | Below Treeline | Problems |",
+    "| --- | --- | --- | --- | --- | --- |",
+    ...rows,
+  ].join("\n");
+}
+
+/**
+ * Creates a tool that lists every forecast zone with its danger ratings and
+ * avalanche problems, for statewide questions like "where is it safest?"
+ *
+ * @param client - CAIC API client instance
+ */
+export function createStatewideOverviewTool(client: CAICClient) {
+  return tool({
+    description:
+      "Get a compact statewide overview of avalanche danger: every Colorado forecast zone with its danger rating per elevation band and day, and its avalanche problem types. Use for questions comparing the whole state, like 'where is it safest this weekend?'. No location needed.",
+    inputSchema: z.object({
+      sortBy: z
+        .enum(["danger", "safest", "name"])
+        .default("danger")
+        .describe(
+          "Sort order: 'danger' lists the most dangerous zones first, 'safest' the least dangerous first, 'name' alphabetically",
+        ),
+    }),
+    execute: async ({ sortBy }) => {
+      try {
+        const [latest, areas] = await Promise.all([
+          client.fetchLatestByArea("avalancheforecast"),
+          client.getAreas("avalancheforecast"),
+        ]);
+
+        // Only zones that still have an area in the current GeoJSON
+        const zones = areas.features.flatMap((feature) => {
+          const forecast = latest.get(feature.properties.id);
+          return forecast ? [summarizeForecast(forecast)] : [];
+        });
+
+        if (!zones.length) {
+          return { error: "No zone forecasts are currently available" };
+        }
+
+        return {
+          content: formatOverview(sortZones(zones, sortBy), sortBy),
+          zoneCount: zones.length,
+        };
+      } catch (error) {
+        return toToolError(error);
+      }
+    },
+  });
+}
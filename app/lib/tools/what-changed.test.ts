@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import type { ForecastArchive } from "../archive";
+import { type AvalancheForecast, createCAICClient } from "../caic";
+import { createFixtureFetch } from "../caic/fixtures";
+import { createWhatChangedTool } from "./what-changed";
+
+const client = createCAICClient({ fetch: createFixtureFetch() });
+
+/** Archive holding only the given products */
+const archiveOf = (...products: AvalancheForecast[]): ForecastArchive => ({
+  saveProducts: async () => 0,
+  saveAreas: async () => false,
+  queryProducts: async () => products,
+});
+
+function run(archive: ForecastArchive | undefined, lat: number, lng: number) {
+  return createWhatChangedTool(client, archive).execute!(
+    { lat, lng },
+    { toolCallId: "call-1", messages: [] },
+  );
+}
+
+describe("whatChanged", () => {
+  it("compares with the previous published issuance", async () => {
+    const result = await run(undefined, 39.8, -105.7);
+
+    expect(result).toMatchObject({
+      content: expect.stringContaining("# What Changed: Front Range"),
+    });
+  });
+
+  it("falls back to the archive for older issuances", async () => {
+    const [vail] = (
+      await client.fetchForecastForProduct("avalancheforecast")
+    ).filter((p) => p.publicName === "Vail & Summit County");
+    const archived = {
+      ...vail,
+      id: "archived",
+      issueDateTime: "2026-01-11T23:30:00Z",
+      dangerRatings: {
+        days: vail.dangerRatings.days.map((day) => ({ ...day, alp: "low" })),
+      },
+    };
+
+    expect(await run(undefined, 39.6, -106.2)).toMatchObject({
+      code: "NO_PREVIOUS_PRODUCT",
+    });
+    expect(await run(archiveOf(archived), 39.6, -106.2)).toMatchObject({
+      content: expect.stringContaining("Alpine: Low → Considerable"),
+    });
+  });
+
+  it("reports points outside CAIC coverage", async () => {
+    expect(await run(undefined, 37, -100)).toMatchObject({
+      code: "OUTSIDE_COVERAGE",
+    });
+  });
+});
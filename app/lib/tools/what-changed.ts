@@ -0,0 +1,106 @@
+import { tool } from "ai";
+import { z } from "zod";
+import {
+  type AvalancheForecast,
+  type CAICClient,
+  diffForecasts,
+  formatForecastDiff,
+} from "../caic";
+import type { ForecastArchive } from "../archive";
+import { toToolError } from "./avalanche-info";
+
+/**
+ * Find the issuance before `current`, first among products CAIC still
+ * publishes, then in the archive
+ */
+async function findPrevious(
+  client: CAICClient,
+  archive: ForecastArchive | undefined,
+  current: AvalancheForecast,
+): Promise<AvalancheForecast | null> {
+  const published = await client.findPreviousProduct(current);
+  if (published || !archive) return published;
+
+  for (const zone of [current.areaId, current.publicName]) {
+    const archived = await archive.queryProducts({
+      zone,
+      productType: "avalancheforecast",
+      to: new Date(current.issueDateTime),
+      limit: 5,
+    });
+    const previous = archived.find(
+      (p): p is AvalancheForecast =>
+        p.type === "avalancheforecast" && p.id !== current.id,
+    );
+    if (previous) return previous;
+  }
+
+  return null;
+}
+
+/**
+ * Creates a tool that explains how the current avalanche forecast for a
+ * location differs from the previous issuance.
+ *
+ * @param client - CAIC API client instance
+ * @param archive - Optional forecast archive, used when CAIC no longer
+ * publishes the previous issuance
+ */
+export function createWhatChangedTool(
+  client: CAICClient,
+  archive?: ForecastArchive,
+) {
+  return tool({
+    description:
+      "Compare the current avalanche forecast for a location with the previous one and list what changed: danger ratings, avalanche problems, and rewritten summaries. Use the 'geocode' tool first to get coordinates.",
+    inputSchema: z.object({
+      lat: z
+        .number()
+        .min(-90)
+        .max(90)
+        .describe(
+          "Latitude of the location (e.g. 39.798). Obtain this from the 'geocode' tool.",
+        ),
+      lng: z
+        .number()
+        .min(-180)
+        .max(180)
+        .describe(
+          "Longitude of the location (e.g. -105.777). Obtain this from the 'geocode' tool.",
+        ),
+    }),
+    execute: async ({ lat, lng }) => {
+      try {
+        const lookup = await client.fetchForecastForLocation(
+          "avalancheforecast",
+          { lat, lng },
+        );
+
+        if (lookup.status === "outside-coverage") {
+          return {
+            error:
+              "This location is outside CAIC coverage. CAIC only forecasts for the Colorado backcountry.",
+            code: "OUTSIDE_COVERAGE",
+          };
+        }
+        if (lookup.status === "no-product") {
+          return { error: "No forecast available for this location" };
+        }
+
+        const previous = await findPrevious(client, archive, lookup.product);
+        if (!previous) {
+          return {
+            error: "No previous forecast is available for this zone",
+            code: "NO_PREVIOUS_PRODUCT",
+          };
+        }
+
+        return {
+          content: formatForecastDiff(diffForecasts(previous, lookup.product)),
+        };
+      } catch (error) {
+        return toToolError(error);
+      }
+    },
+  });
+}
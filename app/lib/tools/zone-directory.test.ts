@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { createCAICClient, type FeatureCollection } from "../caic";
+import { createFixtureFetch } from "../caic/fixtures";
+import { createForecastByZoneTool } from "./zone-directory";
+
+const client = createCAICClient({ fetch: createFixtureFetch() });
+
+function run(zone: string, productType = "avalancheforecast" as const) {
+  return createForecastByZoneTool(client).execute!(
+    { zone, productType },
+    { toolCallId: "call-1", messages: [] },
+  );
+}
+
+describe("getForecastByZone", () => {
+  it("fetches the forecast for a fuzzily named zone", async () => {
+    expect(await run("aspen")).toMatchObject({
+      zone: { id: "6f1ac1f2-0a3e-4c1b-9d5e-1b2f3c4d5e04", name: "Aspen" },
+      content: expect.stringContaining("- Alpine: High"),
+    });
+  });
+
+  it("lists the available zones when nothing matches", async () => {
+    expect(await run("Grand Mesa")).toMatchObject({
+      code: "UNKNOWN_ZONE",
+      availableZones: [
+        "Aspen",
+        "Front Range",
+        "Sawatch",
+        "Vail & Summit County",
+      ],
+    });
+  });
+});
+
+describe("getForecastByZone with a zone centered outside itself", () => {
+  // Aspen's centroid moved into Sawatch, as happens with concave zones
+  const fixtureFetch = createFixtureFetch();
+  const shiftedFetch: typeof fetch = async (input, init) => {
+    const response = await fixtureFetch(input, init);
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    if (
+      !url.searchParams
+        .get("_api_proxy_uri")
+        ?.includes("productType=avalancheforecast")
+    ) {
+      return response;
+    }
+
+    const areas: FeatureCollection = await response.json();
+    for (const feature of areas.features) {
+      if (feature.properties.id.endsWith("04")) {
+        feature.properties.centroid = [-106.2, 39.0];
+      }
+    }
+    return Response.json(areas);
+  };
+  const shifted = createCAICClient({ fetch: shiftedFetch });
+
+  it("matches the forecast by area id", async () => {
+    const result = await createForecastByZoneTool(shifted).execute!(
+      { zone: "Aspen", productType: "avalancheforecast" },
+      { toolCallId: "call-1", messages: [] },
+    );
+
+    expect(result).toMatchObject({
+      zone: { name: "Aspen" },
+      content: expect.stringContaining("- Alpine: High"),
+    });
+  });
+});
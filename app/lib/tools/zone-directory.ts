@@ -0,0 +1,109 @@
+import { tool } from "ai";
+import { z } from "zod";
+import type { CAICClient, ProductType, ZoneEntry } from "../caic";
+import { formatProduct, toToolError } from "./avalanche-info";
+
+/**
+ * Creates a tool that lists every CAIC forecast zone with its id, centroid
+ * and bounding box.
+ *
+ * @param client - CAIC API client instance
+ */
+export function createListZonesTool(client: CAICClient) {
+  return tool({
+    description:
+      "List every CAIC avalanche forecast zone with its name, id, center point and bounding box. Use this to find the exact zone name or id before calling 'getForecastByZone'.",
+    inputSchema: z.object({}),
+    execute: async () => {
+      try {
+        const catalog = await client.getZoneCatalog();
+        return {
+          zones: catalog.list().map((zone) => ({
+            id: zone.id,
+            name: zone.publicName,
+            centroid: zone.centroid,
+            bbox: zone.bbox,
+          })),
+        };
+      } catch (error) {
+        return toToolError(error);
+      }
+    },
+  });
+}
+
+/**
+ * The product of a type that covers a zone. Forecasts are issued per zone,
+ * so they are matched by area id: a point lookup at the centroid can land in
+ * a neighbouring zone when the zone is concave or in several parts.
+ * Regional discussions and special products use their own, larger areas, so
+ * the one covering the zone's center is used.
+ */
+async function productForZone(
+  client: CAICClient,
+  productType: ProductType,
+  zone: ZoneEntry,
+) {
+  if (productType === "avalancheforecast") {
+    const forecasts = await client.fetchLatestByArea(productType);
+    return forecasts.get(zone.id) ?? null;
+  }
+
+  const lookup = await client.fetchForecastForLocation(
+    productType,
+    zone.centroid,
+  );
+  return lookup.status === "found" ? lookup.product : null;
+}
+
+/**
+ * Creates a tool that fetches a product for a forecast zone given by name or
+ * id, without geocoding.
+ *
+ * @param client - CAIC API client instance
+ */
+export function createForecastByZoneTool(client: CAICClient) {
+  return tool({
+    description:
+      "Fetch the avalanche forecast, regional discussion, or special product for a CAIC forecast zone by name (e.g. 'Front Range', 'Vail & Summit County') or zone id. Names are matched fuzzily. Prefer this over 'geocode' when the user names a forecast zone rather than a specific place.",
+    inputSchema: z.object({
+      zone: z
+        .string()
+        .describe("Zone name (e.g. 'Front Range') or id from 'listZones'"),
+      productType: z
+        .enum(["avalancheforecast", "regionaldiscussion", "specialproduct"])
+        .default("avalancheforecast")
+        .describe("The type of avalanche product to fetch"),
+    }),
+    execute: async ({ zone: query, productType }) => {
+      try {
+        const catalog = await client.getZoneCatalog();
+        const zone = catalog.resolve(query);
+
+        if (!zone) {
+          return {
+            error: `No forecast zone matches "${query}"`,
+            code: "UNKNOWN_ZONE",
+            availableZones: catalog.list().map((z) => z.publicName),
+          };
+        }
+
+        const product = await productForZone(client, productType, zone);
+        if (!product) {
+          return {
+            error: `No ${productType} available for ${zone.publicName}`,
+          };
+        }
+
+        const content = formatProduct(product);
+        if (!content) {
+          return { error: "Unexpected product type" };
+        }
+
+        return { zone: { id: zone.id, name: zone.publicName }, content };
+      } catch (error) {
+        return toToolError(error);
+      }
+    },
+  });
+}
@@ -2,5 +2,10 @@ import { type RouteConfig, index, route } from "@react-router/dev/routes";
 
 export default [
   index("routes/home.tsx"),
+  route("c/:chatId", "routes/chat.tsx"),
   route("api/chat", "routes/api.chat.ts"),
+  route("api/chat/:id/stream", "routes/api.chat.stream.ts"),
+  route("api/archive", "routes/api.archive.ts"),
+  route("api/conversations", "routes/api.conversations.ts"),
+  route("api/conversations/:chatId", "routes/api.conversation.ts"),
 ] satisfies RouteConfig;
@@ -0,0 +1,55 @@
+import type { Route } from "./+types/api.archive";
+import { z } from "zod";
+import { createArchiveForEnv } from "../lib/archive";
+
+/** A bare date such as `2026-01-31`, without a time */
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const querySchema = z.object({
+  zone: z.string().min(1).optional(),
+  type: z
+    .enum(["avalancheforecast", "regionaldiscussion", "specialproduct"])
+    .optional(),
+  from: z.coerce.date().optional(),
+  // A bare end date includes the whole of that day (UTC)
+  to: z
+    .preprocess(
+      (value) =>
+        typeof value === "string" && DATE_ONLY.test(value)
+          ? `${value}T23:59:59.999Z`
+          : value,
+      z.coerce.date(),
+    )
+    .optional(),
+  limit: z.coerce.number().int().positive().optional(),
+});
+
+/**
+ * Query archived CAIC products. `from` and `to` are both inclusive, so the
+ * example below covers every product in effect during January.
+ *
+ * GET /api/archive?zone=Front%20Range&type=avalancheforecast&from=2026-01-01&to=2026-01-31
+ */
+export async function loader({ request, context }: Route.LoaderArgs) {
+  const searchParams = new URL(request.url).searchParams;
+  const parsed = querySchema.safeParse(Object.fromEntries(searchParams));
+
+  if (!parsed.success) {
+    return Response.json(
+      { error: "Invalid query", issues: z.treeifyError(parsed.error) },
+      { status: 400 },
+    );
+  }
+
+  const { zone, type, from, to, limit } = parsed.data;
+  const archive = createArchiveForEnv(context.cloudflare.env);
+  const products = await archive.queryProducts({
+    zone,
+    productType: type,
+    from,
+    to,
+    limit,
+  });
+
+  return Response.json({ products });
+}
@@ -0,0 +1,24 @@
+import type { Route } from "./+types/api.chat.stream";
+import { replayChatStream } from "../lib/chat/stream-buffer";
+import { getChatSession, withSession } from "../lib/chat/session";
+
+/**
+ * Resume a chat's latest answer after a dropped connection: replays what
+ * was streamed so far, then follows the answer live. 204 if there is nothing
+ * to resume, including for chats of another session. `DefaultChatTransport`
+ * calls this from `resumeStream()`.
+ *
+ * GET /api/chat/:id/stream
+ */
+export async function loader({ request, params, context }: Route.LoaderArgs) {
+  if (!/^[\w-]{1,200}$/.test(params.id)) {
+    return Response.json({ error: "Invalid chat id" }, { status: 400 });
+  }
+
+  const env = context.cloudflare.env;
+  const session = await getChatSession(request, env, import.meta.env.DEV);
+  return withSession(
+    await replayChatStream(env, params.id, request, session.owner),
+    session,
+  );
+}
@@ -1,42 +1,307 @@
 import type { Route } from "./+types/api.chat";
 import {
   streamText,
-  type UIMessage,
   convertToModelMessages,
+  createIdGenerator,
   stepCountIs,
 } from "ai";
-import { getModel } from "../lib/ai/ai";
-import { OLLAMA_MODELS, CF_MODELS } from "../lib/ai/models";
+import { getModel, getModelConfig } from "../lib/ai/ai";
+import { buildSystemPrompt, selectPromptId } from "../lib/ai/prompts";
+import {
+  findModelOption,
+  getDefaultModelId,
+  getModelOptions,
+} from "../lib/ai/models";
 import {
   createGeocodeTool,
   createAvalancheInfoTool,
+  createWhatChangedTool,
+  createStatewideOverviewTool,
+  createCompareLocationsTool,
+  createAnalyzeRouteTool,
+  createSlopeProblemsTool,
+  createListZonesTool,
+  createForecastByZoneTool,
+  type CaicMessageMetadata,
+  type GeocodeQuota,
   type Tools,
 } from "../lib/tools";
-import { createCAICClient } from "../lib/caic";
+import { createCAICClientForEnv } from "../lib/caic/runtime";
+import { createArchiveForEnv } from "../lib/archive";
+import { extractRouteAttachments } from "../lib/route";
+import { createElevationProviderForEnv } from "../lib/elevation";
+import {
+  ChatRequestError,
+  conversationTitle,
+  createConversationStoreForEnv,
+  createUsageSinkForEnv,
+  createUsageTracker,
+  parseChatRequest,
+  summarizeTitle,
+  type ChatRequest,
+} from "../lib/chat";
+import { getChatStreamBuffer } from "../lib/chat/stream-buffer";
+import {
+  getChatSession,
+  withSession,
+  type ChatSession,
+} from "../lib/chat/session";
+import {
+  clientKeys,
+  consumeAll,
+  createRateLimiterForEnv,
+  rateLimitedResponse,
+} from "../lib/rate-limit";
+
+function logChatError(
+  event: string,
+  chatId: string | undefined,
+  error: unknown,
+) {
+  console.error(
+    JSON.stringify({
+      event,
+      chatId,
+      error: error instanceof Error ? error.message : String(error),
+    }),
+  );
+}
 
-export async function action({ request, context }: Route.ActionArgs) {
-  const { messages }: { messages: UIMessage[] } = await request.json();
+/**
+ * Chat is POST only; answer GET with a JSON 405 rather than a missing-loader
+ * error page
+ */
+export function loader({ request }: Route.LoaderArgs) {
+  return new ChatRequestError(
+    "METHOD_NOT_ALLOWED",
+    `Method ${request.method} is not allowed`,
+  ).toResponse();
+}
 
-  const model = import.meta.env.DEV
-    ? getModel({ provider: "ollama", modelName: OLLAMA_MODELS.QWEN })
-    : getModel({
-        provider: "cloudflare",
-        modelName: CF_MODELS.LLAMA,
-        env: context.cloudflare.env,
-      });
+export async function action(args: Route.ActionArgs) {
+  const session = await getChatSession(
+    args.request,
+    args.context.cloudflare.env,
+    import.meta.env.DEV,
+  );
+  return withSession(await answer(args, session), session);
+}
+
+async function answer(
+  { request, context }: Route.ActionArgs,
+  { owner }: ChatSession,
+): Promise<Response> {
+  const usage = createUsageTracker();
+  let body: ChatRequest;
+  try {
+    body = await parseChatRequest(request);
+  } catch (error) {
+    if (error instanceof ChatRequestError) return error.toResponse();
+    throw error;
+  }
 
-  const caicClient = createCAICClient();
+  const env = context.cloudflare.env;
+  const dev = import.meta.env.DEV;
+
+  // Every answer takes at least one model step, so charge for it before
+  // doing any work. Later steps are charged as they start, below.
+  const rateLimiter = createRateLimiterForEnv(env, dev);
+  const rateLimitKeys = clientKeys(request, owner);
+  const admitted = await consumeAll(rateLimiter, rateLimitKeys, "modelSteps");
+  if (!admitted.allowed) {
+    console.warn(
+      JSON.stringify({
+        event: "rate_limited",
+        bucket: "modelSteps",
+        chatId: body.id,
+        retryAfterSeconds: admitted.retryAfterSeconds,
+      }),
+    );
+    return rateLimitedResponse(admitted);
+  }
+
+  const modelOptions = getModelOptions(env, dev);
+  const modelOption = findModelOption(
+    body.model ?? getDefaultModelId(dev),
+    modelOptions,
+  );
+  if (!modelOption) {
+    return Response.json(
+      {
+        error: `Unknown or unavailable model: ${body.model}`,
+        code: "UNKNOWN_MODEL",
+        allowedModels: modelOptions.map((option) => option.id),
+      },
+      { status: 400 },
+    );
+  }
+  const { toolCalling, reasoning } = modelOption.capabilities;
+
+  const { messages, attachments } = extractRouteAttachments(body.messages);
+
+  // The picked model first, then the other models on offer as fallbacks. A
+  // model without tool calling can't stand in for one that has it.
+  const fallbacks = modelOptions.filter(
+    (o) =>
+      o.id !== modelOption.id && (!toolCalling || o.capabilities.toolCalling),
+  );
+  const model = getModel(
+    [modelOption, ...fallbacks].map((option) => getModelConfig(option, env)),
+    {
+      onFallback: (failed, error) =>
+        console.warn(
+          JSON.stringify({
+            event: "model_fallback",
+            model: failed.modelId,
+            error: error instanceof Error ? error.message : String(error),
+          }),
+        ),
+    },
+  );
+
+  const caicClient = await createCAICClientForEnv(env);
+  const elevation = await createElevationProviderForEnv(env);
+  const archive = createArchiveForEnv(env);
+  const geocodeQuota: GeocodeQuota = (lookups) =>
+    consumeAll(rateLimiter, rateLimitKeys, "geocode", lookups);
   const tools: Tools = {
-    geocode: createGeocodeTool(context.cloudflare.env.GOOGLE_MAPS_API_KEY),
-    getAvalancheInfo: createAvalancheInfoTool(caicClient),
+    geocode: createGeocodeTool(env.GOOGLE_MAPS_API_KEY, geocodeQuota),
+    getAvalancheInfo: createAvalancheInfoTool(caicClient, elevation, archive),
+    whatChanged: createWhatChangedTool(caicClient, archive),
+    getStatewideOverview: createStatewideOverviewTool(caicClient),
+    compareLocations: createCompareLocationsTool(
+      caicClient,
+      env.GOOGLE_MAPS_API_KEY,
+      geocodeQuota,
+    ),
+    analyzeRoute: createAnalyzeRouteTool(caicClient, attachments),
+    checkSlope: createSlopeProblemsTool(caicClient, elevation),
+    listZones: createListZonesTool(caicClient),
+    getForecastByZone: createForecastByZoneTool(caicClient),
   };
 
+  const systemPrompt = buildSystemPrompt(
+    selectPromptId({
+      requested: body.promptId,
+      configured: env.SYSTEM_PROMPT_ID,
+      chatId: body.id,
+    }),
+  );
+
+  // Save the question before answering, so a reload mid-answer reopens the
+  // conversation with it and resumes the stream
+  const conversations = createConversationStoreForEnv(env);
+  if (body.id) {
+    const saved = await conversations
+      .saveConversation(owner, body.id, body.messages)
+      .catch((error) => {
+        logChatError("conversation_save_failed", body.id, error);
+        return true;
+      });
+    // The chat id belongs to another session
+    if (!saved) {
+      return Response.json(
+        { error: "Conversation not found", code: "CONVERSATION_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+  }
+
+  // Title a new conversation from its first question while the answer
+  // streams. The title is a model call of its own, so it is charged and
+  // counted like a step; a failure or a spent limit leaves the default title.
+  const isFirstTurn =
+    body.messages.filter((message) => message.role === "user").length === 1;
+  const title =
+    body.id && isFirstTurn
+      ? consumeAll(rateLimiter, rateLimitKeys, "modelSteps")
+          .then((allowance) =>
+            allowance.allowed
+              ? summarizeTitle(model, body.messages, {
+                  onUsage: usage.recordCall,
+                })
+              : null,
+          )
+          .catch(() => null)
+      : null;
+
   const result = streamText({
     model,
+    system: systemPrompt.text,
     messages: convertToModelMessages(messages),
     stopWhen: stepCountIs(9),
-    tools,
+    // Models without tool calling answer from the system prompt alone
+    tools: toolCalling ? usage.timeTools(tools) : undefined,
+    // A client out of model steps mid-answer gets one last step without
+    // tools, so the answer ends with what the tools have found so far
+    prepareStep: async ({ stepNumber }) => {
+      if (stepNumber === 0) return undefined;
+      const step = await consumeAll(rateLimiter, rateLimitKeys, "modelSteps");
+      return step.allowed ? undefined : { toolChoice: "none" };
+    },
+    // Waiting for the title holds back the end of the answer until its usage
+    // is counted; it is usually done long before the first step
+    onStepFinish: async (step) => {
+      usage.recordStep(step.usage);
+      await title;
+    },
+    onFinish: ({ finishReason, response }) =>
+      createUsageSinkForEnv(env, dev).record({
+        ...usage.summary(),
+        chatId: body.id,
+        model: response.modelId,
+        prompt: `${systemPrompt.id}@${systemPrompt.version}`,
+        finishReason,
+      }),
   });
 
-  return result.toUIMessageStreamResponse();
+  return result.toUIMessageStreamResponse({
+    sendReasoning: reasoning,
+    // Server-side ids, so saved assistant messages keep the same id when the
+    // conversation is reopened
+    originalMessages: body.messages,
+    generateMessageId: createIdGenerator({ prefix: "msg", size: 16 }),
+    // Buffer the stream so a client that loses its connection can resume it
+    // from GET /api/chat/:id/stream
+    consumeSseStream: ({ stream }) => {
+      if (!body.id) return;
+      context.cloudflare.ctx.waitUntil(
+        getChatStreamBuffer(env, body.id)
+          .write(
+            owner,
+            body.messages[body.messages.length - 1].id,
+            stream.pipeThrough(new TextEncoderStream()),
+          )
+          .catch((error) =>
+            logChatError("stream_buffer_failed", body.id, error),
+          ),
+      );
+    },
+    // Awaited, so the client only sees the answer finish once the
+    // conversation is saved and can reload the history list
+    onFinish: async ({ messages }) => {
+      if (!body.id) return;
+      try {
+        await conversations.saveConversation(owner, body.id, messages);
+        const generated = await title;
+        if (generated) {
+          await conversations.renameConversation(owner, body.id, generated, {
+            ifTitle: conversationTitle(messages),
+          });
+        }
+      } catch (error) {
+        logChatError("conversation_save_failed", body.id, error);
+      }
+    },
+    // Report the model that actually answered, which differs from the picked
+    // one after a fallback, and the answer's usage once it is complete
+    messageMetadata: ({ part }): CaicMessageMetadata | undefined => {
+      if (part.type === "finish-step") return { model: part.response.modelId };
+      if (part.type === "finish") return { usage: usage.summary() };
+      return undefined;
+    },
+    headers: {
+      "X-System-Prompt": `${systemPrompt.id}@${systemPrompt.version}`,
+    },
+  });
 }
@@ -0,0 +1,56 @@
+import type { Route } from "./+types/api.conversation";
+import { z } from "zod";
+import { createConversationStoreForEnv, MAX_TITLE_LENGTH } from "../lib/chat";
+import { getChatSession } from "../lib/chat/session";
+
+const renameSchema = z.object({
+  title: z.string().trim().min(1).max(MAX_TITLE_LENGTH),
+});
+
+/**
+ * Rename or delete a saved conversation. Conversations of other sessions
+ * are reported missing.
+ *
+ * PATCH /api/conversations/:chatId  { "title": "Berthoud Pass, Jan 13" }
+ * DELETE /api/conversations/:chatId
+ */
+export async function action({ request, params, context }: Route.ActionArgs) {
+  const env = context.cloudflare.env;
+  const conversations = createConversationStoreForEnv(env);
+  // A new session owns nothing yet, so there is no cookie worth setting
+  const { owner } = await getChatSession(request, env, import.meta.env.DEV);
+
+  if (request.method === "DELETE") {
+    const deleted = await conversations.deleteConversation(
+      owner,
+      params.chatId,
+    );
+    return deleted
+      ? new Response(null, { status: 204 })
+      : Response.json({ error: "Conversation not found" }, { status: 404 });
+  }
+
+  if (request.method !== "PATCH") {
+    return Response.json(
+      { error: `Method ${request.method} is not allowed` },
+      { status: 405, headers: { Allow: "PATCH, DELETE" } },
+    );
+  }
+
+  const parsed = renameSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json(
+      { error: "Invalid request", issues: z.treeifyError(parsed.error) },
+      { status: 400 },
+    );
+  }
+
+  const renamed = await conversations.renameConversation(
+    owner,
+    params.chatId,
+    parsed.data.title,
+  );
+  return renamed
+    ? Response.json({ id: params.chatId, title: parsed.data.title })
+    : Response.json({ error: "Conversation not found" }, { status: 404 });
+}
@@ -0,0 +1,36 @@
+import type { Route } from "./+types/api.conversations";
+import { z } from "zod";
+import { createConversationStoreForEnv } from "../lib/chat";
+import { getChatSession, withSession } from "../lib/chat/session";
+
+const querySchema = z.object({
+  q: z.string().max(200).optional(),
+  limit: z.coerce.number().int().positive().optional(),
+});
+
+/**
+ * List the caller's saved conversations, or search them by title and
+ * message text
+ *
+ * GET /api/conversations?q=berthoud&limit=20
+ */
+export async function loader({ request, context }: Route.LoaderArgs) {
+  const searchParams = new URL(request.url).searchParams;
+  const parsed = querySchema.safeParse(Object.fromEntries(searchParams));
+
+  if (!parsed.success) {
+    return Response.json(
+      { error: "Invalid query", issues: z.treeifyError(parsed.error) },
+      { status: 400 },
+    );
+  }
+
+  const env = context.cloudflare.env;
+  const session = await getChatSession(request, env, import.meta.env.DEV);
+  const { q, limit } = parsed.data;
+  const conversations = await createConversationStoreForEnv(
+    env,
+  ).listConversations(session.owner, { search: q, limit });
+
+  return withSession(Response.json({ conversations }), session);
+}
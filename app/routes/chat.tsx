@@ -0,0 +1,56 @@
+import { data } from "react-router";
+import type { Route } from "./+types/chat";
+import { Chat } from "../chat/Chat";
+import { getDefaultModelId, getModelOptions } from "../lib/ai/models";
+import { createConversationStoreForEnv } from "../lib/chat";
+import { getChatSession, sessionHeaders } from "../lib/chat/session";
+
+export function meta({ data }: Route.MetaArgs) {
+  return [
+    { title: data ? `${data.title} · CF CAIC` : "CF CAIC" },
+    { name: "description", content: "A saved CAIC chat conversation" },
+  ];
+}
+
+export async function loader({ request, params, context }: Route.LoaderArgs) {
+  const env = context.cloudflare.env;
+  const dev = import.meta.env.DEV;
+  const session = await getChatSession(request, env, dev);
+  // Other sessions' conversations are reported missing, not forbidden
+  const conversation = await createConversationStoreForEnv(env).getConversation(
+    session.owner,
+    params.chatId,
+  );
+  if (!conversation) {
+    throw data("Conversation not found", {
+      status: 404,
+      headers: sessionHeaders(session),
+    });
+  }
+
+  return data(
+    {
+      message: env.VALUE_FROM_CLOUDFLARE,
+      id: conversation.id,
+      title: conversation.title,
+      messages: conversation.messages,
+      models: getModelOptions(env, dev),
+      defaultModel: getDefaultModelId(dev),
+    },
+    { headers: sessionHeaders(session) },
+  );
+}
+
+export default function ChatPage({ loaderData }: Route.ComponentProps) {
+  return (
+    <Chat
+      // A different conversation needs a fresh useChat instance
+      key={loaderData.id}
+      welcomeMessage={loaderData.message}
+      id={loaderData.id}
+      initialMessages={loaderData.messages}
+      models={loaderData.models}
+      defaultModel={loaderData.defaultModel}
+    />
+  );
+}
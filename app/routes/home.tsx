@@ -1,5 +1,8 @@
+import { data, useLocation } from "react-router";
 import type { Route } from "./+types/home";
 import { Chat } from "../chat/Chat";
+import { getDefaultModelId, getModelOptions } from "../lib/ai/models";
+import { getChatSession, sessionHeaders } from "../lib/chat/session";
 
 export function meta({}: Route.MetaArgs) {
   return [
@@ -8,10 +11,31 @@ export function meta({}: Route.MetaArgs) {
   ];
 }
 
-export function loader({ context }: Route.LoaderArgs) {
-  return { message: context.cloudflare.env.VALUE_FROM_CLOUDFLARE };
+export async function loader({ request, context }: Route.LoaderArgs) {
+  const dev = import.meta.env.DEV;
+  // Start the session that new conversations will belong to
+  const session = await getChatSession(request, context.cloudflare.env, dev);
+  return data(
+    {
+      message: context.cloudflare.env.VALUE_FROM_CLOUDFLARE,
+      // Configured endpoints live in env, so the picker gets its options here
+      models: getModelOptions(context.cloudflare.env, dev),
+      defaultModel: getDefaultModelId(dev),
+    },
+    { headers: sessionHeaders(session) },
+  );
 }
 
 export default function Home({ loaderData }: Route.ComponentProps) {
-  return <Chat welcomeMessage={loaderData.message} />;
+  // "New chat" links back here; a new location starts a fresh conversation
+  const location = useLocation();
+
+  return (
+    <Chat
+      key={location.key}
+      welcomeMessage={loaderData.message}
+      models={loaderData.models}
+      defaultModel={loaderData.defaultModel}
+    />
+  );
 }
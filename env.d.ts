@@ -1,6 +1,6 @@
 /**
- * Environment variable declarations for secrets.
- * Secrets are not auto-generated by wrangler types, so we declare them here.
+ * Environment variable declarations for secrets and optional overrides.
+ * Neither is auto-generated by wrangler types, so we declare them here.
  *
  * To add secrets:
  * - Production: `wrangler secret put GOOGLE_MAPS_API_KEY`
@@ -9,9 +9,54 @@
 declare namespace Cloudflare {
   interface Env {
     /**
-     * Google Maps Geocoding API key
+     * Google Maps API key with the Geocoding and Elevation APIs enabled
      * @see https://developers.google.com/maps/documentation/geocoding/overview
+     * @see https://developers.google.com/maps/documentation/elevation/overview
      */
     GOOGLE_MAPS_API_KEY: string;
+    /**
+     * Secret that signs the session cookie owning each saved conversation.
+     * Optional under `vite dev`.
+     */
+    SESSION_SECRET: string;
+    /**
+     * Override for the CAIC Avid proxy endpoint
+     * @default "https://avalanche.state.co.us/api-proxy/avid"
+     */
+    CAIC_API_BASE_URL?: string;
+    /**
+     * Set to "true" in development to serve synthetic Avid responses from
+     * `app/lib/caic/fixtures` instead of calling the network
+     */
+    CAIC_USE_FIXTURES?: string;
+    /**
+     * System prompt id from `app/lib/ai/prompts.ts`. A comma-separated list
+     * splits conversations between prompts for A/B comparison.
+     * @default "caic-v1"
+     */
+    SYSTEM_PROMPT_ID?: string;
+    /**
+     * Ollama API root used in development
+     * @default "http://localhost:11434/v1"
+     */
+    OLLAMA_BASE_URL?: string;
+    /**
+     * JSON array of self-hosted OpenAI-compatible endpoints (llama.cpp, vLLM,
+     * LM Studio, ...) and the models they serve. API keys go in separate
+     * secrets named by each endpoint's `apiKeyBinding`.
+     * @see app/lib/ai/providers.ts
+     */
+    OPENAI_COMPATIBLE_ENDPOINTS?: string;
+    /**
+     * Model calls allowed per client, as "count/period", e.g. "90/1h".
+     * Each step of an answer counts, including the ones after tool calls.
+     * @default "90/1h"
+     */
+    RATE_LIMIT_MODEL_STEPS?: string;
+    /**
+     * Google Geocoding lookups allowed per client, e.g. "60/1h"
+     * @default "60/1h"
+     */
+    RATE_LIMIT_GEOCODE?: string;
   }
 }
@@ -0,0 +1,29 @@
+-- Archived CAIC products, one row per product id. Times are stored in the
+-- UTC form of Date.toISOString() (2026-01-12T23:30:00.000Z), so range filters
+-- compare them correctly as text.
+CREATE TABLE IF NOT EXISTS products (
+  id TEXT PRIMARY KEY,
+  type TEXT NOT NULL,
+  area_id TEXT NOT NULL,
+  public_name TEXT NOT NULL,
+  issue_date_time TEXT NOT NULL,
+  expiry_date_time TEXT NOT NULL,
+  payload TEXT NOT NULL,
+  captured_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS products_area_issue
+  ON products (area_id, issue_date_time);
+CREATE INDEX IF NOT EXISTS products_name_issue
+  ON products (public_name COLLATE NOCASE, issue_date_time);
+CREATE INDEX IF NOT EXISTS products_type_issue
+  ON products (type, issue_date_time);
+
+-- Area GeoJSON snapshots; the GeoJSON itself lives in R2 under r2_key
+CREATE TABLE IF NOT EXISTS area_snapshots (
+  product_type TEXT NOT NULL,
+  hash TEXT NOT NULL,
+  r2_key TEXT NOT NULL,
+  captured_at TEXT NOT NULL,
+  PRIMARY KEY (product_type, hash)
+);
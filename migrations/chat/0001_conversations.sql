@@ -0,0 +1,12 @@
+-- Chat conversations, one row per useChat chat id. Messages are stored as a
+-- JSON array of UI messages with inline file data removed.
+CREATE TABLE IF NOT EXISTS conversations (
+  id TEXT PRIMARY KEY,
+  title TEXT NOT NULL,
+  messages TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS conversations_updated
+  ON conversations (updated_at);
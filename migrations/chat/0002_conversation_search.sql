@@ -0,0 +1,21 @@
+-- Full-text index over conversation titles and message text, kept in step
+-- with conversations by the store
+CREATE VIRTUAL TABLE IF NOT EXISTS conversations_fts USING fts5(
+  id UNINDEXED,
+  title,
+  body,
+  tokenize = 'porter unicode61'
+);
+
+-- Index conversations saved before search existed
+INSERT INTO conversations_fts (id, title, body)
+SELECT
+  c.id,
+  c.title,
+  (
+    SELECT group_concat(json_extract(p.value, '$.text'), char(10))
+    FROM json_each(c.messages) AS m, json_each(m.value, '$.parts') AS p
+    WHERE json_extract(p.value, '$.type') = 'text'
+  )
+FROM conversations AS c
+WHERE c.id NOT IN (SELECT id FROM conversations_fts);
@@ -0,0 +1,7 @@
+-- Owner of each conversation: the id in the signed session cookie of the
+-- browser that started it. Conversations saved before owners existed have
+-- none and can no longer be opened.
+ALTER TABLE conversations ADD COLUMN owner TEXT;
+
+CREATE INDEX IF NOT EXISTS conversations_owner_updated
+  ON conversations (owner, updated_at);
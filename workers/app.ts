@@ -1,4 +1,9 @@
 import { createRequestHandler } from "react-router";
+import { createArchiveForEnv, snapshotForecasts } from "../app/lib/archive";
+import { createCAICClientForEnv } from "../app/lib/caic/runtime";
+
+export { ChatStreamBuffer } from "../app/lib/chat/stream-buffer";
+export { RateLimitBuckets } from "../app/lib/rate-limit/durable-object";
 
 declare module "react-router" {
   export interface AppLoadContext {
@@ -20,4 +25,16 @@ export default {
       cloudflare: { env, ctx },
     });
   },
+  async scheduled(_controller, env, ctx) {
+    ctx.waitUntil(
+      (async () => {
+        const client = await createCAICClientForEnv(env);
+        const result = await snapshotForecasts(
+          client,
+          createArchiveForEnv(env)
+        );
+        console.log(JSON.stringify({ event: "archive-snapshot", ...result }));
+      })()
+    );
+  },
 } satisfies ExportedHandler<Env>;